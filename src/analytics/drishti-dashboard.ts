@@ -12,6 +12,7 @@
  * - Dashboard data preparation
  */
 
+import { getActiveDuration } from '../core/active-time';
 import { ICoreEvent, IYatra } from '../core/types';
 import { IJnana } from '../learning/types';
 import { IReflectionResult } from '../reflection/atma-vichara';
@@ -23,6 +24,7 @@ export interface IDashboardMetrics {
   totalYatras: number;
   activeYatra?: IYatra;
   totalCheckpoints: number;
+  linesChanged: number;
   totalMilestones: number;
   totalDharmaAlerts: number;
   totalJnana: number;
@@ -156,6 +158,12 @@ export class DrishtiDashboard {
       (currentActiveYatra?.checkpoints.length || 0);
     const totalCheckpoints = Math.max(eventCheckpoints, yatraCheckpoints);
 
+    // Lines inserted and deleted across checkpoints that carry line diff stats
+    const linesChanged = [...this.yatras, ...(currentActiveYatra ? [currentActiveYatra] : [])]
+      .flatMap(y => y.checkpoints)
+      .flatMap(cp => cp.diffStats || [])
+      .reduce((sum, stat) => sum + stat.insertions + stat.deletions, 0);
+
     // Count milestones from events if no yatras exist
     const eventMilestones = this.events.filter(e => e.type === 'milestone').length;
     const yatraMilestones =
@@ -174,7 +182,11 @@ export class DrishtiDashboard {
     const averageSessionDuration =
       completedYatras.length > 0
         ? completedYatras.reduce((sum, y) => {
-            const duration = y.endedAt && y.startedAt ? (y.endedAt - y.startedAt) / 1000 / 60 : 0;
+            // Paused time is not session time
+            const duration =
+              y.endedAt && y.startedAt
+                ? getActiveDuration(y.startedAt, y.endedAt, y.pauses) / 60
+                : 0;
             return sum + duration;
           }, 0) / completedYatras.length
         : 0;
@@ -187,6 +199,7 @@ export class DrishtiDashboard {
       totalYatras: this.yatras.length,
       activeYatra: currentActiveYatra,
       totalCheckpoints,
+      linesChanged,
       totalMilestones,
       totalDharmaAlerts,
       totalJnana: this.jnana.length,
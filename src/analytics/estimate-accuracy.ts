@@ -0,0 +1,69 @@
+/**
+ * Estimate Accuracy Module
+ *
+ * Compares the target durations of completed milestones with how long they actually took,
+ * so estimates can be calibrated over time.
+ * Maps to the Bhakti (reflection) pillar - learning from the gap between plan and reality.
+ *
+ * Features:
+ * - Median actual/target ratio and mean error
+ * - On-target, overrun and underrun counts
+ */
+
+import { IMilestoneEstimate } from '../core/types';
+
+/**
+ * Actual durations within this fraction of the target count as on target
+ */
+const ON_TARGET_TOLERANCE = 0.2;
+
+/**
+ * Estimate accuracy across completed milestones
+ */
+export interface IEstimateAccuracy {
+  count: number;
+  medianRatio: number; // Actual / target duration; above 1 means milestones take longer than estimated
+  meanError: number; // Mean of |actual - target| / target
+  onTarget: number;
+  overrun: number;
+  underrun: number;
+  estimates: IMilestoneEstimate[]; // Newest first
+}
+
+/**
+ * Summarizes how accurate milestone target durations have been
+ * @param estimates Target and actual durations of completed milestones
+ * @returns Accuracy report; ratios are 0 when there are no estimates
+ */
+export function getEstimateAccuracy(estimates: IMilestoneEstimate[]): IEstimateAccuracy {
+  const valid = estimates.filter(estimate => estimate.targetDuration > 0);
+  const ratios = valid.map(estimate => estimate.actualDuration / estimate.targetDuration);
+
+  return {
+    count: valid.length,
+    medianRatio: median(ratios),
+    meanError:
+      ratios.length === 0
+        ? 0
+        : ratios.reduce((sum, ratio) => sum + Math.abs(ratio - 1), 0) / ratios.length,
+    onTarget: ratios.filter(ratio => Math.abs(ratio - 1) <= ON_TARGET_TOLERANCE).length,
+    overrun: ratios.filter(ratio => ratio > 1 + ON_TARGET_TOLERANCE).length,
+    underrun: ratios.filter(ratio => ratio < 1 - ON_TARGET_TOLERANCE).length,
+    estimates: [...valid].sort((a, b) => b.completedAt - a.completedAt),
+  };
+}
+
+/**
+ * Gets the median of a list of numbers
+ * @param values Numbers
+ * @returns Median, or 0 for an empty list
+ */
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
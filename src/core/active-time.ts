@@ -0,0 +1,42 @@
+/**
+ * Active Time Module
+ *
+ * Working time of milestones and yatras: wall-clock time minus the intervals they were
+ * paused, so breaks never count as work.
+ *
+ * Features:
+ * - Active duration of a time span with pauses removed
+ * - Lookup of the pause still in progress
+ */
+
+import { IPauseInterval } from './types';
+
+/**
+ * Gets the working time between two moments
+ * @param start Start timestamp
+ * @param end End timestamp
+ * @param pauses Pause intervals; an open pause lasts until the end
+ * @returns Active duration in seconds
+ */
+export function getActiveDuration(
+  start: number,
+  end: number,
+  pauses: IPauseInterval[] = []
+): number {
+  const paused = pauses.reduce(
+    (sum, pause) =>
+      sum + Math.max(0, Math.min(end, pause.end ?? end) - Math.max(start, pause.start)),
+    0
+  );
+  return Math.max(0, Math.floor((end - start - paused) / 1000));
+}
+
+/**
+ * Gets the pause still in progress
+ * @param pauses Pause intervals
+ * @returns The open pause, or undefined when not paused
+ */
+export function getOpenPause(pauses: IPauseInterval[] = []): IPauseInterval | undefined {
+  const last = pauses[pauses.length - 1];
+  return last && last.end === undefined ? last : undefined;
+}
@@ -0,0 +1,135 @@
+/**
+ * Activity Monitor Module
+ *
+ * Watches for signs that the user is working - edits, cursor movement, editor switches and
+ * window focus - and reports when they go idle and when they come back.
+ *
+ * Features:
+ * - Input and focus based activity tracking
+ * - Idle detection after a configurable timeout, dated from the last activity
+ * - Return-from-idle notification on the next activity
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Callbacks for idle state changes
+ */
+export interface IActivityHandlers {
+  onIdle?: (since: number) => void; // since: time of the last activity
+  onActive?: () => void;
+}
+
+/**
+ * Tracks user activity and idle periods
+ */
+export class ActivityMonitor implements vscode.Disposable {
+  private idleTimeout: number;
+  private handlers: IActivityHandlers;
+  private lastActivityAt = Date.now();
+  private idleReported = false;
+  private intervalId?: NodeJS.Timeout;
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * Creates a new ActivityMonitor instance
+   * @param idleTimeout Seconds without activity after which the user counts as idle
+   * @param handlers Callbacks for going idle and becoming active again
+   */
+  constructor(idleTimeout: number, handlers: IActivityHandlers = {}) {
+    this.idleTimeout = idleTimeout;
+    this.handlers = handlers;
+  }
+
+  /**
+   * Starts listening for activity; starting counts as activity
+   */
+  public start(): void {
+    if (this.intervalId) {
+      return;
+    }
+
+    this.lastActivityAt = Date.now();
+    this.idleReported = false;
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document.uri.scheme === 'file' && event.contentChanges.length > 0) {
+          this.recordActivity();
+        }
+      }),
+      vscode.window.onDidChangeActiveTextEditor(() => this.recordActivity()),
+      vscode.window.onDidChangeTextEditorSelection(() => this.recordActivity()),
+      vscode.window.onDidChangeWindowState(state => {
+        // Leaving the window starts the idle clock; coming back is activity
+        if (state.focused) {
+          this.recordActivity();
+        } else {
+          this.lastActivityAt = Date.now();
+        }
+      })
+    );
+
+    // Check often enough that idle periods are noticed within a tenth of the timeout
+    const checkInterval = Math.max(1, Math.min(30, this.idleTimeout / 10));
+    this.intervalId = setInterval(() => this.checkIdle(), checkInterval * 1000);
+  }
+
+  /**
+   * Stops listening for activity
+   */
+  public stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Stops listening for activity
+   */
+  public dispose(): void {
+    this.stop();
+  }
+
+  /**
+   * Checks whether the user has been inactive for longer than the idle timeout
+   * @returns True when idle
+   */
+  public isIdle(): boolean {
+    return Date.now() - this.lastActivityAt > this.idleTimeout * 1000;
+  }
+
+  /**
+   * Gets the time of the last activity
+   * @returns Timestamp
+   */
+  public getLastActivityAt(): number {
+    return this.lastActivityAt;
+  }
+
+  /**
+   * Records activity, reporting the end of an idle period
+   */
+  public recordActivity(): void {
+    this.lastActivityAt = Date.now();
+
+    if (this.idleReported) {
+      this.idleReported = false;
+      this.handlers.onActive?.();
+    }
+  }
+
+  /**
+   * Reports the start of an idle period once
+   */
+  private checkIdle(): void {
+    if (!this.idleReported && this.isIdle()) {
+      this.idleReported = true;
+      this.handlers.onIdle?.(this.lastActivityAt);
+    }
+  }
+}
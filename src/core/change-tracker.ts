@@ -0,0 +1,430 @@
+/**
+ * Change Tracker Module
+ *
+ * Maintains the set of files changed during a yatra (Parivartana - transformation),
+ * combining git status, a workspace file system watcher and unsaved editor buffers.
+ * Shared by SutraCheckpoints and DharmaSankata so both see the same picture of the work,
+ * including saved edits and files rewritten by formatters, codegen or terminal commands.
+ * Maps to the Karma (action) pillar - observing every action taken on the codebase.
+ *
+ * Features:
+ * - git status / numstat based change detection with line counts
+ * - File system watcher for changes made outside the editor
+ * - Dirty editor buffer tracking
+ * - Per-yatra baseline so pre-existing changes are not attributed to the session
+ * - Changes only git sees dated from when they were first seen, for changes since a time
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GitCommandRunner, runGitCommand } from './git-service';
+import { FileChangeStatus, IFileChange } from './types';
+import { getWorkspaceFolderName, isWithin } from './workspace-folders';
+
+/**
+ * A file touched by an editor or file system event
+ */
+interface ITouchedFile {
+  kind: 'created' | 'changed' | 'deleted';
+  timestamp: number;
+}
+
+/**
+ * A change's git state and when it was first seen
+ */
+interface IGitState {
+  signature: string;
+  seenAt: number;
+}
+
+/**
+ * Result of reading git state across workspace folders
+ */
+interface IGitChanges {
+  roots: string[];
+  changes: Map<string, IFileChange>;
+}
+
+/**
+ * Tracks the change set of the current yatra
+ */
+export class ChangeTracker {
+  private runGit: GitCommandRunner;
+  private disposables: vscode.Disposable[] = [];
+  private touched: Map<string, ITouchedFile> = new Map();
+  private baseline: Map<string, string> = new Map();
+  private gitStates: Map<string, IGitState> = new Map();
+  private gitRead?: Promise<IGitChanges>; // Read in progress, shared by concurrent callers
+  private startedAt?: number;
+
+  /**
+   * Creates a new ChangeTracker instance
+   * @param runGit Git command runner (injectable for tests)
+   */
+  constructor(runGit: GitCommandRunner = runGitCommand) {
+    this.runGit = runGit;
+  }
+
+  /**
+   * Starts tracking a new change set.
+   * Changes already present in git when tracking starts form the baseline
+   * and are only reported once they are modified further.
+   */
+  public async start(): Promise<void> {
+    if (this.startedAt) {
+      return;
+    }
+
+    this.startedAt = Date.now();
+    this.touched.clear();
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(uri => this.recordTouch(uri, 'created')),
+      watcher.onDidChange(uri => this.recordTouch(uri, 'changed')),
+      watcher.onDidDelete(uri => this.recordTouch(uri, 'deleted')),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.contentChanges.length > 0) {
+          this.recordTouch(event.document.uri, 'changed');
+        }
+      })
+    );
+
+    const { changes } = await this.readGitChanges();
+    this.baseline = new Map(
+      Array.from(changes.values()).map(change => [change.path, this.getSignature(change)])
+    );
+    this.gitStates = new Map(
+      Array.from(this.baseline).map(([filePath, signature]) => [
+        filePath,
+        { signature, seenAt: this.startedAt! },
+      ])
+    );
+  }
+
+  /**
+   * Stops tracking and releases watchers
+   */
+  public stop(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.startedAt = undefined;
+  }
+
+  /**
+   * Checks whether tracking is active
+   * @returns True if a change set is being tracked
+   */
+  public isTracking(): boolean {
+    return this.startedAt !== undefined;
+  }
+
+  /**
+   * Gets the files changed during the current yatra
+   * @param since Optional timestamp; only files touched, or whose git state was first seen,
+   * at or after it are returned
+   * @returns Array of file changes
+   */
+  public async getChangeSet(since?: number): Promise<IFileChange[]> {
+    const { roots, changes: gitChanges } = await this.readGitChangesOnce();
+    const changes = new Map<string, IFileChange>();
+    this.recordGitStates(gitChanges);
+
+    for (const change of gitChanges.values()) {
+      const isNew = this.baseline.get(change.path) !== this.getSignature(change);
+      if (this.touched.has(change.path) || isNew) {
+        // Concurrent callers share the git read, so each gets its own copies
+        changes.set(change.path, { ...change });
+      }
+    }
+
+    // Files outside any git repository are only known through events
+    for (const [filePath, touch] of this.touched) {
+      if (!changes.has(filePath) && !roots.some(root => isWithin(filePath, root))) {
+        changes.set(filePath, await this.describeTouch(filePath, touch));
+      }
+    }
+
+    for (const doc of vscode.workspace.textDocuments) {
+      if (!doc.isDirty || doc.uri.scheme !== 'file') {
+        continue;
+      }
+
+      const existing = changes.get(doc.uri.fsPath);
+      if (existing) {
+        existing.dirty = true;
+      } else {
+        changes.set(doc.uri.fsPath, {
+          path: doc.uri.fsPath,
+          status: 'modified',
+          linesAdded: 0,
+          linesDeleted: 0,
+          dirty: true,
+        });
+      }
+    }
+
+    const result = Array.from(changes.values());
+    for (const change of result) {
+      const workspaceFolder = getWorkspaceFolderName(change.path);
+      if (workspaceFolder) {
+        change.workspaceFolder = workspaceFolder;
+      }
+    }
+
+    if (since === undefined) {
+      return result;
+    }
+
+    // Changes only git sees, e.g. from codegen or a checkout, count from when they were seen
+    return result.filter(
+      change =>
+        Math.max(
+          this.touched.get(change.path)?.timestamp ?? 0,
+          this.gitStates.get(change.path)?.seenAt ?? 0
+        ) >= since
+    );
+  }
+
+  /**
+   * Reads the committed (HEAD) contents of a file
+   * @param filePath Absolute file path
+   * @returns File contents at HEAD, or undefined if untracked or outside git
+   */
+  public async getBaseContent(filePath: string): Promise<string | undefined> {
+    try {
+      return await this.runGit(
+        ['show', `HEAD:./${path.basename(filePath)}`],
+        path.dirname(filePath)
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Records a file touched by an editor or file system event
+   * @param uri Touched file URI
+   * @param kind Kind of event
+   */
+  private recordTouch(uri: vscode.Uri, kind: ITouchedFile['kind']): void {
+    if (uri.scheme !== 'file' || /[/\\](\.git|node_modules)([/\\]|$)/.test(uri.fsPath)) {
+      return;
+    }
+
+    const previous = this.touched.get(uri.fsPath);
+    // A file created during the yatra stays "created" through later edits
+    const effectiveKind = previous?.kind === 'created' && kind === 'changed' ? 'created' : kind;
+    this.touched.set(uri.fsPath, { kind: effectiveKind, timestamp: Date.now() });
+  }
+
+  /**
+   * Notes when each change's git state was first seen, forgetting files git no longer
+   * reports as changed
+   * @param changes Changes read from git
+   */
+  private recordGitStates(changes: Map<string, IFileChange>): void {
+    const now = Date.now();
+    for (const filePath of this.gitStates.keys()) {
+      if (!changes.has(filePath)) {
+        this.gitStates.delete(filePath);
+      }
+    }
+
+    for (const change of changes.values()) {
+      const signature = this.getSignature(change);
+      if (this.gitStates.get(change.path)?.signature !== signature) {
+        this.gitStates.set(change.path, { signature, seenAt: now });
+      }
+    }
+  }
+
+  /**
+   * Reads git changes, sharing a read already in progress so callers in the same tick, e.g.
+   * a checkpoint and a scope check, run git once between them
+   * @returns Git repository roots and changes keyed by absolute path
+   */
+  private readGitChangesOnce(): Promise<IGitChanges> {
+    if (!this.gitRead) {
+      this.gitRead = this.readGitChanges().finally(() => {
+        this.gitRead = undefined;
+      });
+    }
+    return this.gitRead;
+  }
+
+  /**
+   * Reads git status and line counts for every workspace folder
+   * @returns Git repository roots and changes keyed by absolute path
+   */
+  private async readGitChanges(): Promise<IGitChanges> {
+    const roots: string[] = [];
+    const changes = new Map<string, IFileChange>();
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      let root: string;
+      try {
+        root = (await this.runGit(['rev-parse', '--show-toplevel'], folder.uri.fsPath)).trim();
+      } catch {
+        continue; // Not a git repository
+      }
+
+      if (roots.includes(root)) {
+        continue;
+      }
+      roots.push(root);
+
+      try {
+        const status = await this.runGit(
+          ['status', '--porcelain', '-z', '--untracked-files=all'],
+          root
+        );
+        for (const change of this.parseStatus(status, root)) {
+          changes.set(change.path, change);
+        }
+      } catch {
+        continue;
+      }
+
+      await this.applyLineCounts(root, changes);
+    }
+
+    return { roots, changes };
+  }
+
+  /**
+   * Parses `git status --porcelain -z` output
+   * @param output Raw command output
+   * @param root Repository root
+   * @returns File changes with zero line counts
+   */
+  private parseStatus(output: string, root: string): IFileChange[] {
+    const changes: IFileChange[] = [];
+    const entries = output.split('\0');
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (entry.length < 4) {
+        continue;
+      }
+
+      const code = entry.substring(0, 2);
+      const change: IFileChange = {
+        path: path.join(root, entry.substring(3)),
+        status: this.toStatus(code),
+        linesAdded: 0,
+        linesDeleted: 0,
+        dirty: false,
+      };
+
+      if (change.status === 'renamed') {
+        // Renames are followed by the original path as a separate entry
+        change.previousPath = path.join(root, entries[++i]);
+      }
+
+      changes.push(change);
+    }
+
+    return changes;
+  }
+
+  /**
+   * Maps a porcelain XY status code to a change status
+   * @param code Two-character status code
+   * @returns File change status
+   */
+  private toStatus(code: string): FileChangeStatus {
+    if (code === '??' || code.includes('A')) {
+      return 'added';
+    }
+    if (code.includes('R')) {
+      return 'renamed';
+    }
+    if (code.includes('D')) {
+      return 'deleted';
+    }
+    return 'modified';
+  }
+
+  /**
+   * Fills in insertion/deletion counts from `git diff --numstat` and untracked file contents
+   * @param root Repository root
+   * @param changes Changes to update in place
+   */
+  private async applyLineCounts(root: string, changes: Map<string, IFileChange>): Promise<void> {
+    try {
+      const numstat = await this.runGit(['diff', '--numstat', '-z', 'HEAD'], root);
+      const entries = numstat.split('\0');
+
+      for (let i = 0; i < entries.length; i++) {
+        const [added, deleted, file] = entries[i].split('\t');
+        if (deleted === undefined) {
+          continue;
+        }
+
+        // Renames have an empty path followed by the old and new paths
+        const relativePath = file ? file : entries[(i += 2)];
+        const change = changes.get(path.join(root, relativePath));
+        if (change) {
+          change.linesAdded = parseInt(added, 10) || 0;
+          change.linesDeleted = parseInt(deleted, 10) || 0;
+        }
+      }
+    } catch {
+      // No HEAD yet (fresh repository); untracked counts below still apply
+    }
+
+    for (const change of changes.values()) {
+      if (change.status === 'added' && change.linesAdded === 0 && isWithin(change.path, root)) {
+        change.linesAdded = await this.countLines(change.path);
+      }
+    }
+  }
+
+  /**
+   * Describes a file known only through events (outside git)
+   * @param filePath Absolute file path
+   * @param touch Recorded touch
+   * @returns File change
+   */
+  private async describeTouch(filePath: string, touch: ITouchedFile): Promise<IFileChange> {
+    const status: FileChangeStatus =
+      touch.kind === 'created' ? 'added' : touch.kind === 'deleted' ? 'deleted' : 'modified';
+
+    return {
+      path: filePath,
+      status,
+      linesAdded: status === 'added' ? await this.countLines(filePath) : 0,
+      linesDeleted: 0,
+      dirty: false,
+    };
+  }
+
+  /**
+   * Counts lines in a file on disk
+   * @param filePath Absolute file path
+   * @returns Line count, or 0 if unreadable
+   */
+  private async countLines(filePath: string): Promise<number> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      if (content.length === 0) {
+        return 0;
+      }
+      return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Gets a comparable signature of a change for baseline comparison
+   * @param change File change
+   * @returns Signature string
+   */
+  private getSignature(change: IFileChange): string {
+    return `${change.status}:${change.linesAdded}:${change.linesDeleted}`;
+  }
+}
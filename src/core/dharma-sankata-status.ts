@@ -0,0 +1,119 @@
+/**
+ * Dharma Sankata Status Module
+ *
+ * Surfaces drift alerts raised in the background as their severity calls for: critical
+ * alerts are notified, warnings are counted in a status bar badge until the user checks
+ * in, and informational findings are only recorded.
+ * Maps to the Bhakti (reflection) pillar - drawing attention to drift without nagging.
+ *
+ * Features:
+ * - Notifications for critical alerts
+ * - Status bar badge counting unseen warnings and critical alerts
+ * - Tooltip listing the latest alert's findings
+ */
+
+import * as vscode from 'vscode';
+import { getAlertAction } from './dharma-sankata';
+import { ICoreEvent, IDharmaSankata } from './types';
+
+/**
+ * Shows drift alerts by severity
+ */
+export class DharmaSankataStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private unseen: IDharmaSankata[] = [];
+  private notificationsMuted = false;
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * Creates a new DharmaSankataStatusBar instance
+   * @param eventEmitter Event emitter for core events
+   */
+  constructor(eventEmitter: vscode.EventEmitter<ICoreEvent>) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
+    this.item.command = 'tridishti.checkDharma';
+
+    this.disposables.push(
+      eventEmitter.event(event => {
+        if (event.type === 'dharma_alert') {
+          this.show(event.data as IDharmaSankata);
+        } else if (event.type === 'yatra_start' || event.type === 'yatra_end') {
+          this.clear();
+        }
+      })
+    );
+    this.update();
+  }
+
+  /**
+   * Notifies or badges an alert as its severity calls for
+   * @param sankata Alert
+   */
+  public show(sankata: IDharmaSankata): void {
+    const action = getAlertAction(sankata);
+    if (action === 'silent') {
+      return;
+    }
+
+    if (action === 'notify' && !this.notificationsMuted) {
+      vscode.window.showWarningMessage(`Dharma Sankata: ${sankata.suggestion}`);
+    }
+    this.unseen.push(sankata);
+    this.update();
+  }
+
+  /**
+   * Runs a check the user asked for without notifying its alerts, as they see its result
+   * anyway
+   * @param check Check to run
+   * @returns The check's result
+   */
+  public async withoutNotifications<T>(check: () => Promise<T>): Promise<T> {
+    this.notificationsMuted = true;
+    try {
+      return await check();
+    } finally {
+      this.notificationsMuted = false;
+    }
+  }
+
+  /**
+   * Clears the badge once the user has looked at the drift
+   */
+  public clear(): void {
+    this.unseen = [];
+    this.update();
+  }
+
+  /**
+   * Removes the status bar item
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.item.dispose();
+  }
+
+  /**
+   * Redraws the badge, hiding it when there is nothing unseen
+   */
+  private update(): void {
+    const latest = this.unseen[this.unseen.length - 1];
+    if (!latest) {
+      this.item.hide();
+      return;
+    }
+
+    this.item.text = `$(warning) ${this.unseen.length}`;
+    this.item.backgroundColor = this.unseen.some(sankata => sankata.severity === 'critical')
+      ? new vscode.ThemeColor('statusBarItem.warningBackground')
+      : undefined;
+    this.item.tooltip = [
+      `Dharma Sankata: ${this.unseen.length} unseen alert(s). Latest:`,
+      ...(latest.findings || []).map(
+        finding => `${finding.severity}: ${finding.reason} - ${finding.evidence.join('; ')}`
+      ),
+    ].join('\n');
+    this.item.show();
+  }
+}
@@ -6,13 +6,31 @@
  *
  * Features:
  * - File change threshold detection
- * - Goal alignment checking
- * - Time anomaly detection
- * - Scope drift alerts with suggestions
+ * - Goal alignment scored offline from file contents, symbols, changed lines and imports
+ * - Module dependency graph, so the modules the goal's files depend on stay in scope
+ * - Focus area learned from the start of a yatra, with alerts for work outside it
+ * - Time anomalies measured from edit and editor switch events as they happen
+ * - Alerts listing every check that found drift, each with evidence, severity and a suggestion
+ * - Separate checks per root in multi-root workspaces
  */
 
+import { promises as fs } from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { IDharmaSankata, ICoreEvent } from './types';
+import { ChangeTracker } from './change-tracker';
+import { buildFocusArea, extendFocusArea, IFocusArea, isInFocus } from './focus-area';
+import { IRelevanceDocument, scoreGoalRelevance } from './goal-relevance';
+import { diffLineBlocks } from './line-diff';
+import {
+  buildModuleGraph,
+  describeModuleCluster,
+  getDependencies,
+  getModuleClusters,
+  IModuleGraph,
+} from './module-graph';
+import { ITimeAnomaly, TimeAnomalyDetector } from './time-anomaly';
+import { DharmaSankataSeverity, IDharmaSankata, IDharmaSankataFinding, ICoreEvent } from './types';
+import { partitionByWorkspaceFolder } from './workspace-folders';
 
 /**
  * Configuration for dharma sankata detection
@@ -22,6 +40,68 @@ export interface IDharmaSankataConfig {
   fileChangeThreshold: number;
   enabled: boolean;
   currentGoal?: string;
+  focusBaselineWindow?: number; // seconds of a yatra its focus area is learned from
+  focusBaselineCheckpoints?: number; // or this many checkpoints, whichever comes first
+}
+
+/**
+ * Changed files as read by a scope check, reused while the change set stays the same
+ */
+interface IChangedFilesReading {
+  key: string; // Identifies the change set and whether contents were read
+  files: string[];
+  documents: IRelevanceDocument[];
+  graph: IModuleGraph;
+}
+
+/**
+ * Most changed files read for goal relevance and the focus area; the rest are known by path only
+ */
+const MAX_READ_FILES = 100;
+
+/**
+ * Changes in files whose relevance falls below this share count as a goal mismatch
+ */
+const MIN_GOAL_ALIGNMENT = 0.5;
+
+/**
+ * Drift this far past the limits is critical: changes in more than this many times the
+ * file threshold, or files whose relevance falls below this share
+ */
+const CRITICAL_THRESHOLD_FACTOR = 2;
+const CRITICAL_GOAL_ALIGNMENT = 0.25;
+
+/**
+ * Severities from least to most serious
+ */
+const SEVERITIES: DharmaSankataSeverity[] = ['info', 'warn', 'critical'];
+
+/**
+ * Combines the severities of findings made together: the most serious of them, raised to
+ * critical when several checks warn at once
+ * @param findings Findings of one check
+ * @returns Aggregate severity, or undefined without findings
+ */
+export function getAggregateSeverity(
+  findings: IDharmaSankataFinding[]
+): DharmaSankataSeverity | undefined {
+  if (findings.filter(finding => finding.severity !== 'info').length > 1) {
+    return 'critical';
+  }
+  const ranks = findings.map(finding => SEVERITIES.indexOf(finding.severity));
+  return findings.length > 0 ? SEVERITIES[Math.max(...ranks)] : undefined;
+}
+
+/**
+ * Decides how an alert is brought to the user's attention
+ * @param sankata Alert
+ * @returns 'notify' for critical alerts, 'badge' for warnings, 'silent' otherwise
+ */
+export function getAlertAction(sankata: IDharmaSankata): 'notify' | 'badge' | 'silent' {
+  if (sankata.severity === 'critical') {
+    return 'notify';
+  }
+  return sankata.severity === 'warn' ? 'badge' : 'silent';
 }
 
 /**
@@ -32,93 +112,116 @@ export class DharmaSankata {
   private intervalId?: NodeJS.Timeout;
   private alerts: IDharmaSankata[] = [];
   private eventEmitter: vscode.EventEmitter<ICoreEvent>;
-  private fileChangeHistory: Map<string, number> = new Map();
+  private changeTracker?: ChangeTracker;
+  private startedAt?: number;
+  private checkpointCount = 0;
+  private focusArea?: IFocusArea;
+  private reportedOutsideFocus: Set<string> = new Set();
+  private raisedFindings: Map<string, string> = new Map(); // Root to the findings last raised
+  private lastReading?: IChangedFilesReading;
+  private timeAnomalyDetector: TimeAnomalyDetector;
 
   /**
    * Creates a new DharmaSankata instance
    * @param config Configuration for scope drift detection
    * @param eventEmitter Event emitter for core events
+   * @param changeTracker Optional shared tracker providing the yatra's full change set
    */
-  constructor(config: IDharmaSankataConfig, eventEmitter: vscode.EventEmitter<ICoreEvent>) {
+  constructor(
+    config: IDharmaSankataConfig,
+    eventEmitter: vscode.EventEmitter<ICoreEvent>,
+    changeTracker?: ChangeTracker
+  ) {
     this.config = config;
     this.eventEmitter = eventEmitter;
+    this.changeTracker = changeTracker;
+    this.timeAnomalyDetector = new TimeAnomalyDetector(anomaly => this.reportTimeAnomaly(anomaly));
+
+    eventEmitter.event(event => {
+      if (event.type === 'checkpoint') {
+        this.checkpointCount++;
+      } else if (event.type === 'yatra_paused') {
+        // Time away is not a stall
+        this.timeAnomalyDetector.stop();
+      } else if (event.type === 'yatra_resumed' && this.intervalId) {
+        this.timeAnomalyDetector.start();
+      }
+    });
   }
 
   /**
-   * Starts the scope check interval timer
+   * Starts the scope check interval timer and time anomaly detection, and begins learning
+   * a new focus area
    */
   public start(): void {
     if (!this.config.enabled || this.intervalId) {
       return;
     }
 
+    this.startedAt = Date.now();
+    this.checkpointCount = 0;
+    this.focusArea = undefined;
+    this.reportedOutsideFocus.clear();
+    this.raisedFindings.clear();
+    this.lastReading = undefined;
+
     this.intervalId = setInterval(() => {
-      this.checkScope();
+      this.checkScope().catch(error => {
+        console.warn('Failed to check scope:', error);
+      });
     }, this.config.scopeCheckInterval * 1000);
+    this.timeAnomalyDetector.start();
   }
 
   /**
-   * Stops the scope check interval timer
+   * Stops the scope check interval timer and time anomaly detection
    */
   public stop(): void {
     if (this.intervalId) {
       clearInterval(this.intervalId);
       this.intervalId = undefined;
     }
+    this.timeAnomalyDetector.stop();
   }
 
   /**
-   * Checks for scope drift and creates alerts if detected
-   * @returns Dharma sankata detection result
+   * Checks for scope drift and creates alerts if detected.
+   * In multi-root workspaces each root is checked on its own and may raise its own alert.
+   * @returns The first drift detected, or the overall result when there is none
    */
   public async checkScope(): Promise<IDharmaSankata> {
-    const filesChanged = await this.getChangedFiles();
-    const filesCount = filesChanged.length;
+    const { files: filesChanged, documents, graph } = await this.readChangedFiles();
+    const partitions = partitionByWorkspaceFolder(filesChanged);
 
-    const sankata: IDharmaSankata = {
-      detected: false,
-      timestamp: Date.now(),
-      reason: 'file_threshold',
-      details: {
-        filesChanged: filesCount,
-        threshold: this.config.fileChangeThreshold,
-        currentGoal: this.config.currentGoal,
-      },
-    };
-
-    // Check file threshold
-    if (filesCount > this.config.fileChangeThreshold) {
-      sankata.detected = true;
-      sankata.reason = 'file_threshold';
-      sankata.suggestion = `You've modified ${filesCount} files, which exceeds the threshold of ${this.config.fileChangeThreshold}. Consider breaking this into smaller, focused changes.`;
+    // The focus area is learned from the work done when the baseline period ends
+    if (!this.focusArea && documents.length > 0 && this.isFocusBaselineDue()) {
+      this.focusArea = buildFocusArea(documents);
     }
 
-    // Check for goal mismatch (if goal is set)
-    if (this.config.currentGoal && this.detectGoalMismatch(filesChanged)) {
-      sankata.detected = true;
-      sankata.reason = 'goal_mismatch';
-      sankata.details.detectedGoal = this.inferGoalFromFiles(filesChanged);
-      sankata.suggestion = `Your current work seems to diverge from your stated goal: "${this.config.currentGoal}". Consider realigning or updating your goal.`;
+    if (partitions.size <= 1) {
+      return this.checkFiles(documents, graph, partitions.keys().next().value);
     }
 
-    // Check for time anomaly (rapid file changes)
-    if (this.detectTimeAnomaly(filesChanged)) {
-      sankata.detected = true;
-      sankata.reason = 'time_anomaly';
-      sankata.suggestion =
-        'Rapid file changes detected. This might indicate context switching or scope creep. Consider taking a moment to refocus.';
-    }
-
-    if (sankata.detected) {
-      this.alerts.push(sankata);
-      this.eventEmitter.fire({
-        type: 'dharma_alert',
+    const results = Array.from(partitions).map(([workspaceFolder, files]) =>
+      this.checkFiles(
+        documents.filter(doc => files.includes(doc.path)),
+        graph,
+        workspaceFolder
+      )
+    );
+
+    return (
+      results.find(result => result.detected) || {
+        detected: false,
         timestamp: Date.now(),
-        data: sankata,
-      });
-    }
-
-    return sankata;
+        reason: 'file_threshold',
+        details: {
+          filesChanged: filesChanged.length,
+          threshold: this.config.fileChangeThreshold,
+          currentGoal: this.config.currentGoal,
+        },
+      }
+    );
   }
 
   /**
@@ -129,6 +232,42 @@ export class DharmaSankata {
     this.config.currentGoal = goal;
   }
 
+  /**
+   * Gets the focus area learned from the start of the yatra
+   * @returns Focus area, or undefined while it is still being learned
+   */
+  public getFocusArea(): IFocusArea | undefined {
+    return this.focusArea;
+  }
+
+  /**
+   * Gets the changed files outside the focus area
+   * @returns File paths; empty while the focus area is still being learned
+   */
+  public async getWorkOutsideFocus(): Promise<string[]> {
+    const focusArea = this.focusArea;
+    if (!focusArea) {
+      return [];
+    }
+
+    const { documents, graph } = await this.readChangedFiles();
+    return this.getOutsideFocus(focusArea, documents, graph);
+  }
+
+  /**
+   * Accepts work into the focus area, so it no longer counts as drift
+   * @param files Changed files to accept
+   * @throws When the focus area is still being learned
+   */
+  public async acceptIntoFocus(files: string[]): Promise<void> {
+    if (!this.focusArea) {
+      throw new Error('The focus area is still being learned');
+    }
+
+    const documents = await Promise.all(files.map(file => this.readDocument(file)));
+    this.focusArea = extendFocusArea(this.focusArea, documents);
+  }
+
   /**
    * Gets all dharma alerts
    * @returns Array of dharma sankata alerts
@@ -160,13 +299,244 @@ export class DharmaSankata {
   }
 
   /**
-   * Gets list of changed files from the workspace
-   * @returns Array of file paths
+   * Checks one set of changed files for scope drift, raising an alert if detected
+   * @param documents Changed files
+   * @param graph Dependency graph of the changed modules
+   * @param workspaceFolder Root the files belong to, in multi-root workspaces
+   * @returns Dharma sankata detection result
+   */
+  private checkFiles(
+    documents: IRelevanceDocument[],
+    graph: IModuleGraph,
+    workspaceFolder?: string
+  ): IDharmaSankata {
+    const filesChanged = documents.map(doc => doc.path);
+    const filesCount = filesChanged.length;
+    const scope = workspaceFolder ? ` in ${workspaceFolder}` : '';
+
+    const sankata: IDharmaSankata = {
+      detected: false,
+      timestamp: Date.now(),
+      reason: 'file_threshold',
+      details: {
+        filesChanged: filesCount,
+        threshold: this.config.fileChangeThreshold,
+        currentGoal: this.config.currentGoal,
+        ...(workspaceFolder ? { workspaceFolder } : {}),
+      },
+    };
+
+    const findings: IDharmaSankataFinding[] = [];
+
+    // Check file threshold
+    const threshold = this.config.fileChangeThreshold;
+    if (filesCount > threshold) {
+      findings.push({
+        reason: 'file_threshold',
+        severity: filesCount > threshold * CRITICAL_THRESHOLD_FACTOR ? 'critical' : 'warn',
+        evidence: [`${filesCount} files changed${scope}`, `Threshold: ${threshold}`],
+        suggestion: `You've modified ${filesCount} files${scope}, which exceeds the threshold of ${threshold}. Consider breaking this into smaller, focused changes.`,
+      });
+    }
+
+    // Check for goal mismatch (if goal is set)
+    const relevance =
+      this.config.currentGoal && filesCount > 0
+        ? scoreGoalRelevance(this.config.currentGoal, documents, graph)
+        : undefined;
+    if (relevance) {
+      sankata.details.goalRelevance = Math.round(relevance.alignment * 100) / 100;
+      sankata.details.topFiles = relevance.topFiles;
+      sankata.details.offTopicFiles = relevance.offTopicFiles;
+    }
+    if (relevance && relevance.alignment < MIN_GOAL_ALIGNMENT) {
+      const offTopic = relevance.offTopicFiles.map(file => path.basename(file)).join(', ');
+      const detectedGoal = this.inferGoalFromFiles(filesChanged, graph);
+      sankata.details.detectedGoal = detectedGoal;
+      findings.push({
+        reason: 'goal_mismatch',
+        severity: relevance.alignment < CRITICAL_GOAL_ALIGNMENT ? 'critical' : 'warn',
+        evidence: [
+          `Goal relevance: ${Math.round(relevance.alignment * 100)}%`,
+          `Least related: ${offTopic}`,
+          `Detected goal: ${detectedGoal}`,
+        ],
+        suggestion: `Your current work${scope} seems to diverge from your stated goal: "${this.config.currentGoal}". Least related: ${offTopic}. Consider realigning or updating your goal.`,
+      });
+    }
+
+    // Check for new work outside the focus area
+    const focusArea = this.focusArea;
+    if (focusArea) {
+      const outside = this.getOutsideFocus(focusArea, documents, graph);
+      sankata.details.focusArea = focusArea.directories;
+      sankata.details.outsideFocus = outside;
+
+      const newlyOutside = outside.filter(file => !this.reportedOutsideFocus.has(file));
+      if (newlyOutside.length > 0) {
+        const names = newlyOutside.map(file => path.basename(file)).join(', ');
+        newlyOutside.forEach(file => this.reportedOutsideFocus.add(file));
+        findings.push({
+          reason: 'focus_drift',
+          severity: 'warn',
+          evidence: [
+            `Outside the focus area: ${names}`,
+            `Focus area: ${focusArea.directories.map(dir => path.basename(dir)).join(', ')}`,
+          ],
+          suggestion: `New work${scope} in ${names} is outside the area this yatra started in. Accept it into scope if it serves the goal, or note it for later.`,
+        });
+      }
+    }
+
+    this.raiseAlert(sankata, findings, workspaceFolder || '');
+    return sankata;
+  }
+
+  /**
+   * Raises an alert for a time anomaly measured from edit and editor switch events
+   * @param anomaly Time anomaly
    */
-  private async getChangedFiles(): Promise<string[]> {
+  private reportTimeAnomaly(anomaly: ITimeAnomaly): void {
+    const count = anomaly.files.length;
+    const names = anomaly.files.map(file => path.basename(file)).join(', ');
+    const evidence = {
+      context_switching: [
+        `${anomaly.contextSwitchRate} context switches a minute`,
+        `Files: ${names}`,
+      ],
+      editor_hopping: [`${anomaly.editorSwitchRate} editor switches a minute`, `Files: ${names}`],
+      stall: [`${Math.round(anomaly.stallDuration / 60)} minutes without an edit`],
+    };
+    const suggestions = {
+      context_switching: `Switching between ${count} files ${anomaly.contextSwitchRate} times a minute. This might indicate context switching or scope creep. Consider finishing one change before starting the next.`,
+      editor_hopping: `Hopped between ${count} editors without editing, ${anomaly.editorSwitchRate} switches a minute. Searching for something? Consider noting what you are looking for before reading on.`,
+      stall: `No edits for ${Math.round(anomaly.stallDuration / 60)} minutes. If you're stuck, consider noting the blocker or breaking the problem into a smaller step.`,
+    };
+
+    const sankata: IDharmaSankata = {
+      detected: false,
+      timestamp: Date.now(),
+      reason: 'time_anomaly',
+      details: {
+        filesChanged: count,
+        threshold: this.config.fileChangeThreshold,
+        currentGoal: this.config.currentGoal,
+        timeAnomaly: anomaly.kind,
+        contextSwitchRate: anomaly.contextSwitchRate,
+        editorSwitchRate: anomaly.editorSwitchRate,
+        stallDuration: anomaly.stallDuration,
+        anomalyFiles: anomaly.files,
+      },
+    };
+
+    this.raiseAlert(sankata, [
+      {
+        reason: 'time_anomaly',
+        // Rapid switching between edits scatters work; hopping and stalls may be reading
+        severity: anomaly.kind === 'context_switching' ? 'warn' : 'info',
+        evidence: evidence[anomaly.kind],
+        suggestion: suggestions[anomaly.kind],
+      },
+    ]);
+  }
+
+  /**
+   * Records a check's findings on its result, then records the alert and notifies
+   * listeners when there are any. The most severe finding gives the alert its reason and
+   * suggestion.
+   * @param sankata Check result
+   * @param findings Checks that found drift, in the order they ran
+   * @param root For periodic checks, the root checked; the alert is only recorded when its
+   * findings differ from the last ones raised for the root, as the change set only grows
+   */
+  private raiseAlert(
+    sankata: IDharmaSankata,
+    findings: IDharmaSankataFinding[],
+    root?: string
+  ): void {
+    sankata.findings = findings;
+    const [primary] = [...findings].sort(
+      (a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity)
+    );
+    if (primary) {
+      sankata.detected = true;
+      sankata.reason = primary.reason;
+      sankata.suggestion = primary.suggestion;
+      sankata.severity = getAggregateSeverity(findings);
+    }
+
+    if (root !== undefined) {
+      // Focus drift is only found for new files, so each finding is new drift
+      const key = findings
+        .map(finding =>
+          [
+            finding.reason,
+            finding.severity,
+            ...(finding.reason === 'focus_drift' ? finding.evidence : []),
+          ].join(':')
+        )
+        .join(',');
+      const repeated = this.raisedFindings.get(root) === key;
+      this.raisedFindings.set(root, key);
+      if (repeated) {
+        return;
+      }
+    }
+
+    if (!primary) {
+      return;
+    }
+
+    this.alerts.push(sankata);
+    this.eventEmitter.fire({
+      type: 'dharma_alert',
+      timestamp: Date.now(),
+      data: sankata,
+    });
+  }
+
+  /**
+   * Reads the changed files and builds their module graph, reusing the previous check's
+   * reading while the change set is unchanged, so periodic checks of idle work stay cheap
+   * @returns Changed files, their documents and module graph
+   */
+  private async readChangedFiles(): Promise<IChangedFilesReading> {
+    const { files, key } = await this.getChangedFiles();
+    const readingKey = `${this.needsContents()}|${key}`;
+    if (this.lastReading?.key === readingKey) {
+      return this.lastReading;
+    }
+
+    const documents = await this.readDocuments(files);
+    const graph = await this.buildGraph(documents);
+    this.lastReading = { key: readingKey, files, documents, graph };
+    return this.lastReading;
+  }
+
+  /**
+   * Gets list of changed files from the workspace.
+   * Uses the yatra's change set when a tracker is active, otherwise dirty editor buffers.
+   * @returns File paths, and a key that changes with the change set; edits that leave the
+   * files and their line counts as they were keep it, so typing does not force a re-read
+   */
+  private async getChangedFiles(): Promise<{ files: string[]; key: string }> {
+    if (this.changeTracker?.isTracking()) {
+      const changes = await this.changeTracker.getChangeSet();
+      return {
+        files: changes.map(change => change.path),
+        key: changes
+          .map(change =>
+            [change.path, change.status, change.linesAdded, change.linesDeleted, change.dirty].join(
+              ':'
+            )
+          )
+          .join(','),
+      };
+    }
+
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders || workspaceFolders.length === 0) {
-      return [];
+      return { files: [], key: '' };
     }
 
     const files: string[] = [];
@@ -178,68 +548,149 @@ export class DharmaSankata {
       }
     }
 
-    return files;
+    return { files, key: files.join(',') };
   }
 
   /**
-   * Detects if current files indicate a goal mismatch
-   * @param files Array of file paths
-   * @returns True if goal mismatch is detected
+   * Checks whether the focus area's baseline period is over
+   * @returns True once the baseline window has passed or enough checkpoints were made
    */
-  private detectGoalMismatch(files: string[]): boolean {
-    if (!this.config.currentGoal) {
+  private isFocusBaselineDue(): boolean {
+    const { focusBaselineWindow, focusBaselineCheckpoints } = this.config;
+    if (this.startedAt === undefined) {
       return false;
     }
 
-    // Simple heuristic: check if file paths contain keywords that don't match the goal
-    const goalKeywords = this.config.currentGoal.toLowerCase().split(/\s+/);
-    const mismatchedFiles = files.filter(file => {
-      const fileName = file.toLowerCase();
-      return !goalKeywords.some(keyword => fileName.includes(keyword));
-    });
+    return (
+      (!!focusBaselineWindow && Date.now() - this.startedAt >= focusBaselineWindow * 1000) ||
+      (!!focusBaselineCheckpoints && this.checkpointCount >= focusBaselineCheckpoints)
+    );
+  }
 
-    // If more than 50% of files don't match goal keywords, consider it a mismatch
-    return mismatchedFiles.length > files.length * 0.5;
+  /**
+   * Gets the changed files outside the focus area that no file inside it depends on
+   * @param focusArea Focus area
+   * @param documents Changed files
+   * @param graph Dependency graph of the changed modules
+   * @returns File paths
+   */
+  private getOutsideFocus(
+    focusArea: IFocusArea,
+    documents: IRelevanceDocument[],
+    graph: IModuleGraph
+  ): string[] {
+    const inside = documents.filter(doc => isInFocus(focusArea, doc)).map(doc => doc.path);
+    const dependencies = getDependencies(graph, inside);
+    return documents
+      .map(doc => doc.path)
+      .filter(file => !inside.includes(file) && !dependencies.has(file));
   }
 
   /**
-   * Infers a goal from file paths
+   * Checks whether goal relevance or the focus area needs the changed files' contents
+   * @returns True with a goal, or while a focus area is learned or tracked
+   */
+  private needsContents(): boolean {
+    return (
+      !!this.config.currentGoal ||
+      (this.startedAt !== undefined &&
+        (!!this.config.focusBaselineWindow || !!this.config.focusBaselineCheckpoints))
+    );
+  }
+
+  /**
+   * Reads the changed files when their contents are needed
    * @param files Array of file paths
-   * @returns Inferred goal string
+   * @returns Documents; path only when the contents are not needed or beyond the limit
    */
-  private inferGoalFromFiles(files: string[]): string {
-    const commonPaths = files.map(f => {
-      const parts = f.split(/[/\\]/);
-      return parts[parts.length - 2] || parts[parts.length - 1] || '';
-    });
+  private async readDocuments(files: string[]): Promise<IRelevanceDocument[]> {
+    const needed = this.needsContents();
+    return Promise.all(
+      files.map((file, i) =>
+        needed && i < MAX_READ_FILES ? this.readDocument(file) : { path: file }
+      )
+    );
+  }
 
-    const pathCounts = new Map<string, number>();
-    for (const path of commonPaths) {
-      pathCounts.set(path, (pathCounts.get(path) || 0) + 1);
+  /**
+   * Builds the dependency graph of the changed modules, following their imports
+   * @param documents Changed files
+   * @returns Module graph; empty when file contents are not needed
+   */
+  private async buildGraph(documents: IRelevanceDocument[]): Promise<IModuleGraph> {
+    if (!this.needsContents()) {
+      return { imports: new Map() };
     }
 
-    const sorted = Array.from(pathCounts.entries()).sort((a, b) => b[1] - a[1]);
-    return sorted[0]?.[0] || 'unknown';
+    const known = new Map(documents.map(doc => [doc.path, doc.content]));
+    return buildModuleGraph(
+      documents.map(doc => doc.path),
+      async file => known.get(file) ?? this.readContent(file)
+    );
+  }
+
+  /**
+   * Reads a changed file's current contents, including unsaved edits, and the lines
+   * changed since its last commit
+   * @param filePath Absolute file path
+   * @returns Document; path only when the file cannot be read
+   */
+  private async readDocument(filePath: string): Promise<IRelevanceDocument> {
+    const content = await this.readContent(filePath);
+    if (content === undefined) {
+      return { path: filePath };
+    }
+
+    const base = await this.changeTracker?.getBaseContent(filePath);
+    const changedLines =
+      base === undefined
+        ? undefined
+        : diffLineBlocks(base, content).flatMap(block => [...block.inserted, ...block.deleted]);
+
+    return { path: filePath, content, changedLines };
   }
 
   /**
-   * Detects time anomalies (rapid file changes)
+   * Reads a file's current contents, including unsaved edits
+   * @param filePath Absolute file path
+   * @returns Contents, or undefined when the file cannot be read
+   */
+  private async readContent(filePath: string): Promise<string | undefined> {
+    try {
+      const open = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+      return open ? open.getText() : await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Infers a goal from the largest cluster of changed modules depending on one another,
+   * or from the most common directory when no changed modules are linked
    * @param files Array of file paths
-   * @returns True if time anomaly is detected
+   * @param graph Dependency graph of the changed modules
+   * @returns Inferred goal string
    */
-  private detectTimeAnomaly(files: string[]): boolean {
-    const now = Date.now();
-    const recentChanges = files.filter(file => {
-      const lastChange = this.fileChangeHistory.get(file);
-      return lastChange && now - lastChange < 5000; // Changed within last 5 seconds
+  private inferGoalFromFiles(files: string[], graph: IModuleGraph): string {
+    const [cluster] = getModuleClusters(
+      graph,
+      files.filter(file => graph.imports.has(file))
+    );
+    if (cluster && cluster.length > 1) {
+      return describeModuleCluster(cluster);
+    }
+
+    const commonPaths = files.map(f => {
+      const parts = f.split(/[/\\]/);
+      return parts[parts.length - 2] || parts[parts.length - 1] || '';
     });
 
-    // Update history
-    for (const file of files) {
-      this.fileChangeHistory.set(file, now);
+    const pathCounts = new Map<string, number>();
+    for (const dir of commonPaths) {
+      pathCounts.set(dir, (pathCounts.get(dir) || 0) + 1);
     }
 
-    // If more than 5 files changed rapidly, it's an anomaly
-    return recentChanges.length > 5;
+    const sorted = Array.from(pathCounts.entries()).sort((a, b) => b[1] - a[1]);
+    return sorted[0]?.[0] || 'unknown';
   }
 }
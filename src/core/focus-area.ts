@@ -0,0 +1,97 @@
+/**
+ * Focus Area Module
+ *
+ * Describes what a yatra set out to work on, learned from its first minutes or first
+ * checkpoints: the directories the work was in and the symbols it touched. Later work is
+ * in focus when it stays in those directories or changes code using those symbols.
+ * Maps to the Bhakti (reflection) pillar - noticing when attention wanders.
+ *
+ * Features:
+ * - Focus area built from the changed files' directories and symbols
+ * - Work elsewhere recognised as in focus when it uses the focus symbols
+ * - Areas extended when the user accepts new work into scope
+ */
+
+import * as path from 'path';
+import { IRelevanceDocument } from './goal-relevance';
+import { declarations } from './sutra-summarizer';
+import { isWithin } from './workspace-folders';
+
+/**
+ * The directories and symbols a yatra's work is focused on
+ */
+export interface IFocusArea {
+  directories: string[]; // Absolute paths
+  symbols: string[]; // Declared in the focus work's changes
+  establishedAt: number;
+}
+
+/**
+ * Identifiers shorter than this are too common to tie work to the focus area
+ */
+const MIN_SYMBOL_LENGTH = 4;
+
+/**
+ * Builds a focus area from the work done so far
+ * @param documents Changed files
+ * @returns Focus area
+ */
+export function buildFocusArea(documents: IRelevanceDocument[]): IFocusArea {
+  return extendFocusArea({ directories: [], symbols: [], establishedAt: Date.now() }, documents);
+}
+
+/**
+ * Adds work to a focus area
+ * @param area Focus area
+ * @param documents Changed files to accept into it
+ * @returns Extended focus area
+ */
+export function extendFocusArea(area: IFocusArea, documents: IRelevanceDocument[]): IFocusArea {
+  const directories = new Set(area.directories);
+  const symbols = new Set(area.symbols);
+
+  for (const doc of documents) {
+    directories.add(path.dirname(doc.path));
+    for (const symbol of declarations(getChangedLines(doc))) {
+      if (symbol.length >= MIN_SYMBOL_LENGTH) {
+        symbols.add(symbol);
+      }
+    }
+  }
+
+  // A directory inside another focus directory adds nothing
+  const sorted = Array.from(directories).sort((a, b) => a.length - b.length);
+  return {
+    ...area,
+    directories: sorted.filter((dir, i) => !sorted.slice(0, i).some(outer => isWithin(dir, outer))),
+    symbols: Array.from(symbols),
+  };
+}
+
+/**
+ * Checks whether a changed file is within a focus area
+ * @param area Focus area
+ * @param doc Changed file
+ * @returns True if it is in a focus directory or its changes use a focus symbol
+ */
+export function isInFocus(area: IFocusArea, doc: IRelevanceDocument): boolean {
+  if (area.directories.some(dir => isWithin(doc.path, dir))) {
+    return true;
+  }
+
+  const symbols = new Set(area.symbols);
+  const identifiers =
+    getChangedLines(doc)
+      .join('\n')
+      .match(/[A-Za-z_$][\w$]*/g) || [];
+  return identifiers.some(identifier => symbols.has(identifier));
+}
+
+/**
+ * Gets the lines a file's changes consist of
+ * @param doc Changed file
+ * @returns Changed lines, or the whole contents when the changes are unknown
+ */
+function getChangedLines(doc: IRelevanceDocument): string[] {
+  return doc.changedLines || (doc.content || '').split('\n');
+}
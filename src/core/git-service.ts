@@ -0,0 +1,311 @@
+/**
+ * Git Service Module
+ *
+ * Single entry point for every git operation the extension performs (Sutra commits,
+ * Karma Phala tags, change tracking). Commands are run asynchronously with argument
+ * arrays - never through a shell - in the repository that owns the files involved.
+ *
+ * Features:
+ * - Async execution without blocking the extension host
+ * - Repository resolution per workspace folder, including multi-root and submodules
+ * - Typed errors instead of silently swallowed failures
+ * - Injectable command runner for tests
+ */
+
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Runs a git command in the given directory and resolves with its stdout
+ */
+export type GitCommandRunner = (args: string[], cwd: string) => Promise<string>;
+
+/**
+ * Categories of git failures callers may want to handle differently
+ */
+export type GitErrorCode =
+  | 'git_not_found'
+  | 'not_a_repository'
+  | 'nothing_to_commit'
+  | 'command_failed';
+
+/**
+ * Error raised when a git operation fails
+ */
+export class GitError extends Error {
+  public readonly code: GitErrorCode;
+  public readonly args: string[];
+  public readonly cwd: string;
+  public readonly stderr?: string;
+
+  /**
+   * Creates a new GitError
+   * @param code Failure category
+   * @param message Human readable description
+   * @param args Git arguments that failed
+   * @param cwd Directory the command ran in
+   * @param stderr Captured standard error output
+   */
+  constructor(code: GitErrorCode, message: string, args: string[], cwd: string, stderr?: string) {
+    super(message);
+    this.name = 'GitError';
+    this.code = code;
+    this.args = args;
+    this.cwd = cwd;
+    this.stderr = stderr;
+  }
+}
+
+/**
+ * Default git runner using argument arrays (no shell)
+ */
+export const runGitCommand: GitCommandRunner = (args, cwd) =>
+  new Promise((resolve, reject) => {
+    try {
+      execFile(
+        'git',
+        args,
+        { cwd, encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 },
+        (error, stdout, stderr) =>
+          error ? reject(toGitError(error, `${stdout}\n${stderr}`, args, cwd)) : resolve(stdout)
+      );
+    } catch (error) {
+      // Spawning itself failed (e.g. invalid options)
+      reject(new GitError('command_failed', `git ${args[0]} failed: ${error}`, args, cwd));
+    }
+  });
+
+/**
+ * Classifies a failed git process
+ * @param error Process error
+ * @param output Combined stdout and stderr
+ * @param args Git arguments
+ * @param cwd Directory the command ran in
+ * @returns Typed git error
+ */
+function toGitError(error: Error, output: string, args: string[], cwd: string): GitError {
+  const stderr = output.trim();
+
+  if (!existsSync(cwd)) {
+    return new GitError('command_failed', `Directory ${cwd} does not exist`, args, cwd);
+  }
+  if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+    return new GitError('git_not_found', 'Git executable not found', args, cwd, stderr);
+  }
+  if (/not a git repository/i.test(output)) {
+    return new GitError('not_a_repository', `${cwd} is not in a git repository`, args, cwd, stderr);
+  }
+  if (/nothing (added )?to commit|no changes added to commit/i.test(output)) {
+    return new GitError('nothing_to_commit', 'Nothing to commit', args, cwd, stderr);
+  }
+
+  const detail = stderr || error.message;
+  return new GitError('command_failed', `git ${args[0]} failed: ${detail}`, args, cwd, stderr);
+}
+
+/**
+ * Performs git operations for the extension
+ */
+export class GitService {
+  private runGit: GitCommandRunner;
+
+  /**
+   * Creates a new GitService instance
+   * @param runGit Git command runner (injectable for tests)
+   */
+  constructor(runGit: GitCommandRunner = runGitCommand) {
+    this.runGit = runGit;
+  }
+
+  /**
+   * Finds the root of the repository containing a directory.
+   * Inside a submodule this is the submodule's own root.
+   * @param directory Absolute directory path
+   * @returns Repository root
+   */
+  public async getRepositoryRoot(directory: string): Promise<string> {
+    return (await this.runGit(['rev-parse', '--show-toplevel'], directory)).trim();
+  }
+
+  /**
+   * Resolves the repository that owns a file, or the repository of the active
+   * editor's workspace folder (falling back to the first folder) when no file is given
+   * @param filePath Optional absolute file path
+   * @returns Repository root
+   */
+  public async resolveRepository(filePath?: string): Promise<string> {
+    if (filePath) {
+      return this.getRepositoryRoot(path.dirname(filePath));
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const folder =
+      (activeUri && vscode.workspace.getWorkspaceFolder(activeUri)) ||
+      vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      throw new GitError('not_a_repository', 'No workspace folder is open', [], '');
+    }
+
+    return this.getRepositoryRoot(folder.uri.fsPath);
+  }
+
+  /**
+   * Groups files by the repository that owns them; files outside any repository are dropped
+   * @param filePaths Absolute file paths
+   * @returns Map of repository root to the files it owns
+   */
+  public async groupByRepository(filePaths: string[]): Promise<Map<string, string[]>> {
+    const groups = new Map<string, string[]>();
+    const rootsByDirectory = new Map<string, string | undefined>();
+
+    for (const filePath of filePaths) {
+      const directory = path.dirname(filePath);
+      if (!rootsByDirectory.has(directory)) {
+        rootsByDirectory.set(
+          directory,
+          await this.getRepositoryRoot(directory).catch(() => undefined)
+        );
+      }
+
+      const root = rootsByDirectory.get(directory);
+      if (root) {
+        groups.set(root, [...(groups.get(root) || []), filePath]);
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Commits all tracked changes in a repository
+   * @param root Repository root
+   * @param message Commit message
+   * @returns Abbreviated hash of the new commit
+   */
+  public async commitAll(root: string, message: string): Promise<string> {
+    await this.runGit(['commit', '--all', '--message', message], root);
+    return (await this.runGit(['rev-parse', '--short', 'HEAD'], root)).trim();
+  }
+
+  /**
+   * Gets the commit HEAD points to
+   * @param root Repository root
+   * @returns Full commit hash
+   */
+  public async getHead(root: string): Promise<string> {
+    return (await this.runGit(['rev-parse', '--verify', 'HEAD'], root)).trim();
+  }
+
+  /**
+   * Resolves a ref to a commit, if it exists
+   * @param root Repository root
+   * @param ref Full ref name
+   * @returns Commit hash, or undefined if the ref does not exist
+   */
+  public async resolveRef(root: string, ref: string): Promise<string | undefined> {
+    try {
+      return (
+        await this.runGit(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], root)
+      ).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Records the working tree's tracked files as a commit on a ref, leaving HEAD,
+   * the index and the working tree untouched. Successive commits to the same ref
+   * form a chain starting at the HEAD the first one was made from.
+   * @param root Repository root
+   * @param ref Full ref name (e.g. refs/tridishti/<id> or refs/heads/<branch>)
+   * @param message Commit message
+   * @returns The new commit and its parent
+   */
+  public async commitToRef(
+    root: string,
+    ref: string,
+    message: string
+  ): Promise<{ hash: string; parent: string }> {
+    const parent = (await this.resolveRef(root, ref)) || (await this.getHead(root));
+
+    // stash create builds a commit of the working tree without modifying anything
+    const stash = (await this.runGit(['stash', 'create'], root)).trim();
+    const tree = (await this.runGit(['rev-parse', `${stash || 'HEAD'}^{tree}`], root)).trim();
+    const parentTree = (await this.runGit(['rev-parse', `${parent}^{tree}`], root)).trim();
+    if (tree === parentTree) {
+      throw new GitError('nothing_to_commit', 'Nothing to commit', ['commit-tree'], root);
+    }
+
+    const hash = (
+      await this.runGit(['commit-tree', tree, '-p', parent, '-m', message], root)
+    ).trim();
+    await this.runGit(['update-ref', '-m', message, ref, hash], root);
+
+    return { hash, parent };
+  }
+
+  /**
+   * Deletes a ref
+   * @param root Repository root
+   * @param ref Full ref name
+   */
+  public async deleteRef(root: string, ref: string): Promise<void> {
+    await this.runGit(['update-ref', '-d', ref], root);
+  }
+
+  /**
+   * Moves HEAD to a commit while keeping the index and working tree
+   * @param root Repository root
+   * @param commit Target commit
+   */
+  public async resetSoft(root: string, commit: string): Promise<void> {
+    await this.runGit(['reset', '--soft', commit], root);
+  }
+
+  /**
+   * Checks whether a commit is contained in another's history
+   * @param root Repository root
+   * @param ancestor Commit expected in the history
+   * @param descendant Commit whose history is searched, e.g. HEAD
+   * @returns True if ancestor is descendant or one of its ancestors; false also when
+   * either commit does not exist
+   */
+  public async isAncestor(root: string, ancestor: string, descendant: string): Promise<boolean> {
+    try {
+      await this.runGit(['merge-base', '--is-ancestor', ancestor, descendant], root);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Gets the branch HEAD is on
+   * @param root Repository root
+   * @returns Short branch name, or undefined when HEAD is detached
+   */
+  public async getCurrentBranch(root: string): Promise<string | undefined> {
+    try {
+      return (await this.runGit(['symbolic-ref', '--quiet', '--short', 'HEAD'], root)).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Creates a tag at HEAD: annotated when a message is given, lightweight otherwise
+   * @param root Repository root
+   * @param name Tag name
+   * @param message Tag annotation
+   * @returns The tag name
+   */
+  public async createTag(root: string, name: string, message?: string): Promise<string> {
+    await this.runGit(
+      message === undefined ? ['tag', name] : ['tag', '--annotate', name, '--message', message],
+      root
+    );
+    return name;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Goal Relevance Module
+ *
+ * Scores how well a change set matches the yatra's sankalpa with an offline BM25 model.
+ * Each changed file is described by its path, declared symbols, changed lines, contents
+ * and the modules it imports. Files share in the relevance of the changed files they
+ * import or are imported by, and the modules relevant files depend on are part of the
+ * work, so "fix login timeout" recognises session.ts as part of the work when login.ts
+ * imports it. Runs entirely locally.
+ * Maps to the Bhakti (reflection) pillar - measuring action against intention.
+ *
+ * Features:
+ * - Tokens split on camelCase and snake_case, with light stemming
+ * - Generic goal words ("fix", "add", "implement") ignored
+ * - Fields weighted so paths, symbols and changed lines count more than file contents
+ * - Top contributing and off-topic files
+ */
+
+import { getDependencies, IModuleGraph, linkModules, parseImports } from './module-graph';
+import { declarations } from './sutra-summarizer';
+
+/**
+ * A changed file to score
+ */
+export interface IRelevanceDocument {
+  path: string;
+  content?: string; // Undefined when the contents cannot be read
+  changedLines?: string[]; // Lines inserted or deleted since the last commit
+}
+
+/**
+ * How well one file matches the goal
+ */
+export interface IFileRelevance {
+  path: string;
+  score: number; // BM25 score; 0 when no goal term appears
+  terms: string[]; // Goal terms found in the file
+}
+
+/**
+ * How well a change set matches the goal
+ */
+export interface IGoalRelevance {
+  alignment: number; // 0-1, share of the files relevant to the goal
+  files: IFileRelevance[]; // Most relevant first
+  topFiles: string[]; // Files contributing most to the goal
+  offTopicFiles: string[]; // Files unrelated to the goal
+}
+
+/**
+ * BM25 term frequency saturation and length normalization
+ */
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * How often a token counts towards term frequency, by where it was found
+ */
+const FIELD_WEIGHTS = {
+  path: 3,
+  symbols: 2,
+  changes: 2,
+  imports: 1,
+  content: 1,
+};
+
+/**
+ * Share of an import neighbour's score a file receives when that is more than its own
+ */
+const NEIGHBOUR_WEIGHT = 0.5;
+
+/**
+ * Files scoring below this share of the best score count as off-topic
+ */
+const RELEVANCE_FLOOR = 0.4;
+
+/**
+ * Only the start of large files is read
+ */
+const MAX_CONTENT_LENGTH = 100000;
+
+const MAX_TOP_FILES = 3;
+const MAX_OFF_TOPIC_FILES = 5;
+
+/**
+ * Words that say nothing about what the work is about: English filler, verbs common to
+ * every goal and language keywords
+ */
+const STOP_WORDS = new Set(
+  [
+    'a an and are as at be by for from in into is it of on or so that the this to up with without',
+    'add adding bug change clean cleanup fix fixes fixing handle implement improve issue make new',
+    'refactor remove support update work',
+    'async await boolean case class const default else export extends false function if import',
+    'interface js jsx let null number private protected public readonly return src string true',
+    'ts tsx type undefined var void',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+/**
+ * Scores a change set against a goal. Changed files that relevant files depend on,
+ * directly or through other modules, are relevant too.
+ * @param goal Goal such as the yatra's sankalpa
+ * @param documents Changed files
+ * @param graph Module graph; defaults to the imports between the changed files
+ * @returns Relevance of the change set and each file; fully aligned when the goal has no
+ * meaningful words
+ */
+export function scoreGoalRelevance(
+  goal: string,
+  documents: IRelevanceDocument[],
+  graph: IModuleGraph = linkModules(documents)
+): IGoalRelevance {
+  const goalTerms = Array.from(new Set(tokenize(goal)));
+  if (goalTerms.length === 0 || documents.length === 0) {
+    return {
+      alignment: 1,
+      files: documents.map(doc => ({ path: doc.path, score: 0, terms: [] })),
+      topFiles: [],
+      offTopicFiles: [],
+    };
+  }
+
+  const frequencies = documents.map(doc => getTermFrequencies(doc));
+  const lengths = frequencies.map(tf => Array.from(tf.values()).reduce((sum, n) => sum + n, 0));
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / documents.length || 1;
+
+  const idf = new Map(
+    goalTerms.map(term => {
+      const containing = frequencies.filter(tf => tf.has(term)).length;
+      const n = documents.length;
+      return [term, Math.log(1 + (n - containing + 0.5) / (containing + 0.5))];
+    })
+  );
+
+  const direct = documents.map((doc, i) => {
+    let score = 0;
+    const terms: string[] = [];
+    for (const term of goalTerms) {
+      const tf = frequencies[i].get(term) || 0;
+      if (tf === 0) {
+        continue;
+      }
+      terms.push(term);
+      const norm = K1 * (1 - B + (B * lengths[i]) / averageLength);
+      score += (idf.get(term)! * (tf * (K1 + 1))) / (tf + norm);
+    }
+    return { path: doc.path, score, terms };
+  });
+
+  const files = direct
+    .map(file => {
+      const neighbours = direct.filter(
+        other =>
+          graph.imports.get(file.path)?.includes(other.path) ||
+          graph.imports.get(other.path)?.includes(file.path)
+      );
+      const score = Math.max(file.score, ...neighbours.map(n => n.score * NEIGHBOUR_WEIGHT));
+      return { ...file, score: Math.round(score * 100) / 100 };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const floor = (files[0]?.score || 0) * RELEVANCE_FLOOR;
+  const scored = files.filter(file => file.score > 0 && file.score >= floor).map(file => file.path);
+  const dependencies = getDependencies(graph, scored);
+  const relevant = files.filter(file => scored.includes(file.path) || dependencies.has(file.path));
+  const offTopic = files.filter(file => !relevant.includes(file)).reverse();
+
+  return {
+    alignment: relevant.length / files.length,
+    files,
+    topFiles: relevant.slice(0, MAX_TOP_FILES).map(file => file.path),
+    offTopicFiles: offTopic.slice(0, MAX_OFF_TOPIC_FILES).map(file => file.path),
+  };
+}
+
+/**
+ * Splits text into lowercase, lightly stemmed words, leaving out stop words
+ * @param text Text such as a goal, path or source code
+ * @returns Tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Counts a file's weighted tokens across its fields
+ * @param doc Changed file
+ * @returns Weighted term frequencies
+ */
+function getTermFrequencies(doc: IRelevanceDocument): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const token of tokenize(text)) {
+      frequencies.set(token, (frequencies.get(token) || 0) + weight);
+    }
+  };
+
+  const content = doc.content?.slice(0, MAX_CONTENT_LENGTH);
+  add(doc.path.split(/[/\\]/).slice(-3).join(' '), FIELD_WEIGHTS.path);
+  add(declarations((content || '').split('\n')).join(' '), FIELD_WEIGHTS.symbols);
+  add((doc.changedLines || []).join('\n'), FIELD_WEIGHTS.changes);
+  add(content || '', FIELD_WEIGHTS.content);
+  add(parseImports(content || '').join(' '), FIELD_WEIGHTS.imports);
+
+  return frequencies;
+}
+
+/**
+ * Strips common English suffixes so "timeouts" and "timeout" match
+ * @param word Lowercase word
+ * @returns Stem
+ */
+function stem(word: string): string {
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (word.length > suffix.length + 3 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
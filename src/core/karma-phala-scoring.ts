@@ -0,0 +1,185 @@
+/**
+ * Karma Phala Scoring Module
+ *
+ * Scores completed milestones. Each strategy weighs a set of components - duration,
+ * breadth, focus, tests, deletions - and every score comes with a breakdown explaining
+ * what each component measured and contributed.
+ * Maps to the Karma (action) pillar - judging the fruits of action by what matters for the work.
+ *
+ * Features:
+ * - Built-in strategies matching the nudge strategies
+ * - Configurable component weights
+ * - Pluggable strategies with their own components
+ */
+
+import { getActiveDuration } from './active-time';
+import { isTestFile } from './sutra-summarizer';
+import { IPauseInterval, IScoreBreakdown, IScoreComponent, ISutraCheckpoint } from './types';
+
+/**
+ * What a milestone's score is computed from
+ */
+export interface IScoringContext {
+  startedAt: number;
+  completedAt: number;
+  filesModified: string[];
+  checkpoints: ISutraCheckpoint[]; // Checkpoints created while the milestone was active
+  pauses?: IPauseInterval[]; // Paused time is left out of every component
+}
+
+/**
+ * Measures one aspect of a milestone
+ */
+export type ScoreComponentFn = (context: IScoringContext) => { points: number; detail: string };
+
+/**
+ * A way of scoring milestones: weights for the built-in components, plus any extra components
+ */
+export interface IScoringStrategy {
+  name: string;
+  weights: Record<string, number>;
+  components?: Record<string, ScoreComponentFn>;
+}
+
+/**
+ * Gaps between checkpoints longer than this, not counting pauses, are interruptions (seconds)
+ */
+const INTERRUPTION_GAP = 45 * 60;
+
+/**
+ * Components available to every strategy; each yields 0-100 points
+ */
+const BUILT_IN_COMPONENTS: Record<string, ScoreComponentFn> = {
+  duration: ({ startedAt, completedAt, pauses }) => {
+    const minutes = getActiveDuration(startedAt, completedAt, pauses) / 60;
+    return { points: Math.min(minutes, 100), detail: `${Math.round(minutes)} min` };
+  },
+
+  files: ({ filesModified }) => ({
+    points: Math.min(filesModified.length * 10, 100),
+    detail: `${filesModified.length} file${filesModified.length === 1 ? '' : 's'} modified`,
+  }),
+
+  focus: ({ startedAt, completedAt, checkpoints, pauses }) => {
+    const duration = getActiveDuration(startedAt, completedAt, pauses);
+    const times = [
+      startedAt,
+      ...checkpoints.map(cp => cp.timestamp).sort((a, b) => a - b),
+      completedAt,
+    ];
+    const gaps = times
+      .slice(1)
+      .map((time, i) => getActiveDuration(times[i], time, pauses))
+      .filter(gap => gap > INTERRUPTION_GAP);
+    const interrupted = gaps.reduce((sum, gap) => sum + gap, 0);
+
+    return {
+      points:
+        duration > 0 ? Math.max(0, Math.round((100 * (duration - interrupted)) / duration)) : 100,
+      detail: `${gaps.length} gap${gaps.length === 1 ? '' : 's'} over ${INTERRUPTION_GAP / 60} min`,
+    };
+  },
+
+  tests: ({ filesModified, checkpoints }) => {
+    const testFiles = filesModified.filter(isTestFile).length;
+    const runs = checkpoints.flatMap(cp => cp.runs || []).filter(run => run.kind === 'test');
+    const lastRun = runs[runs.length - 1];
+    const detail = [`${testFiles} test file${testFiles === 1 ? '' : 's'} modified`];
+    if (lastRun) {
+      detail.push(`last test run ${lastRun.passed ? 'passed' : 'failed'}`);
+    }
+
+    return {
+      points: Math.min(testFiles * 25 + (lastRun?.passed ? 50 : 0), 100),
+      detail: detail.join(', '),
+    };
+  },
+
+  deletions: ({ checkpoints }) => {
+    const stats = checkpoints.flatMap(cp => cp.diffStats || []);
+    const insertions = stats.reduce((sum, stat) => sum + stat.insertions, 0);
+    const deletions = stats.reduce((sum, stat) => sum + stat.deletions, 0);
+    const changed = insertions + deletions;
+
+    return {
+      points: changed > 0 ? Math.round((100 * deletions) / changed) : 0,
+      detail: `${deletions} of ${changed} changed lines deleted`,
+    };
+  },
+};
+
+/**
+ * Built-in strategies, one per nudge strategy
+ */
+const BUILT_IN_STRATEGIES: IScoringStrategy[] = [
+  { name: 'default', weights: { duration: 1, files: 1 } },
+  { name: 'deep-work', weights: { focus: 3, duration: 1 } },
+  { name: 'exploration', weights: { files: 2, duration: 1 } },
+  { name: 'maintenance', weights: { tests: 2, deletions: 2, files: 1 } },
+];
+
+/**
+ * Scores milestones with named strategies
+ */
+export class KarmaPhalaScoring {
+  private strategies: Map<string, IScoringStrategy> = new Map(
+    BUILT_IN_STRATEGIES.map(strategy => [strategy.name, strategy])
+  );
+
+  /**
+   * Adds a strategy, replacing any strategy with the same name
+   * @param strategy Scoring strategy
+   */
+  public registerStrategy(strategy: IScoringStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  /**
+   * Gets the names of the available strategies
+   * @returns Strategy names
+   */
+  public getStrategyNames(): string[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  /**
+   * Scores a milestone
+   * @param strategyName Strategy to use, normally the nudge strategy; falls back to 'default'
+   * @param context What the score is computed from
+   * @param weights Weights overriding the strategy's; a weight of 0 drops the component
+   * @returns Score (0-100) and its breakdown
+   */
+  public score(
+    strategyName: string,
+    context: IScoringContext,
+    weights: Record<string, number> = {}
+  ): { score: number; breakdown: IScoreBreakdown } {
+    const strategy = this.strategies.get(strategyName) || this.strategies.get('default')!;
+    const components = { ...BUILT_IN_COMPONENTS, ...strategy.components };
+    const effective = Object.entries({ ...strategy.weights, ...weights }).filter(
+      ([name, weight]) => weight > 0 && components[name]
+    );
+    const totalWeight = effective.reduce((sum, [, weight]) => sum + weight, 0);
+
+    let total = 0;
+    const breakdown: IScoreComponent[] = effective.map(([name, weight]) => {
+      const { points, detail } = components[name](context);
+      const clamped = Math.max(0, Math.min(100, points));
+      const contribution = (clamped * weight) / totalWeight;
+      total += contribution;
+
+      return {
+        name,
+        points: Math.round(clamped),
+        weight,
+        contribution: Math.round(contribution * 10) / 10,
+        detail,
+      };
+    });
+
+    return {
+      score: Math.round(total),
+      breakdown: { strategy: strategy.name, components: breakdown },
+    };
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Karma Phala Status Module
+ *
+ * Shows the active milestone in the status bar with its progress against the target
+ * duration, and warns when a milestone overruns its target.
+ * Maps to the Karma (action) pillar - keeping the intended effort in view while acting.
+ *
+ * Features:
+ * - Live progress against the target duration
+ * - Overrun highlighting and warnings at configurable percentages
+ * - Paused milestones marked as such
+ * - Tooltip listing every active milestone
+ */
+
+import * as vscode from 'vscode';
+import { KarmaPhala } from './karma-phala';
+import { ICoreEvent, IMilestone } from './types';
+
+/**
+ * How often progress is refreshed (seconds)
+ */
+const REFRESH_INTERVAL = 30;
+
+/**
+ * Shows milestone progress in the status bar
+ */
+export class KarmaPhalaStatusBar implements vscode.Disposable {
+  private karmaPhala: KarmaPhala;
+  private item: vscode.StatusBarItem;
+  private intervalId?: NodeJS.Timeout;
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * Creates a new KarmaPhalaStatusBar instance
+   * @param karmaPhala Karma phala module holding the milestones
+   * @param eventEmitter Event emitter for core events
+   */
+  constructor(karmaPhala: KarmaPhala, eventEmitter: vscode.EventEmitter<ICoreEvent>) {
+    this.karmaPhala = karmaPhala;
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    this.item.command = 'tridishti.milestones.focus';
+
+    this.disposables.push(
+      eventEmitter.event(event => {
+        if (event.type.startsWith('milestone')) {
+          this.update();
+        }
+      })
+    );
+    this.intervalId = setInterval(() => this.update(), REFRESH_INTERVAL * 1000);
+    this.update();
+  }
+
+  /**
+   * Redraws the status bar item and shows warnings for newly overrun milestones
+   */
+  public update(): void {
+    for (const overrun of this.karmaPhala.checkOverruns()) {
+      vscode.window.showWarningMessage(
+        `Milestone "${overrun.milestone.name}" has reached ${overrun.percent}% of its ` +
+          `${formatMinutes(overrun.milestone.targetDuration!)} target.`
+      );
+    }
+
+    const active = this.karmaPhala.getActiveMilestones();
+    const current = this.karmaPhala.getActiveMilestone();
+    if (!current) {
+      this.item.hide();
+      return;
+    }
+
+    const progress = this.karmaPhala.getTargetProgress(current.id);
+    const icon = this.karmaPhala.isMilestonePaused(current.id) ? 'debug-pause' : 'milestone';
+    this.item.text = `$(${icon}) ${current.name} ${this.getProgressText(current)}`;
+    this.item.backgroundColor =
+      progress !== undefined && progress >= 1
+        ? new vscode.ThemeColor('statusBarItem.warningBackground')
+        : undefined;
+    this.item.tooltip = [
+      'Active milestones:',
+      ...active.map(m => `${m.name}: ${this.getProgressText(m)}`),
+    ].join('\n');
+    this.item.show();
+  }
+
+  /**
+   * Stops refreshing and removes the status bar item
+   */
+  public dispose(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.item.dispose();
+  }
+
+  /**
+   * Describes a milestone's progress, e.g. "45% of 60 min", "12 min" without a target or
+   * "12 min (paused)" or "12 min (blocked)"
+   * @param milestone Milestone
+   * @returns Progress text
+   */
+  private getProgressText(milestone: IMilestone): string {
+    const progress = this.karmaPhala.getTargetProgress(milestone.id);
+    const text =
+      progress === undefined
+        ? formatMinutes(this.karmaPhala.getElapsedTime(milestone.id))
+        : `${Math.round(progress * 100)}% of ${formatMinutes(milestone.targetDuration!)}`;
+    if (this.karmaPhala.getBlockingMilestones(milestone.id).length > 0) {
+      return `${text} (blocked)`;
+    }
+    return this.karmaPhala.isMilestonePaused(milestone.id) ? `${text} (paused)` : text;
+  }
+}
+
+/**
+ * Formats a duration in whole minutes
+ * @param seconds Duration in seconds
+ * @returns Text such as "45 min"
+ */
+function formatMinutes(seconds: number): string {
+  return `${Math.round(seconds / 60)} min`;
+}
@@ -0,0 +1,138 @@
+/**
+ * Karma Phala Tags Module
+ *
+ * Names and annotates the git tags created for completed milestones. Tag names come from
+ * a template; annotations read like release notes for the work the milestone covered.
+ * Maps to the Karma (action) pillar - leaving a lasting record of the fruits of action.
+ *
+ * Features:
+ * - Tag name templates with milestone, yatra, date and branch tokens
+ * - Token values reduced to characters that are always valid in a git ref
+ * - Every component of the rendered name kept valid, falling back to the milestone id
+ * - Release notes listing checkpoints, files modified and captured jnana
+ */
+
+import { IJnana } from '../learning/types';
+import { IMilestone, ISutraCheckpoint, IYatra } from './types';
+
+/**
+ * Tag name template used when none is configured
+ */
+export const DEFAULT_TAG_TEMPLATE = 'milestone-{name}-{score}';
+
+/**
+ * Values available to tag name templates as {name}, {score}, {yatra}, {date}, {sankalpa}
+ * and {branch}; missing values render as empty text
+ */
+export interface ITagTokens {
+  id: string; // Milestone id; the tag name when the template renders empty
+  name: string;
+  score: number;
+  yatra?: string; // Yatra id
+  date: number; // Completion time; rendered as YYYY-MM-DD
+  sankalpa?: string;
+  branch?: string;
+}
+
+/**
+ * What a milestone's release notes are built from
+ */
+export interface IReleaseNotes {
+  milestone: IMilestone;
+  score: number;
+  duration: number; // seconds
+  yatra?: IYatra;
+  checkpoints: ISutraCheckpoint[];
+  filesModified: string[]; // Relative to the tagged repository
+  jnana: IJnana[];
+}
+
+/**
+ * Renders a tag name template
+ * @param template Template such as "milestone-{name}-{score}"
+ * @param tokens Token values
+ * @returns Tag name that is valid as a git ref
+ */
+export function renderTagName(template: string, tokens: ITagTokens): string {
+  const values: Record<string, string> = {
+    name: toSlug(tokens.name),
+    score: String(tokens.score),
+    yatra: toSlug(tokens.yatra || ''),
+    date: new Date(tokens.date).toISOString().slice(0, 10),
+    sankalpa: toSlug(tokens.sankalpa || ''),
+    branch: toSlug((tokens.branch || '').replace(/\//g, '-')),
+  };
+
+  const name = template.replace(/\{(\w+)\}/g, (token, key: string) =>
+    key in values ? values[key] : token
+  );
+
+  // Whatever the template itself contains must still form a valid ref
+  return toRefName(name) || toRefName(tokens.id);
+}
+
+/**
+ * Builds the annotation of a milestone tag
+ * @param notes What the notes are built from
+ * @returns Annotation with a summary line and sections for the work done
+ */
+export function getReleaseNotes(notes: IReleaseNotes): string {
+  const { milestone, yatra } = notes;
+  const lines: string[] = [`Milestone: ${milestone.name} (Score: ${notes.score})`, ''];
+
+  if (yatra?.sankalpa) {
+    lines.push(`Sankalpa: ${yatra.sankalpa}`);
+  }
+  if (yatra) {
+    lines.push(`Yatra: ${yatra.id}`);
+  }
+  lines.push(`Duration: ${Math.round(notes.duration / 60)} min`);
+
+  const checkpoints = notes.checkpoints
+    .map(cp => cp.message || cp.summary)
+    .filter(message => message)
+    .map(message => `- ${message}`);
+  if (checkpoints.length > 0) {
+    lines.push('', 'Checkpoints:', ...checkpoints);
+  }
+
+  if (notes.filesModified.length > 0) {
+    lines.push('', 'Files modified:', ...notes.filesModified.map(file => `- ${file}`));
+  }
+
+  if (notes.jnana.length > 0) {
+    lines.push('', 'Jnana:', ...notes.jnana.map(j => `- [${j.category}] ${j.content}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Reduces text to a valid git ref name: safe characters only, and no component that is
+ * empty, starts with a dot or dash, or ends with a dot or ".lock"
+ * @param text Rendered tag name
+ * @returns Ref name; empty when nothing valid is left
+ */
+function toRefName(text: string): string {
+  return text
+    .replace(/[^a-zA-Z0-9\-_./]/g, '-')
+    .split('/')
+    .map(component =>
+      component
+        .replace(/\.{2,}/g, '.')
+        .replace(/^[-.]+/, '')
+        .replace(/(\.lock|\.)+$/, '')
+    )
+    .filter(component => component)
+    .join('/');
+}
+
+/**
+ * Reduces text to lowercase letters, digits, dashes and underscores
+ * @param text Text such as a milestone name
+ * @returns Slug of at most 50 characters
+ */
+function toSlug(text: string): string {
+  const safe = text.replace(/[^a-zA-Z0-9\s\-_]/g, '').substring(0, 50);
+  return safe.toLowerCase().trim().replace(/\s+/g, '-');
+}
@@ -0,0 +1,109 @@
+/**
+ * Karma Phala Tree Module
+ *
+ * Shows milestones as a tree: epics with their steps, the progress rolled up from the
+ * steps, and the milestones each one is still blocked by.
+ * Maps to the Karma (action) pillar - seeing how sustained effort adds up.
+ *
+ * Features:
+ * - Nested milestones with rolled-up progress
+ * - Status icons for active, paused, blocked, completed and abandoned milestones
+ * - Refresh on milestone events
+ */
+
+import * as vscode from 'vscode';
+import { IMilestoneNode, KarmaPhala } from './karma-phala';
+import { ICoreEvent } from './types';
+
+/**
+ * Core events that change the milestone tree
+ */
+const MILESTONE_EVENTS: ICoreEvent['type'][] = [
+  'milestone',
+  'milestone_created',
+  'milestone_updated',
+];
+
+/**
+ * Provides the milestone tree view
+ */
+export class KarmaPhalaTreeProvider implements vscode.TreeDataProvider<IMilestoneNode> {
+  private karmaPhala: KarmaPhala;
+  private changeEmitter = new vscode.EventEmitter<IMilestoneNode | undefined>();
+
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  /**
+   * Creates a new KarmaPhalaTreeProvider instance
+   * @param karmaPhala Karma phala module holding the milestones
+   * @param eventEmitter Event emitter for core events
+   */
+  constructor(karmaPhala: KarmaPhala, eventEmitter: vscode.EventEmitter<ICoreEvent>) {
+    this.karmaPhala = karmaPhala;
+
+    eventEmitter.event(event => {
+      if (MILESTONE_EVENTS.includes(event.type)) {
+        this.refresh();
+      }
+    });
+  }
+
+  /**
+   * Redraws the whole tree
+   */
+  public refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  /**
+   * Gets the tree item for a milestone
+   * @param node Milestone node
+   * @returns Tree item
+   */
+  public getTreeItem(node: IMilestoneNode): vscode.TreeItem {
+    const { milestone, children, progress, blockers } = node;
+    const blocked = milestone.status === 'active' && blockers.length > 0;
+    const paused = this.karmaPhala.isMilestonePaused(milestone.id);
+    const state = blocked ? 'blocked' : paused ? 'paused' : milestone.status;
+
+    const item = new vscode.TreeItem(
+      milestone.name,
+      children.length > 0
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None
+    );
+    item.id = milestone.id;
+    item.contextValue = `milestone-${state}`;
+
+    const description = [
+      milestone.status === 'active' ? `${Math.round(progress * 100)}%` : milestone.status,
+    ];
+    if (paused && !blocked) {
+      description.push('paused');
+    }
+    if (blocked) {
+      description.push(`blocked by ${blockers.map(m => m.name).join(', ')}`);
+    }
+    item.description = description.join(' · ');
+
+    const icons: Record<string, string> = {
+      active: 'circle-large-outline',
+      blocked: 'lock',
+      paused: 'debug-pause',
+      completed: 'pass',
+      abandoned: 'circle-slash',
+    };
+    item.iconPath = new vscode.ThemeIcon(icons[state]);
+
+    return item;
+  }
+
+  /**
+   * Gets the sub-milestones of a node, or the top-level milestones
+   * @param node Parent node, undefined for the root
+   * @returns Child nodes
+   */
+  public getChildren(node?: IMilestoneNode): IMilestoneNode[] {
+    return node ? node.children : this.karmaPhala.getMilestoneTree();
+  }
+}
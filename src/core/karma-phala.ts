@@ -6,13 +6,35 @@
  *
  * Features:
  * - Milestone tracking with duration thresholds
- * - Scoring system for action outcomes
- * - Git tag integration for milestones
+ * - Nested milestones, "blocked by" dependencies and several active milestones at once
+ * - Progress rolled up from sub-milestones
+ * - Progress against target durations, with overrun warnings
+ * - Pause and resume; paused time never counts towards a milestone's duration, nor does
+ *   time spent blocked
+ * - Milestone templates laid out as a sequence of steps
+ * - Explainable scoring with strategies tied to the nudge strategy
+ * - Git tag integration for milestones, in every repository the milestone touched,
+ *   with templated tag names and release-notes annotations
  * - Milestone completion nudges
  */
 
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { ICoreEvent, IKarmaPhala, IMilestone } from './types';
+import { IJnana } from '../learning/types';
+import { GitService } from './git-service';
+import { getActiveDuration, getOpenPause } from './active-time';
+import { IScoringStrategy, KarmaPhalaScoring } from './karma-phala-scoring';
+import { DEFAULT_TAG_TEMPLATE, getReleaseNotes, renderTagName } from './karma-phala-tags';
+import { IMilestoneTemplate } from './milestone-templates';
+import {
+  ICoreEvent,
+  IKarmaPhala,
+  IMilestone,
+  IPauseInterval,
+  IScoreBreakdown,
+  ISutraCheckpoint,
+  IYatra,
+} from './types';
 
 /**
  * Configuration for karma phala milestones
@@ -22,6 +44,37 @@ export interface IKarmaPhalaConfig {
   autoTag: boolean;
   enabled: boolean;
   nudgeStrategy: 'default' | 'deep-work' | 'exploration' | 'maintenance';
+  scoreWeights?: Record<string, number>; // Overrides the strategy's component weights
+  overrunWarnings?: number[]; // Percentages of the target duration to warn at, e.g. [100, 150]
+  tagNameTemplate?: string; // e.g. "milestone-{name}-{score}"; see ITagTokens
+  annotatedTags?: boolean; // false creates lightweight tags without release notes
+}
+
+/**
+ * Where a new milestone sits in the milestone hierarchy
+ */
+export interface IMilestoneRelations {
+  parentId?: string;
+  blockedBy?: string[];
+}
+
+/**
+ * An active milestone that has passed one of the overrun warning percentages
+ */
+export interface IMilestoneOverrun {
+  milestone: IMilestone;
+  percent: number; // Warning percentage passed
+  elapsed: number; // seconds
+}
+
+/**
+ * A milestone with its sub-milestones, as shown in the milestone tree
+ */
+export interface IMilestoneNode {
+  milestone: IMilestone;
+  children: IMilestoneNode[];
+  progress: number; // 0-1, rolled up from the children
+  blockers: IMilestone[]; // Unfinished milestones this one is blocked by
 }
 
 /**
@@ -32,26 +85,50 @@ export class KarmaPhala {
   private milestones: Map<string, IMilestone> = new Map();
   private karmaPhala: IKarmaPhala[] = [];
   private eventEmitter: vscode.EventEmitter<ICoreEvent>;
-  private activeMilestone?: IMilestone;
-  private milestoneStartTime?: number;
+  private gitService: GitService;
+  private scoring: KarmaPhalaScoring = new KarmaPhalaScoring();
+  private overrunsWarned: Map<string, number> = new Map(); // Highest percentage warned per milestone
+  private currentYatra?: IYatra;
+  private jnanaSource?: () => IJnana[];
 
   /**
    * Creates a new KarmaPhala instance
    * @param config Configuration for milestone behavior
    * @param eventEmitter Event emitter for core events
+   * @param gitService Git service used for auto-tagging
    */
-  constructor(config: IKarmaPhalaConfig, eventEmitter: vscode.EventEmitter<ICoreEvent>) {
+  constructor(
+    config: IKarmaPhalaConfig,
+    eventEmitter: vscode.EventEmitter<ICoreEvent>,
+    gitService: GitService = new GitService()
+  ) {
     this.config = config;
     this.eventEmitter = eventEmitter;
+    this.gitService = gitService;
   }
 
   /**
-   * Creates a new milestone
+   * Creates a new milestone; it stays active alongside any other active milestones
    * @param name Name of the milestone
    * @param targetDuration Optional target duration in seconds
+   * @param relations Optional parent milestone and milestones this one is blocked by
    * @returns The created milestone
    */
-  public createMilestone(name: string, targetDuration?: number): IMilestone {
+  public createMilestone(
+    name: string,
+    targetDuration?: number,
+    relations: IMilestoneRelations = {}
+  ): IMilestone {
+    const { parentId, blockedBy = [] } = relations;
+
+    if (parentId !== undefined && this.milestones.get(parentId)?.status !== 'active') {
+      throw new Error(`Parent milestone ${parentId} not found or not active`);
+    }
+    const unknown = blockedBy.find(id => !this.milestones.has(id));
+    if (unknown) {
+      throw new Error(`Milestone ${unknown} not found`);
+    }
+
     const milestone: IMilestone = {
       id: this.generateId(),
       name,
@@ -59,10 +136,19 @@ export class KarmaPhala {
       targetDuration,
       status: 'active',
     };
+    if (parentId !== undefined) {
+      milestone.parentId = parentId;
+    }
+    if (blockedBy.length > 0) {
+      milestone.blockedBy = Array.from(new Set(blockedBy));
+    }
 
     this.milestones.set(milestone.id, milestone);
-    this.activeMilestone = milestone;
-    this.milestoneStartTime = Date.now();
+
+    // The clock starts once the milestones it is waiting on are finished
+    if (this.getBlockers(milestone).length > 0) {
+      milestone.pauses = [{ start: milestone.createdAt, reason: 'blocked' }];
+    }
 
     // Fire event for milestone creation
     this.eventEmitter.fire({
@@ -75,39 +161,92 @@ export class KarmaPhala {
   }
 
   /**
-   * Completes the current active milestone
+   * Lays out a template: a milestone named after the template with a step for each of the
+   * template's milestones, every step blocked by the one before it
+   * @param template Milestone template
+   * @returns The created milestones, the template's own first
+   */
+  public instantiateTemplate(template: IMilestoneTemplate): IMilestone[] {
+    const total = template.milestones.reduce((sum, step) => sum + (step.targetDuration || 0), 0);
+    const parent = this.createMilestone(template.name, total > 0 ? total : undefined);
+
+    const steps: IMilestone[] = [];
+    for (const step of template.milestones) {
+      const previous = steps[steps.length - 1];
+      steps.push(
+        this.createMilestone(step.name, step.targetDuration, {
+          parentId: parent.id,
+          blockedBy: previous ? [previous.id] : [],
+        })
+      );
+    }
+
+    return [parent, ...steps];
+  }
+
+  /**
+   * Completes an active milestone. It cannot be completed while a milestone it is blocked
+   * by, or one of its sub-milestones, is still active.
+   * YatraManager.completeMilestone works out the files and checkpoints from the yatra.
    * @param filesModified Array of file paths that were modified
+   * @param milestoneId Milestone to complete; defaults to the one being worked on
+   * @param checkpoints Checkpoints created during the milestone, used for scoring
    * @returns The karma phala outcome
    */
-  public async completeMilestone(filesModified: string[]): Promise<IKarmaPhala> {
-    if (!this.activeMilestone || !this.milestoneStartTime) {
-      throw new Error('No active milestone to complete');
-    }
+  public async completeMilestone(
+    filesModified: string[],
+    milestoneId?: string,
+    checkpoints: ISutraCheckpoint[] = []
+  ): Promise<IKarmaPhala> {
+    const milestone =
+      milestoneId !== undefined ? this.milestones.get(milestoneId) : this.getActiveMilestone();
+    this.assertCanComplete(milestone);
 
-    const duration = Math.floor((Date.now() - this.milestoneStartTime) / 1000);
-    const score = this.calculateScore(duration, filesModified.length);
+    const completedAt = Date.now();
+    milestone.completedAt = completedAt;
+    this.closePause(milestone, completedAt);
+    const duration = this.getElapsedTime(milestone.id);
+    const { score, breakdown } = this.scoreMilestone(
+      milestone,
+      completedAt,
+      filesModified,
+      checkpoints
+    );
 
-    const milestone = this.activeMilestone;
     milestone.status = 'completed';
-    milestone.completedAt = Date.now();
     this.milestones.set(milestone.id, milestone);
+    this.startUnblocked();
 
     const karmaPhala: IKarmaPhala = {
       id: this.generateId(),
       milestoneId: milestone.id,
       timestamp: Date.now(),
       score,
+      scoreBreakdown: breakdown,
       duration,
       filesModified,
     };
 
     if (this.config.autoTag) {
-      karmaPhala.gitTag = await this.createGitTag(milestone.name, score);
+      try {
+        const groups = await this.getTagGroups(filesModified);
+        for (const [root, files] of groups) {
+          karmaPhala.gitTag = await this.createGitTag(
+            root,
+            milestone,
+            karmaPhala,
+            files,
+            checkpoints
+          );
+          karmaPhala.gitTagRoots = [...(karmaPhala.gitTagRoots || []), root];
+        }
+      } catch (error) {
+        // The milestone is already completed, so a failed tag must not stop it being recorded
+        karmaPhala.gitError = error instanceof Error ? error.message : String(error);
+      }
     }
 
     this.karmaPhala.push(karmaPhala);
-    this.activeMilestone = undefined;
-    this.milestoneStartTime = undefined;
 
     this.eventEmitter.fire({
       type: 'milestone',
@@ -119,26 +258,243 @@ export class KarmaPhala {
   }
 
   /**
-   * Abandons the current active milestone
+   * Scores an active milestone as if it were completed now, without completing it
+   * @param milestoneId Milestone to score
+   * @param filesModified Array of file paths that were modified
+   * @param checkpoints Checkpoints created during the milestone
+   * @returns Score (0-100) and its breakdown
+   * @throws When the milestone could not be completed now
+   */
+  public previewScore(
+    milestoneId: string,
+    filesModified: string[],
+    checkpoints: ISutraCheckpoint[] = []
+  ): { score: number; breakdown: IScoreBreakdown } {
+    const milestone = this.milestones.get(milestoneId);
+    this.assertCanComplete(milestone);
+
+    return this.scoreMilestone(milestone, Date.now(), filesModified, checkpoints);
+  }
+
+  /**
+   * Abandons an active milestone together with its active sub-milestones.
+   * Abandoned milestones no longer block the milestones depending on them.
+   * @param milestoneId Milestone to abandon; defaults to the one being worked on
    */
-  public abandonMilestone(): void {
-    if (!this.activeMilestone) {
+  public abandonMilestone(milestoneId?: string): void {
+    const milestone =
+      milestoneId !== undefined ? this.milestones.get(milestoneId) : this.getActiveMilestone();
+    if (!milestone || milestone.status !== 'active') {
       return;
     }
 
-    const milestone = this.activeMilestone;
+    for (const child of this.getChildren(milestone.id)) {
+      this.abandonMilestone(child.id);
+    }
     milestone.status = 'abandoned';
-    this.milestones.set(milestone.id, milestone);
-    this.activeMilestone = undefined;
-    this.milestoneStartTime = undefined;
+    this.closePause(milestone, Date.now());
+
+    this.eventEmitter.fire({
+      type: 'milestone_updated',
+      timestamp: Date.now(),
+      data: milestone,
+    });
+    this.startUnblocked();
   }
 
   /**
-   * Gets the active milestone
+   * Pauses an active milestone; time until it is resumed does not count towards its duration
+   * @param milestoneId Milestone to pause; defaults to the one being worked on
+   * @param reason Why the milestone is paused
+   * @param since When the pause began, e.g. the last activity before going idle
+   * @returns True if the milestone was paused, false if it was not active or already paused
+   */
+  public pauseMilestone(
+    milestoneId?: string,
+    reason: IPauseInterval['reason'] = 'manual',
+    since: number = Date.now()
+  ): boolean {
+    const milestone =
+      milestoneId !== undefined ? this.milestones.get(milestoneId) : this.getActiveMilestone();
+    if (!milestone || milestone.status !== 'active' || getOpenPause(milestone.pauses)) {
+      return false;
+    }
+
+    milestone.pauses = [...(milestone.pauses || []), { start: since, reason }];
+    this.eventEmitter.fire({
+      type: 'milestone_updated',
+      timestamp: Date.now(),
+      data: milestone,
+    });
+    return true;
+  }
+
+  /**
+   * Resumes a paused milestone
+   * @param milestoneId Milestone to resume; defaults to the one being worked on
+   * @param reason Only resume a pause with this reason, e.g. 'yatra' when its yatra resumes
+   * @returns True if the milestone was resumed; a blocked milestone resumes only once its
+   * blockers are finished
+   */
+  public resumeMilestone(milestoneId?: string, reason?: IPauseInterval['reason']): boolean {
+    const milestone =
+      milestoneId !== undefined ? this.milestones.get(milestoneId) : this.getActiveMilestone();
+    const pause = getOpenPause(milestone?.pauses);
+    if (
+      !milestone ||
+      !pause ||
+      pause.reason === 'blocked' ||
+      (reason !== undefined && pause.reason !== reason)
+    ) {
+      return false;
+    }
+
+    this.closePause(milestone, Date.now());
+    this.eventEmitter.fire({
+      type: 'milestone_updated',
+      timestamp: Date.now(),
+      data: milestone,
+    });
+    return true;
+  }
+
+  /**
+   * Checks whether a milestone is paused
+   * @param milestoneId Milestone ID
+   * @returns True while the milestone has an open pause
+   */
+  public isMilestonePaused(milestoneId: string): boolean {
+    return getOpenPause(this.milestones.get(milestoneId)?.pauses) !== undefined;
+  }
+
+  /**
+   * Gets the milestone being worked on: the most recently created active milestone that is
+   * not blocked, or the most recently created active one when all are blocked
    * @returns Active milestone or undefined
    */
   public getActiveMilestone(): IMilestone | undefined {
-    return this.activeMilestone;
+    const active = this.getActiveMilestones();
+    const unblocked = active.filter(m => this.getBlockers(m).length === 0);
+    return unblocked[unblocked.length - 1] || active[active.length - 1];
+  }
+
+  /**
+   * Gets all active milestones
+   * @returns Active milestones, oldest first
+   */
+  public getActiveMilestones(): IMilestone[] {
+    return this.getMilestones()
+      .filter(m => m.status === 'active')
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Gets the unfinished milestones a milestone is blocked by
+   * @param milestoneId Milestone ID
+   * @returns Active milestones listed in its blockedBy
+   */
+  public getBlockingMilestones(milestoneId: string): IMilestone[] {
+    const milestone = this.milestones.get(milestoneId);
+    return milestone ? this.getBlockers(milestone) : [];
+  }
+
+  /**
+   * Gets a milestone's progress: 1 once completed, otherwise the average progress of its
+   * sub-milestones, ignoring abandoned ones. Active milestones without sub-milestones are at 0.
+   * @param milestoneId Milestone ID
+   * @returns Progress between 0 and 1
+   */
+  public getMilestoneProgress(milestoneId: string): number {
+    const milestone = this.milestones.get(milestoneId);
+    if (!milestone || milestone.status !== 'active') {
+      return milestone?.status === 'completed' ? 1 : 0;
+    }
+
+    const children = this.getChildren(milestoneId).filter(m => m.status !== 'abandoned');
+    if (children.length === 0) {
+      return 0;
+    }
+    return (
+      children.reduce((sum, child) => sum + this.getMilestoneProgress(child.id), 0) /
+      children.length
+    );
+  }
+
+  /**
+   * Gets the working time spent on a milestone, up to its completion for finished ones
+   * @param milestoneId Milestone ID
+   * @returns Elapsed time in seconds excluding pauses, 0 for unknown milestones
+   */
+  public getElapsedTime(milestoneId: string): number {
+    const milestone = this.milestones.get(milestoneId);
+    if (!milestone) {
+      return 0;
+    }
+    return getActiveDuration(
+      milestone.createdAt,
+      milestone.completedAt ?? Date.now(),
+      milestone.pauses
+    );
+  }
+
+  /**
+   * Gets a milestone's progress against its target duration
+   * @param milestoneId Milestone ID
+   * @returns Elapsed time as a fraction of the target (above 1 when overrun), or undefined
+   *          if the milestone has no target
+   */
+  public getTargetProgress(milestoneId: string): number | undefined {
+    const target = this.milestones.get(milestoneId)?.targetDuration;
+    return target ? this.getElapsedTime(milestoneId) / target : undefined;
+  }
+
+  /**
+   * Finds active milestones that passed an overrun warning percentage since the last check;
+   * each percentage is reported once per milestone
+   * @returns Newly overrun milestones with the highest percentage passed
+   */
+  public checkOverruns(): IMilestoneOverrun[] {
+    const overruns: IMilestoneOverrun[] = [];
+
+    for (const milestone of this.getActiveMilestones()) {
+      const progress = this.getTargetProgress(milestone.id);
+      if (progress === undefined) {
+        continue;
+      }
+
+      const passed = (this.config.overrunWarnings || [])
+        .filter(percent => progress * 100 >= percent)
+        .reduce((max, percent) => Math.max(max, percent), 0);
+      if (passed > (this.overrunsWarned.get(milestone.id) || 0)) {
+        this.overrunsWarned.set(milestone.id, passed);
+        overruns.push({ milestone, percent: passed, elapsed: this.getElapsedTime(milestone.id) });
+      }
+    }
+
+    return overruns;
+  }
+
+  /**
+   * Gets the milestone hierarchy
+   * @returns Top-level milestones with their sub-milestones, oldest first
+   */
+  public getMilestoneTree(): IMilestoneNode[] {
+    return this.getMilestones()
+      .filter(m => m.parentId === undefined || !this.milestones.has(m.parentId))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(m => this.buildNode(m));
+  }
+
+  /**
+   * Loads milestones, e.g. those of a restored yatra; milestones already known are kept
+   * @param milestones Milestones to add
+   */
+  public loadMilestones(milestones: IMilestone[]): void {
+    for (const milestone of milestones) {
+      if (!this.milestones.has(milestone.id)) {
+        this.milestones.set(milestone.id, milestone);
+      }
+    }
   }
 
   /**
@@ -166,7 +522,20 @@ export class KarmaPhala {
     return (
       this.config.enabled &&
       currentDuration >= this.config.milestoneThreshold &&
-      !this.activeMilestone
+      this.getActiveMilestones().length === 0
+    );
+  }
+
+  /**
+   * Checks if the active milestone has run long enough to suggest completing it
+   * @param currentDuration Time spent on the milestone in seconds
+   * @returns True if a milestone is active and the threshold is reached
+   */
+  public shouldCompleteMilestone(currentDuration: number): boolean {
+    return (
+      this.config.enabled &&
+      currentDuration >= this.config.milestoneThreshold &&
+      this.getActiveMilestones().length > 0
     );
   }
 
@@ -189,6 +558,31 @@ export class KarmaPhala {
     return messages[this.config.nudgeStrategy] || messages.default;
   }
 
+  /**
+   * Adds a scoring strategy; one named after a nudge strategy replaces the built-in one
+   * @param strategy Scoring strategy
+   */
+  public registerScoringStrategy(strategy: IScoringStrategy): void {
+    this.scoring.registerStrategy(strategy);
+  }
+
+  /**
+   * Sets the current yatra, whose id and sankalpa go into milestone tags
+   * @param yatra Current yatra
+   */
+  public setCurrentYatra(yatra: IYatra | undefined): void {
+    this.currentYatra = yatra;
+  }
+
+  /**
+   * Sets where captured jnana comes from; jnana captured while a milestone was active
+   * goes into its tag's release notes
+   * @param source Returns all captured jnana
+   */
+  public setJnanaSource(source: () => IJnana[]): void {
+    this.jnanaSource = source;
+  }
+
   /**
    * Updates the configuration
    * @param config New configuration
@@ -198,41 +592,195 @@ export class KarmaPhala {
   }
 
   /**
-   * Calculates a score based on duration and file changes
-   * @param duration Duration in seconds
-   * @param filesCount Number of files modified
-   * @returns Score value
+   * Checks that a milestone can be completed: it is active, not blocked and has no
+   * active sub-milestones
+   * @param milestone Milestone to check
+   * @throws When it cannot be completed
    */
-  private calculateScore(duration: number, filesCount: number): number {
-    const durationScore = Math.min(duration / 60, 100); // Max 100 for duration
-    const filesScore = Math.min(filesCount * 10, 100); // Max 100 for files
-    return Math.round((durationScore + filesScore) / 2);
+  private assertCanComplete(milestone: IMilestone | undefined): asserts milestone is IMilestone {
+    if (!milestone || milestone.status !== 'active') {
+      throw new Error('No active milestone to complete');
+    }
+
+    const blockers = this.getBlockers(milestone);
+    if (blockers.length > 0) {
+      throw new Error(
+        `Milestone "${milestone.name}" is blocked by ${blockers.map(m => `"${m.name}"`).join(', ')}`
+      );
+    }
+    const unfinished = this.getChildren(milestone.id).filter(m => m.status === 'active');
+    if (unfinished.length > 0) {
+      const names = unfinished.map(m => `"${m.name}"`).join(', ');
+      throw new Error(`Milestone "${milestone.name}" has unfinished sub-milestones: ${names}`);
+    }
+  }
+
+  /**
+   * Scores a milestone with the nudge strategy's scoring and the configured weights
+   * @param milestone Milestone to score
+   * @param completedAt Completion time
+   * @param filesModified Array of file paths that were modified
+   * @param checkpoints Checkpoints created during the milestone
+   * @returns Score (0-100) and its breakdown
+   */
+  private scoreMilestone(
+    milestone: IMilestone,
+    completedAt: number,
+    filesModified: string[],
+    checkpoints: ISutraCheckpoint[]
+  ): { score: number; breakdown: IScoreBreakdown } {
+    return this.scoring.score(
+      this.config.nudgeStrategy,
+      {
+        startedAt: milestone.createdAt,
+        completedAt,
+        filesModified,
+        checkpoints,
+        pauses: milestone.pauses,
+      },
+      this.config.scoreWeights
+    );
   }
 
   /**
-   * Creates a git tag for the milestone
-   * @param name Milestone name
-   * @param score Milestone score
-   * @returns Git tag name or undefined
+   * Starts the clock of milestones whose blockers have all finished. While the yatra is
+   * paused they stay paused along with it.
    */
-  private async createGitTag(name: string, score: number): Promise<string | undefined> {
-    try {
-      const { execSync } = await import('child_process');
-      // Sanitize name to prevent command injection and create safe tag name
-      const sanitizedName = name.replace(/[^a-zA-Z0-9\s\-_]/g, '').substring(0, 50);
-      const tagName = `milestone-${sanitizedName.toLowerCase().replace(/\s+/g, '-')}-${score}`;
-      const sanitizedTagName = tagName.replace(/"/g, '').replace(/`/g, '').replace(/\$/g, '');
-      const sanitizedDisplayName = sanitizedName.replace(/"/g, '\\"').replace(/`/g, '\\`').replace(/\$/g, '\\$');
+  private startUnblocked(): void {
+    const yatraPaused = getOpenPause(this.currentYatra?.pauses) !== undefined;
 
-      execSync(`git tag -a "${sanitizedTagName}" -m "Milestone: ${sanitizedDisplayName} (Score: ${score})"`, {
-        encoding: 'utf-8',
+    for (const milestone of this.getActiveMilestones()) {
+      const pause = getOpenPause(milestone.pauses);
+      if (pause?.reason !== 'blocked' || this.getBlockers(milestone).length > 0) {
+        continue;
+      }
+
+      const now = Date.now();
+      this.closePause(milestone, now);
+      if (yatraPaused) {
+        milestone.pauses!.push({ start: now, reason: 'yatra' });
+      }
+      this.eventEmitter.fire({
+        type: 'milestone_updated',
+        timestamp: Date.now(),
+        data: milestone,
       });
-      return sanitizedTagName;
-    } catch (error) {
-      return undefined;
     }
   }
 
+  /**
+   * Ends a milestone's open pause, if any
+   * @param milestone Milestone
+   * @param end When the pause ended
+   */
+  private closePause(milestone: IMilestone, end: number): void {
+    const pause = getOpenPause(milestone.pauses);
+    if (pause) {
+      pause.end = end;
+    }
+  }
+
+  /**
+   * Gets the unfinished milestones a milestone is blocked by
+   * @param milestone Milestone
+   * @returns Active milestones listed in its blockedBy
+   */
+  private getBlockers(milestone: IMilestone): IMilestone[] {
+    return (milestone.blockedBy || [])
+      .map(id => this.milestones.get(id))
+      .filter((m): m is IMilestone => m?.status === 'active');
+  }
+
+  /**
+   * Gets a milestone's direct sub-milestones
+   * @param milestoneId Milestone ID
+   * @returns Sub-milestones, oldest first
+   */
+  private getChildren(milestoneId: string): IMilestone[] {
+    return this.getMilestones()
+      .filter(m => m.parentId === milestoneId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Builds the tree node for a milestone and its descendants
+   * @param milestone Milestone
+   * @returns Tree node
+   */
+  private buildNode(milestone: IMilestone): IMilestoneNode {
+    return {
+      milestone,
+      children: this.getChildren(milestone.id).map(m => this.buildNode(m)),
+      progress: this.getMilestoneProgress(milestone.id),
+      blockers: this.getBlockers(milestone),
+    };
+  }
+
+  /**
+   * Gets the repositories a milestone's tag belongs in: every repository owning one of
+   * its modified files (one per root in multi-root workspaces), or the active one
+   * @param filesModified Files modified during the milestone
+   * @returns Map of repository root to the modified files it owns
+   */
+  private async getTagGroups(filesModified: string[]): Promise<Map<string, string[]>> {
+    const groups = await this.gitService.groupByRepository(filesModified);
+    return groups.size > 0 ? groups : new Map([[await this.gitService.resolveRepository(), []]]);
+  }
+
+  /**
+   * Creates the git tag for a completed milestone in a repository, named from the tag
+   * template and, unless lightweight tags are configured, annotated with release notes
+   * @param root Repository root
+   * @param milestone Completed milestone
+   * @param outcome Its karma phala outcome
+   * @param files Modified files in this repository
+   * @param checkpoints Checkpoints created while the milestone was active
+   * @returns Git tag name
+   */
+  private async createGitTag(
+    root: string,
+    milestone: IMilestone,
+    outcome: IKarmaPhala,
+    files: string[],
+    checkpoints: ISutraCheckpoint[]
+  ): Promise<string> {
+    const template = this.config.tagNameTemplate || DEFAULT_TAG_TEMPLATE;
+    const tagName = renderTagName(template, {
+      id: milestone.id,
+      name: milestone.name,
+      score: outcome.score,
+      yatra: this.currentYatra?.id,
+      date: outcome.timestamp,
+      sankalpa: this.currentYatra?.sankalpa,
+      branch: template.includes('{branch}')
+        ? await this.gitService.getCurrentBranch(root)
+        : undefined,
+    });
+    if (this.config.annotatedTags === false) {
+      return this.gitService.createTag(root, tagName);
+    }
+
+    const completedAt = milestone.completedAt ?? outcome.timestamp;
+    const jnana = (this.jnanaSource?.() || []).filter(j => {
+      const capturedAt = j.context?.timestamp ?? 0;
+      return capturedAt >= milestone.createdAt && capturedAt <= completedAt;
+    });
+
+    return this.gitService.createTag(
+      root,
+      tagName,
+      getReleaseNotes({
+        milestone,
+        score: outcome.score,
+        duration: outcome.duration,
+        yatra: this.currentYatra,
+        checkpoints,
+        filesModified: files.map(file => path.relative(root, file)),
+        jnana,
+      })
+    );
+  }
+
   /**
    * Generates a unique ID
    * @returns Unique ID string
@@ -0,0 +1,214 @@
+/**
+ * Line Diff Module
+ *
+ * Computes line-level change statistics between two versions of a file, so a Sutra
+ * checkpoint can tell a one-character fix apart from a 2,000-line rewrite.
+ * Maps to the Karma (action) pillar - measuring the weight of each action.
+ */
+
+/**
+ * Line-level statistics for a single file diff
+ */
+export interface ILineDiffStat {
+  insertions: number;
+  deletions: number;
+  hunks: number;
+}
+
+/**
+ * A run of consecutive changed lines between unchanged lines
+ */
+export interface ILineChangeBlock {
+  newStart: number; // Zero-based index of the block's position in the new text
+  deleted: string[];
+  inserted: string[];
+}
+
+type LineOperation = 'equal' | 'insert' | 'delete';
+
+/**
+ * Largest (old lines x new lines) region diffed exactly; larger regions count as a full rewrite
+ */
+const MAX_DIFF_CELLS = 4000000;
+
+/**
+ * Unchanged lines shown around each change; changes closer than twice this share a hunk (as in git)
+ */
+const HUNK_CONTEXT_LINES = 3;
+
+/**
+ * Computes insertions, deletions and hunk count between two texts
+ * @param oldText Previous contents
+ * @param newText Current contents
+ * @returns Line diff statistics
+ */
+export function diffLines(oldText: string, newText: string): ILineDiffStat {
+  const { operations } = diffTexts(oldText, newText);
+
+  let insertions = 0;
+  let deletions = 0;
+  let hunks = 0;
+  let equalRun = Infinity;
+
+  for (const operation of operations) {
+    if (operation === 'equal') {
+      equalRun++;
+      continue;
+    }
+
+    if (equalRun > HUNK_CONTEXT_LINES * 2) {
+      hunks++;
+    }
+    equalRun = 0;
+
+    if (operation === 'insert') {
+      insertions++;
+    } else {
+      deletions++;
+    }
+  }
+
+  return { insertions, deletions, hunks };
+}
+
+/**
+ * Computes the blocks of changed lines between two texts
+ * @param oldText Previous contents
+ * @param newText Current contents
+ * @returns Change blocks in file order
+ */
+export function diffLineBlocks(oldText: string, newText: string): ILineChangeBlock[] {
+  const { oldLines, newLines, start, operations } = diffTexts(oldText, newText);
+  const blocks: ILineChangeBlock[] = [];
+  let oldIndex = start;
+  let newIndex = start;
+  let current: ILineChangeBlock | undefined;
+
+  for (const operation of operations) {
+    if (operation === 'equal') {
+      current = undefined;
+      oldIndex++;
+      newIndex++;
+      continue;
+    }
+
+    if (!current) {
+      current = { newStart: newIndex, deleted: [], inserted: [] };
+      blocks.push(current);
+    }
+
+    if (operation === 'insert') {
+      current.inserted.push(newLines[newIndex++]);
+    } else {
+      current.deleted.push(oldLines[oldIndex++]);
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Splits both texts and computes the edit script for the region between their
+ * common prefix and suffix, so small edits to large files stay cheap
+ * @param oldText Previous contents
+ * @param newText Current contents
+ * @returns Lines of both texts, the prefix length and the operations after it
+ */
+function diffTexts(
+  oldText: string,
+  newText: string
+): { oldLines: string[]; newLines: string[]; start: number; operations: LineOperation[] } {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const operations = getOperations(oldLines.slice(start, oldEnd), newLines.slice(start, newEnd));
+  return { oldLines, newLines, start, operations };
+}
+
+/**
+ * Splits text into lines, ignoring a single trailing newline
+ * @param text Text to split
+ * @returns Array of lines
+ */
+function splitLines(text: string): string[] {
+  if (text.length === 0) {
+    return [];
+  }
+
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Computes the edit script between two line arrays using a longest common subsequence table
+ * @param oldLines Previous lines
+ * @param newLines Current lines
+ * @returns Sequence of line operations
+ */
+function getOperations(oldLines: string[], newLines: string[]): LineOperation[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...new Array<LineOperation>(n).fill('delete'),
+      ...new Array<LineOperation>(m).fill('insert'),
+    ];
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of oldLines[i..] and newLines[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const operations: LineOperation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      operations.push('equal');
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      operations.push('delete');
+      i++;
+    } else {
+      operations.push('insert');
+      j++;
+    }
+  }
+  while (i++ < n) {
+    operations.push('delete');
+  }
+  while (j++ < m) {
+    operations.push('insert');
+  }
+
+  return operations;
+}
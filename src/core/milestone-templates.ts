@@ -0,0 +1,137 @@
+/**
+ * Milestone Templates Module
+ *
+ * Loads reusable milestone plans - the recurring shapes of work such as
+ * "reproduce → fix → test → PR" - from settings and from `.tridishti` files in the
+ * workspace folders, so a yatra can start with its milestones already laid out.
+ * Maps to the Karma (action) pillar - planning action before taking it.
+ *
+ * Features:
+ * - Templates from the `milestoneTemplates` setting and `.tridishti` files
+ * - Validation of hand-written template definitions
+ * - Recurring templates laid out at the start of every yatra
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Name of the workspace file holding shared templates, as JSON: { "milestoneTemplates": [...] }
+ */
+export const TEMPLATE_FILE = '.tridishti';
+
+/**
+ * One milestone of a template
+ */
+export interface IMilestoneTemplateStep {
+  name: string;
+  targetDuration?: number; // seconds; minutes in settings and template files
+}
+
+/**
+ * A named sequence of milestones, each blocked by the one before it
+ */
+export interface IMilestoneTemplate {
+  name: string;
+  description?: string;
+  recurring?: boolean; // Laid out at the start of every yatra without asking
+  milestones: IMilestoneTemplateStep[];
+}
+
+/**
+ * Loads the templates defined in settings and in the workspace folders' template files.
+ * A workspace template replaces a setting template of the same name.
+ * @param configured Templates from the `milestoneTemplates` setting
+ * @returns Valid templates, workspace templates first
+ * @throws When a template file is not valid JSON
+ */
+export async function loadMilestoneTemplates(
+  configured: unknown[] = []
+): Promise<IMilestoneTemplate[]> {
+  const templates = new Map<string, IMilestoneTemplate>();
+
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    const filePath = path.join(folder.uri.fsPath, TEMPLATE_FILE);
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      continue; // No template file in this folder
+    }
+
+    let parsed: { milestoneTemplates?: unknown };
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid ${TEMPLATE_FILE} in ${folder.name}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    for (const template of parseTemplates(parsed?.milestoneTemplates)) {
+      if (!templates.has(template.name)) {
+        templates.set(template.name, template);
+      }
+    }
+  }
+
+  for (const template of parseTemplates(configured)) {
+    if (!templates.has(template.name)) {
+      templates.set(template.name, template);
+    }
+  }
+
+  return Array.from(templates.values());
+}
+
+/**
+ * Validates hand-written template definitions, skipping invalid templates and steps
+ * @param value Parsed template list
+ * @returns Templates with at least one step, durations converted to seconds
+ */
+export function parseTemplates(value: unknown): IMilestoneTemplate[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const templates: IMilestoneTemplate[] = [];
+  for (const entry of value) {
+    if (!isNamed(entry) || !Array.isArray(entry.milestones)) {
+      continue;
+    }
+
+    const milestones = entry.milestones.filter(isNamed).map(step => ({
+      name: step.name.trim(),
+      targetDuration:
+        typeof step.targetDuration === 'number' && step.targetDuration > 0
+          ? Math.round(step.targetDuration * 60)
+          : undefined,
+    }));
+    if (milestones.length === 0) {
+      continue;
+    }
+
+    templates.push({
+      name: entry.name.trim(),
+      description: typeof entry.description === 'string' ? entry.description : undefined,
+      recurring: entry.recurring === true,
+      milestones,
+    });
+  }
+
+  return templates;
+}
+
+/**
+ * Checks that a parsed value is an object with a non-empty name
+ * @param value Parsed value
+ * @returns True when it has a usable name
+ */
+function isNamed(value: unknown): value is { name: string; [key: string]: unknown } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { name?: unknown }).name === 'string' &&
+    (value as { name: string }).name.trim().length > 0
+  );
+}
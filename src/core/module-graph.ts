@@ -0,0 +1,235 @@
+/**
+ * Module Graph Module
+ *
+ * Builds the dependency graph of TypeScript and JavaScript modules from their import
+ * statements, so drift analysis can tell the modules a piece of work depends on from
+ * unrelated ones, and name the cluster of modules the work is in.
+ * Maps to the Bhakti (reflection) pillar - seeing the shape of the work being done.
+ *
+ * Features:
+ * - Import, export-from, require() and dynamic import() statements
+ * - Relative imports resolved with TypeScript's extension and index file rules
+ * - Transitive dependencies of a set of modules
+ * - Clusters of changed modules that depend on one another
+ */
+
+import * as path from 'path';
+import { isWithin } from './workspace-folders';
+
+/**
+ * Dependency graph of the modules read
+ */
+export interface IModuleGraph {
+  imports: Map<string, string[]>; // Module to the modules it imports, as absolute paths
+}
+
+/**
+ * Extensions tried, in order, for an import without one
+ */
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Most modules read when following imports from the changed files
+ */
+const MAX_GRAPH_MODULES = 200;
+
+/**
+ * Only the start of large files is searched for imports
+ */
+const MAX_IMPORT_SEARCH_LENGTH = 100000;
+
+/**
+ * Module specifiers in import and export statements, require() and dynamic import()
+ */
+const IMPORT_PATTERN =
+  /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+/**
+ * Checks whether a file is a module the graph can follow
+ * @param filePath File path
+ * @returns True for TypeScript and JavaScript files
+ */
+export function isSourceFile(filePath: string): boolean {
+  return SOURCE_EXTENSIONS.includes(path.extname(filePath));
+}
+
+/**
+ * Finds the modules a file imports
+ * @param content File contents
+ * @returns Module specifiers
+ */
+export function parseImports(content: string): string[] {
+  const specifiers: string[] = [];
+  for (const match of content.slice(0, MAX_IMPORT_SEARCH_LENGTH).matchAll(IMPORT_PATTERN)) {
+    specifiers.push(match[1] || match[2]);
+  }
+  return specifiers;
+}
+
+/**
+ * Builds the graph of the given modules only, without reading any other files
+ * @param modules Modules and their contents
+ * @returns Graph whose imports point only at the given modules
+ */
+export function linkModules(modules: { path: string; content?: string }[]): IModuleGraph {
+  const known = new Set(modules.map(module => module.path));
+  const imports = new Map<string, string[]>();
+
+  for (const module of modules) {
+    const targets = parseImports(module.content || '')
+      .map(specifier => getCandidates(module.path, specifier).find(c => known.has(c)))
+      .filter((target): target is string => target !== undefined && target !== module.path);
+    imports.set(module.path, Array.from(new Set(targets)));
+  }
+
+  return { imports };
+}
+
+/**
+ * Builds the graph of the changed modules and the modules they import, transitively
+ * @param files Changed files; files that are not modules are left out
+ * @param readFile Reads a file, resolving to undefined when it does not exist
+ * @returns Module graph
+ */
+export async function buildModuleGraph(
+  files: string[],
+  readFile: (filePath: string) => Promise<string | undefined>
+): Promise<IModuleGraph> {
+  const contents = new Map<string, string | undefined>();
+  const read = async (filePath: string): Promise<string | undefined> => {
+    if (!contents.has(filePath)) {
+      contents.set(filePath, await readFile(filePath));
+    }
+    return contents.get(filePath);
+  };
+
+  const imports = new Map<string, string[]>();
+  const queue = files.filter(isSourceFile);
+  while (queue.length > 0 && imports.size < MAX_GRAPH_MODULES) {
+    const file = queue.shift()!;
+    if (imports.has(file)) {
+      continue;
+    }
+
+    const targets = new Set<string>();
+    for (const specifier of parseImports((await read(file)) || '')) {
+      for (const candidate of getCandidates(file, specifier)) {
+        if ((await read(candidate)) !== undefined) {
+          targets.add(candidate);
+          queue.push(candidate);
+          break;
+        }
+      }
+    }
+    targets.delete(file);
+    imports.set(file, Array.from(targets));
+  }
+
+  return { imports };
+}
+
+/**
+ * Gets every module the given modules depend on, directly or indirectly
+ * @param graph Module graph
+ * @param modules Modules to start from
+ * @returns Dependencies, not including the starting modules unless one depends on another
+ */
+export function getDependencies(graph: IModuleGraph, modules: string[]): Set<string> {
+  const dependencies = new Set<string>();
+  const queue = modules.flatMap(module => graph.imports.get(module) || []);
+
+  while (queue.length > 0) {
+    const module = queue.shift()!;
+    if (!dependencies.has(module)) {
+      dependencies.add(module);
+      queue.push(...(graph.imports.get(module) || []));
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Groups changed modules into clusters, two modules sharing a cluster when one depends on
+ * the other
+ * @param graph Module graph
+ * @param modules Changed modules
+ * @returns Clusters, largest first
+ */
+export function getModuleClusters(graph: IModuleGraph, modules: string[]): string[][] {
+  const parent = new Map(modules.map(module => [module, module]));
+  const find = (module: string): string => {
+    const root = parent.get(module)!;
+    return root === module ? module : find(root);
+  };
+
+  for (const module of modules) {
+    for (const dependency of getDependencies(graph, [module])) {
+      if (parent.has(dependency)) {
+        parent.set(find(dependency), find(module));
+      }
+    }
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const module of modules) {
+    const root = find(module);
+    clusters.set(root, [...(clusters.get(root) || []), module]);
+  }
+
+  return Array.from(clusters.values()).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Names a cluster of modules after the directory they share and the modules in it
+ * @param modules Modules in the cluster
+ * @returns Name such as "auth: login, session, token"
+ */
+export function describeModuleCluster(modules: string[]): string {
+  const names = Array.from(new Set(modules.map(module => moduleName(module))));
+  const listed = names.length > 3 ? [...names.slice(0, 3), `+${names.length - 3} more`] : names;
+
+  const directories = modules.map(module => path.dirname(module));
+  let common = directories[0] || '';
+  while (path.dirname(common) !== common && directories.some(dir => !isWithin(dir, common))) {
+    common = path.dirname(common);
+  }
+  const directory = path.basename(common);
+
+  return directory ? `${directory}: ${listed.join(', ')}` : listed.join(', ');
+}
+
+/**
+ * Gets the paths a relative import may refer to, in the order TypeScript tries them
+ * @param importer Module containing the import
+ * @param specifier Module specifier, e.g. "./session"
+ * @returns Candidate paths; none for package imports
+ */
+function getCandidates(importer: string, specifier: string): string[] {
+  if (!specifier.startsWith('.')) {
+    return [];
+  }
+
+  const base = path.resolve(path.dirname(importer), specifier);
+  const extension = path.extname(base);
+  if (SOURCE_EXTENSIONS.includes(extension)) {
+    // ESM-style TypeScript imports name the compiled .js file
+    const stem = base.slice(0, -extension.length);
+    return [base, ...SOURCE_EXTENSIONS.map(ext => stem + ext)];
+  }
+
+  return [
+    ...SOURCE_EXTENSIONS.map(ext => base + ext),
+    ...SOURCE_EXTENSIONS.map(ext => path.join(base, `index${ext}`)),
+  ];
+}
+
+/**
+ * Gets a module's name, using its directory for index files
+ * @param module Module path
+ * @returns Name without extension
+ */
+function moduleName(module: string): string {
+  const name = path.basename(module, path.extname(module));
+  return name === 'index' ? path.basename(path.dirname(module)) : name;
+}
@@ -3,10 +3,38 @@
  *
  * Represents periodic reflection threads (Sutra) in the coding workflow.
  * Maps to the Karma (action) pillar - tracking work milestones and checkpoints.
+ *
+ * Features:
+ * - Activity-aware scheduling (idle intervals produce no checkpoints)
+ * - Coalesced checkpoints after large edits and test/build runs
+ * - Test and build results (exit status, failing tests) recorded on checkpoints
+ * - Workspace folder attribution in multi-root workspaces
+ * - File content snapshots for restoring earlier states
+ * - Generated summaries for checkpoints created without a message
+ * - Labels, pinning and annotations editable after creation
+ * - Retention policy thinning older checkpoints and their snapshot blobs
+ * - Auto-commits on the current branch, a refs/tridishti namespace or a side branch,
+ *   squashable into a single commit
  */
 
 import * as vscode from 'vscode';
-import { ISutraCheckpoint, ICoreEvent } from './types';
+import { ChangeTracker } from './change-tracker';
+import { GitError, GitService } from './git-service';
+import { diffLines } from './line-diff';
+import { ISnapshotSource, SutraSnapshotStore } from './sutra-snapshot-store';
+import { ISummaryFile, summarizeChanges } from './sutra-summarizer';
+import { classifyCommand, parseFailingTests } from './test-output';
+import { getWorkspaceFolderNames } from './workspace-folders';
+import {
+  ISutraCheckpoint,
+  ISutraDiffStat,
+  ISutraFileSnapshot,
+  ISutraGitCommit,
+  ISutraRunResult,
+  ICoreEvent,
+  SutraCheckpointAnnotations,
+  SutraCheckpointTrigger,
+} from './types';
 
 /**
  * Configuration for sutra checkpoints
@@ -15,8 +43,18 @@ export interface ISutraCheckpointConfig {
   interval: number; // seconds
   autoCommit: boolean;
   enabled: boolean;
+  coalesceDelay?: number; // seconds to wait for a burst of events to settle
+  largeEditThreshold?: number; // lines inserted or replaced by a single edit
+  commitTarget?: 'branch' | 'refs' | 'side-branch'; // where auto-commits are recorded
+  retentionWindow?: number; // minutes in which every checkpoint is kept; unset keeps all
+  thinningInterval?: number; // minutes; older checkpoints are thinned to one per interval
 }
 
+const DEFAULT_COALESCE_DELAY = 5;
+const DEFAULT_LARGE_EDIT_THRESHOLD = 50;
+const DEFAULT_THINNING_INTERVAL = 15;
+const MAX_RUN_OUTPUT = 256 * 1024; // characters of terminal output kept per run
+
 /**
  * Manages periodic checkpoints in the coding workflow
  */
@@ -25,52 +63,470 @@ export class SutraCheckpoints {
   private intervalId?: NodeJS.Timeout;
   private checkpoints: ISutraCheckpoint[] = [];
   private eventEmitter: vscode.EventEmitter<ICoreEvent>;
+  private snapshotStore?: SutraSnapshotStore;
+  private changeTracker?: ChangeTracker;
+  private gitService: GitService;
+  private disposables: vscode.Disposable[] = [];
+  private pendingFiles: Set<string> = new Set();
+  private pendingTrigger?: SutraCheckpointTrigger;
+  private pendingRuns: ISutraRunResult[] = [];
+  private shellOutputs: Map<vscode.TerminalShellExecution, Promise<string>> = new Map();
+  private coalesceTimerId?: NodeJS.Timeout;
+  private sessionId?: string;
 
   /**
    * Creates a new SutraCheckpoints instance
+   * @param config Configuration for checkpoint behavior
+   * @param eventEmitter Event emitter for core events
+   * @param snapshotStore Optional store used to capture file contents for each checkpoint
+   * @param changeTracker Optional shared tracker for changes made outside the editor
+   * @param gitService Git service used for auto-commits
    */
-  constructor(config: ISutraCheckpointConfig, eventEmitter: vscode.EventEmitter<ICoreEvent>) {
+  constructor(
+    config: ISutraCheckpointConfig,
+    eventEmitter: vscode.EventEmitter<ICoreEvent>,
+    snapshotStore?: SutraSnapshotStore,
+    changeTracker?: ChangeTracker,
+    gitService: GitService = new GitService()
+  ) {
     this.config = config;
     this.eventEmitter = eventEmitter;
+    this.snapshotStore = snapshotStore;
+    this.changeTracker = changeTracker;
+    this.gitService = gitService;
   }
 
   /**
-   * Starts the checkpoint interval timer
+   * Starts the checkpoint interval timer and activity listeners. A new yatra starts with
+   * no checkpoints, so retention, restores and squashing never reach another yatra's.
+   * @param sessionId Optional yatra ID used to name the checkpoint ref; kept from the
+   * previous call when omitted
    */
-  public start(): void {
+  public start(sessionId?: string): void {
+    if (sessionId !== undefined && sessionId !== this.sessionId) {
+      this.sessionId = sessionId;
+      this.checkpoints = [];
+      this.snapshotStore?.setSession(sessionId);
+    }
+
     if (!this.config.enabled || this.intervalId) {
       return;
     }
 
     this.intervalId = setInterval(() => {
-      this.createCheckpoint();
+      // A coalesced checkpoint is about to fire; let it absorb this tick
+      if (!this.coalesceTimerId) {
+        this.createTimedCheckpoint('interval');
+      }
     }, this.config.interval * 1000);
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => this.handleDocumentChange(event)),
+      vscode.workspace.onDidSaveTextDocument(doc => this.trackDocument(doc)),
+      vscode.tasks.onDidEndTaskProcess(event => this.handleTaskEnd(event))
+    );
+
+    // Shell integration events only exist in newer VS Code versions
+    if (
+      vscode.window.onDidStartTerminalShellExecution &&
+      vscode.window.onDidEndTerminalShellExecution
+    ) {
+      this.disposables.push(
+        vscode.window.onDidStartTerminalShellExecution(event => this.handleShellStart(event)),
+        vscode.window.onDidEndTerminalShellExecution(event => this.handleShellEnd(event))
+      );
+    }
   }
 
   /**
-   * Stops the checkpoint interval timer
+   * Stops the checkpoint interval timer and activity listeners, ending the yatra's session
    */
   public stop(): void {
+    this.stopListening();
+    this.sessionId = undefined;
+  }
+
+  /**
+   * Stops the checkpoint interval timer and activity listeners, keeping the session
+   */
+  private stopListening(): void {
     if (this.intervalId) {
       clearInterval(this.intervalId);
       this.intervalId = undefined;
     }
+
+    if (this.coalesceTimerId) {
+      clearTimeout(this.coalesceTimerId);
+      this.coalesceTimerId = undefined;
+      this.pendingTrigger = undefined;
+    }
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.shellOutputs.clear();
   }
 
   /**
    * Creates a new checkpoint manually
+   * @param message Optional checkpoint message
+   * @param trigger Why the checkpoint is being created
+   */
+  public async createCheckpoint(
+    message?: string,
+    trigger: SutraCheckpointTrigger = 'manual'
+  ): Promise<ISutraCheckpoint> {
+    return this.recordCheckpoint(await this.getFilesChangedSinceLastCheckpoint(), message, trigger);
+  }
+
+  /**
+   * Records the result of a test, build or other command and schedules a checkpoint
+   * carrying it. When nothing changed since the latest checkpoint, the result is added
+   * to that checkpoint instead.
+   * @param run Result of the run
+   * @param trigger Why the checkpoint is being created
+   */
+  public recordRun(run: ISutraRunResult, trigger: SutraCheckpointTrigger = 'command_end'): void {
+    this.pendingRuns.push(run);
+    this.scheduleCheckpoint(trigger);
+  }
+
+  /**
+   * Gets the latest checkpoint whose recorded runs all passed
+   * @param checkpoints Checkpoints to look in, e.g. the current yatra's; defaults to all
+   * @returns Last green checkpoint, or undefined
+   */
+  public getLastGreenCheckpoint(
+    checkpoints: ISutraCheckpoint[] = this.checkpoints
+  ): ISutraCheckpoint | undefined {
+    return checkpoints
+      .slice()
+      .reverse()
+      .find(cp => cp.runs?.length && cp.runs.every(run => run.passed));
+  }
+
+  /**
+   * Gets all checkpoints
+   */
+  public getCheckpoints(): ISutraCheckpoint[] {
+    return [...this.checkpoints];
+  }
+
+  /**
+   * Gets the latest checkpoint
+   */
+  public getLatestCheckpoint(): ISutraCheckpoint | undefined {
+    return this.checkpoints.length > 0 ? this.checkpoints[this.checkpoints.length - 1] : undefined;
+  }
+
+  /**
+   * Gets a checkpoint by ID
+   * @param id Checkpoint ID
+   * @returns Checkpoint or undefined
+   */
+  public getCheckpoint(id: string): ISutraCheckpoint | undefined {
+    return this.checkpoints.find(cp => cp.id === id);
+  }
+
+  /**
+   * Updates the labels, pin state or annotation of a checkpoint
+   * @param id Checkpoint ID
+   * @param annotations Fields to change; empty labels or annotation clear the field
+   * @returns The updated checkpoint
+   */
+  public annotateCheckpoint(id: string, annotations: SutraCheckpointAnnotations): ISutraCheckpoint {
+    const checkpoint = this.getCheckpoint(id);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint ${id} not found`);
+    }
+
+    if (annotations.labels !== undefined) {
+      const labels = Array.from(
+        new Set(annotations.labels.map(label => label.trim()).filter(label => label))
+      );
+      checkpoint.labels = labels.length > 0 ? labels : undefined;
+    }
+    if (annotations.pinned !== undefined) {
+      checkpoint.pinned = annotations.pinned || undefined;
+    }
+    if (annotations.annotation !== undefined) {
+      checkpoint.annotation = annotations.annotation.trim() || undefined;
+    }
+
+    this.eventEmitter.fire({
+      type: 'checkpoint_updated',
+      timestamp: Date.now(),
+      data: checkpoint,
+    });
+
+    return checkpoint;
+  }
+
+  /**
+   * Finds checkpoints whose message, summary, labels, annotation, roots or files match
+   * every word of a query, pinned checkpoints first and otherwise newest first
+   * @param query Search text; empty matches all checkpoints
+   * @returns Matching checkpoints
+   */
+  public searchCheckpoints(query: string): ISutraCheckpoint[] {
+    const words = query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(word => word);
+
+    return this.checkpoints
+      .filter(checkpoint => {
+        const text = [
+          checkpoint.message,
+          checkpoint.summary,
+          checkpoint.annotation,
+          ...(checkpoint.labels || []),
+          ...(checkpoint.workspaceFolders || []),
+          ...checkpoint.filesChanged,
+        ]
+          .join('\n')
+          .toLowerCase();
+        return words.every(word => text.includes(word));
+      })
+      .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Adopts checkpoints recorded before a restart so retention and restores can see them
+   * @param checkpoints Previously recorded checkpoints
    */
-  public async createCheckpoint(message?: string): Promise<ISutraCheckpoint> {
-    const filesChanged = await this.getChangedFiles();
+  public loadCheckpoints(checkpoints: ISutraCheckpoint[]): void {
+    const known = new Set(this.checkpoints.map(cp => cp.id));
+    this.checkpoints = [...this.checkpoints, ...checkpoints.filter(cp => !known.has(cp.id))].sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+  }
+
+  /**
+   * Applies the retention policy. Checkpoints inside the retention window are kept;
+   * older ones are thinned to the latest per thinning interval. Checkpoints with a message,
+   * labels, a pin or an annotation, the last green checkpoint, and those in the preserve set
+   * (e.g. referenced by milestones) are always kept.
+   * Each removed checkpoint's files, line stats and commits are folded into the next
+   * checkpoint that is kept, and snapshot blobs no longer referenced are deleted.
+   * @param preserve IDs of checkpoints that must be kept
+   * @returns The removed checkpoints
+   */
+  public async compact(preserve: Set<string> = new Set()): Promise<ISutraCheckpoint[]> {
+    if (!this.config.retentionWindow) {
+      return [];
+    }
+
+    const cutoff = Date.now() - this.config.retentionWindow * 60 * 1000;
+    const lastGreen = this.getLastGreenCheckpoint();
+    const interval = (this.config.thinningInterval || DEFAULT_THINNING_INTERVAL) * 60 * 1000;
+
+    // The latest checkpoint in each interval stands in for the others
+    const latestPerInterval = new Map<number, ISutraCheckpoint>();
+    for (const checkpoint of this.checkpoints) {
+      if (checkpoint.timestamp < cutoff) {
+        latestPerInterval.set(Math.floor(checkpoint.timestamp / interval), checkpoint);
+      }
+    }
+
+    const kept: ISutraCheckpoint[] = [];
+    const removed: ISutraCheckpoint[] = [];
+    let folded: ISutraCheckpoint[] = [];
+
+    for (const checkpoint of this.checkpoints) {
+      const keep =
+        checkpoint.timestamp >= cutoff ||
+        !!checkpoint.message ||
+        !!checkpoint.labels?.length ||
+        !!checkpoint.pinned ||
+        !!checkpoint.annotation ||
+        preserve.has(checkpoint.id) ||
+        checkpoint === lastGreen ||
+        latestPerInterval.get(Math.floor(checkpoint.timestamp / interval)) === checkpoint;
+
+      if (!keep) {
+        removed.push(checkpoint);
+        folded.push(checkpoint);
+        continue;
+      }
+
+      if (folded.length > 0) {
+        this.foldInto(checkpoint, folded);
+        folded = [];
+      }
+      kept.push(checkpoint);
+    }
+
+    if (removed.length === 0) {
+      return [];
+    }
+
+    this.checkpoints = kept;
+    await this.deleteUnreferencedBlobs(removed);
+
+    return removed;
+  }
+
+  /**
+   * Restores files to the state captured by a checkpoint
+   * @param checkpoint Checkpoint to restore from
+   * @param files Optional subset of file paths to restore (defaults to all)
+   * @returns Paths that were restored
+   */
+  public async restoreCheckpoint(
+    checkpoint: ISutraCheckpoint,
+    files?: string[]
+  ): Promise<string[]> {
+    if (!this.snapshotStore) {
+      throw new Error('Checkpoint snapshots are not available');
+    }
+    if (!checkpoint.snapshot) {
+      throw new Error(`Checkpoint ${checkpoint.id} has no snapshot to restore`);
+    }
+
+    const entries = files
+      ? checkpoint.snapshot.filter(entry => files.includes(entry.path))
+      : checkpoint.snapshot;
+
+    return this.snapshotStore.restore(entries);
+  }
+
+  /**
+   * Squashes the auto-commits of the given checkpoints into one commit per repository.
+   * On the current branch the checkpoint commits are replaced; with a refs namespace or
+   * side branch the squashed commit is made on the current branch and the ref is deleted.
+   * @param checkpoints Checkpoints whose commits should be squashed
+   * @param message Message for the squashed commit
+   * @returns Hashes of the squashed commits
+   * @throws GitError if HEAD no longer contains the current branch's checkpoint commits
+   */
+  public async squashCheckpoints(
+    checkpoints: ISutraCheckpoint[],
+    message: string
+  ): Promise<string[]> {
+    const commitsByRoot = new Map<string, ISutraGitCommit[]>();
+    for (const commit of checkpoints.flatMap(cp => cp.gitCommits || [])) {
+      commitsByRoot.set(commit.root, [...(commitsByRoot.get(commit.root) || []), commit]);
+    }
+
+    // Branch commits are squashed by resetting HEAD, which is only safe while HEAD still
+    // builds on them; after a branch switch or rebase it would fold in unrelated history
+    for (const [root, commits] of commitsByRoot) {
+      const [first] = commits;
+      const last = commits[commits.length - 1];
+      if (
+        !first.ref &&
+        first.parent &&
+        !(
+          (await this.gitService.isAncestor(root, last.hash, 'HEAD')) &&
+          (await this.gitService.isAncestor(root, first.parent, 'HEAD'))
+        )
+      ) {
+        throw new GitError(
+          'command_failed',
+          `HEAD in ${root} no longer contains the checkpoint commits; it was switched or rewritten since they were made`,
+          ['merge-base', '--is-ancestor', last.hash, 'HEAD'],
+          root
+        );
+      }
+    }
+
+    const hashes: string[] = [];
+    for (const [root, commits] of commitsByRoot) {
+      const [first] = commits;
+      if (!first.ref && first.parent) {
+        await this.gitService.resetSoft(root, first.parent);
+      }
+
+      try {
+        hashes.push(await this.gitService.commitAll(root, message));
+      } catch (error) {
+        if (!(error instanceof GitError) || error.code !== 'nothing_to_commit') {
+          throw error;
+        }
+      }
+
+      for (const ref of new Set(commits.map(commit => commit.ref))) {
+        if (ref) {
+          await this.gitService.deleteRef(root, ref);
+        }
+      }
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Updates the configuration
+   */
+  public updateConfig(config: Partial<ISutraCheckpointConfig>): void {
+    this.config = { ...this.config, ...config };
+
+    if (this.config.enabled && !this.intervalId) {
+      this.start();
+    } else if (!this.config.enabled && this.intervalId) {
+      // Disabling mid-yatra keeps its ID for when checkpoints are enabled again
+      this.stopListening();
+    }
+  }
+
+  /**
+   * Records a checkpoint for the given changes, capturing snapshots and committing if configured
+   * @param filesSinceLastCheckpoint Files changed since the previous checkpoint
+   * @param message Optional checkpoint message
+   * @param trigger Why the checkpoint is being created
+   * @param runs Test and build results to attach
+   * @returns The recorded checkpoint
+   */
+  private async recordCheckpoint(
+    filesSinceLastCheckpoint: string[],
+    message: string | undefined,
+    trigger: SutraCheckpointTrigger,
+    runs: ISutraRunResult[] = []
+  ): Promise<ISutraCheckpoint> {
+    const changedDocuments = this.getChangedDocuments();
+    const filesChanged = Array.from(
+      new Set([...changedDocuments.map(doc => doc.uri.fsPath), ...filesSinceLastCheckpoint])
+    );
+    this.pendingFiles.clear();
+
     const checkpoint: ISutraCheckpoint = {
       id: this.generateId(),
       timestamp: Date.now(),
       message,
       filesChanged,
+      trigger,
     };
 
+    if (runs.length > 0) {
+      checkpoint.runs = runs;
+    }
+
+    const workspaceFolders = getWorkspaceFolderNames(filesChanged);
+    if (workspaceFolders.length > 0) {
+      checkpoint.workspaceFolders = workspaceFolders;
+    }
+
+    let fileDiffs: ISummaryFile[] = [];
+    if (this.snapshotStore) {
+      const previousSnapshot = this.getLatestCheckpoint()?.snapshot || [];
+      checkpoint.snapshot = await this.snapshotStore.snapshot(
+        this.getSnapshotSources(changedDocuments, filesChanged)
+      );
+      const { files, stats } = await this.diffSnapshots(previousSnapshot, checkpoint.snapshot);
+      fileDiffs = files;
+      checkpoint.diffStats = stats;
+    }
+
+    if (!message) {
+      checkpoint.summary = summarizeChanges(
+        fileDiffs.length > 0
+          ? fileDiffs
+          : filesChanged.map(filePath => ({ path: filePath, status: 'modified' as const }))
+      );
+    }
+
     if (this.config.autoCommit) {
-      checkpoint.gitCommitHash = await this.createGitCommit(message || 'Sutra checkpoint');
+      await this.commitCheckpoint(checkpoint);
     }
 
     this.checkpoints.push(checkpoint);
@@ -85,69 +541,415 @@ export class SutraCheckpoints {
   }
 
   /**
-   * Gets all checkpoints
+   * Creates a checkpoint only if files were edited or saved since the last one,
+   * or to record pending run results
+   * @param trigger Why the checkpoint is being created
+   * @returns The checkpoint, or undefined when there was no activity
    */
-  public getCheckpoints(): ISutraCheckpoint[] {
-    return [...this.checkpoints];
+  private async createActivityCheckpoint(
+    trigger: SutraCheckpointTrigger
+  ): Promise<ISutraCheckpoint | undefined> {
+    const runs = this.pendingRuns;
+    this.pendingRuns = [];
+
+    const filesSinceLastCheckpoint = await this.getFilesChangedSinceLastCheckpoint();
+    const latest = this.getLatestCheckpoint();
+
+    if (filesSinceLastCheckpoint.length === 0) {
+      if (runs.length === 0) {
+        return undefined;
+      }
+
+      // Nothing changed, so the runs tested the latest checkpoint's state
+      if (latest) {
+        latest.runs = [...(latest.runs || []), ...runs];
+        this.eventEmitter.fire({
+          type: 'checkpoint_updated',
+          timestamp: Date.now(),
+          data: latest,
+        });
+        return latest;
+      }
+    }
+
+    return this.recordCheckpoint(filesSinceLastCheckpoint, undefined, trigger, runs);
   }
 
   /**
-   * Gets the latest checkpoint
+   * Gets files edited, saved or changed on disk since the previous checkpoint
+   * @returns Array of file paths
    */
-  public getLatestCheckpoint(): ISutraCheckpoint | undefined {
-    return this.checkpoints.length > 0 ? this.checkpoints[this.checkpoints.length - 1] : undefined;
+  private async getFilesChangedSinceLastCheckpoint(): Promise<string[]> {
+    const files = new Set(this.pendingFiles);
+
+    if (this.changeTracker?.isTracking()) {
+      const since = this.getLatestCheckpoint()?.timestamp ?? 0;
+      for (const change of await this.changeTracker.getChangeSet(since)) {
+        files.add(change.path);
+      }
+    }
+
+    return Array.from(files);
   }
 
   /**
-   * Updates the configuration
+   * Creates an activity checkpoint from a timer, where a failure has no caller to go to
+   * @param trigger Why the checkpoint is being created
    */
-  public updateConfig(config: Partial<ISutraCheckpointConfig>): void {
-    this.config = { ...this.config, ...config };
+  private createTimedCheckpoint(trigger: SutraCheckpointTrigger): void {
+    this.createActivityCheckpoint(trigger).catch(error => {
+      console.warn('Failed to create checkpoint:', error);
+    });
+  }
 
-    if (this.config.enabled && !this.intervalId) {
-      this.start();
-    } else if (!this.config.enabled && this.intervalId) {
-      this.stop();
+  /**
+   * Schedules a checkpoint once a burst of events has settled
+   * @param trigger Why the checkpoint is being created
+   */
+  private scheduleCheckpoint(trigger: SutraCheckpointTrigger): void {
+    if (this.coalesceTimerId) {
+      clearTimeout(this.coalesceTimerId);
+    }
+
+    this.pendingTrigger = trigger;
+    this.coalesceTimerId = setTimeout(
+      () => {
+        const pendingTrigger = this.pendingTrigger || trigger;
+        this.coalesceTimerId = undefined;
+        this.pendingTrigger = undefined;
+        this.createTimedCheckpoint(pendingTrigger);
+      },
+      (this.config.coalesceDelay ?? DEFAULT_COALESCE_DELAY) * 1000
+    );
+  }
+
+  /**
+   * Records edits and schedules a checkpoint after large changes such as pastes
+   * @param event Document change event
+   */
+  private handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+    if (event.document.uri.scheme !== 'file' || event.contentChanges.length === 0) {
+      return;
+    }
+
+    this.trackDocument(event.document);
+
+    const linesChanged = event.contentChanges.reduce(
+      (sum, change) =>
+        sum +
+        change.text.split('\n').length -
+        1 +
+        (change.range.end.line - change.range.start.line),
+      0
+    );
+
+    if (linesChanged >= (this.config.largeEditThreshold ?? DEFAULT_LARGE_EDIT_THRESHOLD)) {
+      this.scheduleCheckpoint('large_edit');
+    }
+  }
+
+  /**
+   * Schedules a checkpoint after a test or build task finishes
+   * @param event Task process end event
+   */
+  private handleTaskEnd(event: vscode.TaskProcessEndEvent): void {
+    const task = event.execution.task;
+    if (task.group !== vscode.TaskGroup.Test && task.group !== vscode.TaskGroup.Build) {
+      return;
+    }
+
+    this.recordRun(
+      {
+        kind: task.group === vscode.TaskGroup.Test ? 'test' : 'build',
+        name: task.name,
+        exitCode: event.exitCode,
+        passed: event.exitCode === 0,
+      },
+      'task_end'
+    );
+  }
+
+  /**
+   * Starts collecting the output of test and build commands run in a terminal
+   * @param event Shell execution start event
+   */
+  private handleShellStart(event: vscode.TerminalShellExecutionStartEvent): void {
+    if (classifyCommand(event.execution.commandLine.value)) {
+      this.shellOutputs.set(event.execution, this.readShellOutput(event.execution));
+    }
+  }
+
+  /**
+   * Records the result of a test or build command run in a terminal
+   * @param event Shell execution end event
+   */
+  private async handleShellEnd(event: vscode.TerminalShellExecutionEndEvent): Promise<void> {
+    const output = this.shellOutputs.get(event.execution);
+    const commandLine = event.execution.commandLine.value;
+    const kind = classifyCommand(commandLine);
+    if (!output || !kind) {
+      return;
+    }
+    this.shellOutputs.delete(event.execution);
+
+    const failingTests = kind === 'test' ? parseFailingTests(await output) : [];
+    this.recordRun({
+      kind,
+      name: commandLine,
+      exitCode: event.exitCode,
+      passed: event.exitCode === 0,
+      ...(failingTests.length > 0 ? { failingTests } : {}),
+    });
+  }
+
+  /**
+   * Reads a terminal command's output, keeping only the most recent part
+   * @param execution Shell execution
+   * @returns Output once the command finishes
+   */
+  private async readShellOutput(execution: vscode.TerminalShellExecution): Promise<string> {
+    let output = '';
+    try {
+      for await (const data of execution.read()) {
+        output = (output + data).slice(-MAX_RUN_OUTPUT);
+      }
+    } catch {
+      // Output is best effort; the exit code is still recorded
+    }
+    return output;
+  }
+
+  /**
+   * Marks a document as changed since the last checkpoint
+   * @param doc Edited or saved document
+   */
+  private trackDocument(doc: vscode.TextDocument): void {
+    if (doc.uri.scheme === 'file') {
+      this.pendingFiles.add(doc.uri.fsPath);
     }
   }
 
   /**
-   * Gets list of changed files from the workspace
+   * Gets changed (dirty) file documents from the workspace
    */
-  private async getChangedFiles(): Promise<string[]> {
+  private getChangedDocuments(): vscode.TextDocument[] {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders || workspaceFolders.length === 0) {
       return [];
     }
 
-    const files: string[] = [];
-    const textDocuments = vscode.workspace.textDocuments.filter(doc => doc.isDirty);
+    return vscode.workspace.textDocuments.filter(doc => doc.isDirty && doc.uri.scheme === 'file');
+  }
+
+  /**
+   * Builds snapshot sources for a checkpoint.
+   * Files captured by the previous checkpoint are carried forward so every snapshot
+   * describes the full set of files touched during the session, not just the latest edits.
+   * @param changedDocuments Dirty documents whose buffer contents should be captured
+   * @param filesChanged All files changed since the last checkpoint
+   */
+  private getSnapshotSources(
+    changedDocuments: vscode.TextDocument[],
+    filesChanged: string[]
+  ): ISnapshotSource[] {
+    const sources = new Map<string, ISnapshotSource>();
+
+    for (const entry of this.getLatestCheckpoint()?.snapshot || []) {
+      sources.set(entry.path, { path: entry.path });
+    }
+
+    for (const file of filesChanged) {
+      sources.set(file, { path: file });
+    }
 
-    for (const doc of textDocuments) {
-      if (doc.uri.scheme === 'file') {
-        files.push(doc.uri.fsPath);
+    for (const doc of changedDocuments) {
+      sources.set(doc.uri.fsPath, { path: doc.uri.fsPath, content: doc.getText() });
+    }
+
+    return Array.from(sources.values());
+  }
+
+  /**
+   * Compares two snapshots file by file. Files first seen in this checkpoint are compared
+   * against their committed (HEAD) version when a change tracker is available, and their
+   * line statistics against an empty file otherwise. Binary contents are left out.
+   * @param previous Snapshot of the previous checkpoint
+   * @param current Snapshot of the new checkpoint
+   * @returns Changed files with their known contents, and line statistics for text files
+   */
+  private async diffSnapshots(
+    previous: ISutraFileSnapshot[],
+    current: ISutraFileSnapshot[]
+  ): Promise<{ files: ISummaryFile[]; stats: ISutraDiffStat[] }> {
+    const files: ISummaryFile[] = [];
+    const stats: ISutraDiffStat[] = [];
+    const isText = (text?: string): text is string => text !== undefined && !text.includes('\0');
+
+    for (const entry of current) {
+      const previousEntry = previous.find(p => p.path === entry.path);
+      if (previousEntry && previousEntry.hash === entry.hash) {
+        continue;
+      }
+
+      const newText = await this.readSnapshotText(entry);
+      let oldText: string | undefined;
+      let status: ISummaryFile['status'] = entry.hash ? 'modified' : 'deleted';
+
+      if (previousEntry) {
+        oldText = await this.readSnapshotText(previousEntry);
+      } else if (this.changeTracker) {
+        oldText = await this.changeTracker.getBaseContent(entry.path);
+        if (oldText === undefined && entry.hash) {
+          status = 'added';
+          oldText = '';
+        }
+      }
+
+      files.push({
+        path: entry.path,
+        status,
+        oldText: isText(oldText) ? oldText : undefined,
+        newText: isText(newText) ? newText : undefined,
+      });
+
+      // A missing previous blob leaves nothing reliable to compare against
+      const baseline = previousEntry ? oldText : (oldText ?? '');
+      if (isText(baseline) && isText(newText)) {
+        const stat = diffLines(baseline, newText);
+        if (stat.insertions > 0 || stat.deletions > 0) {
+          stats.push({ path: entry.path, ...stat });
+        }
       }
     }
 
-    return files;
+    return { files, stats };
+  }
+
+  /**
+   * Reads a snapshot entry as text
+   * @param entry Snapshot entry
+   * @returns File text, empty for deleted files, undefined if the blob is missing
+   */
+  private async readSnapshotText(entry: ISutraFileSnapshot): Promise<string | undefined> {
+    if (!entry.hash) {
+      return '';
+    }
+    return (await this.snapshotStore?.read(entry.hash))?.toString('utf-8');
   }
 
   /**
-   * Creates a git commit if auto-commit is enabled
+   * Commits tracked changes in every repository that owns one of the checkpoint's files.
+   * Failures other than an empty commit are recorded on the checkpoint as gitError.
+   * @param checkpoint Checkpoint being recorded
    */
-  private async createGitCommit(message: string): Promise<string | undefined> {
+  private async commitCheckpoint(checkpoint: ISutraCheckpoint): Promise<void> {
+    const message = checkpoint.message || checkpoint.summary || 'Sutra checkpoint';
+
     try {
-      const { execSync } = await import('child_process');
-      // Sanitize message to prevent command injection
-      const sanitizedMessage = message.replace(/"/g, '\\"').replace(/`/g, '\\`').replace(/\$/g, '\\$');
-      const result = execSync(`git commit -am "${sanitizedMessage}"`, { encoding: 'utf-8' });
-      const match = result.match(/\[([a-f0-9]+)\]/);
-      return match ? match[1] : undefined;
+      const roots =
+        checkpoint.filesChanged.length > 0
+          ? Array.from((await this.gitService.groupByRepository(checkpoint.filesChanged)).keys())
+          : [await this.gitService.resolveRepository()];
+
+      for (const root of roots) {
+        try {
+          const commit = await this.commitInRepository(root, message);
+          checkpoint.gitCommits = [...(checkpoint.gitCommits || []), commit];
+          checkpoint.gitCommitHash = checkpoint.gitCommitHash || commit.hash;
+        } catch (error) {
+          if (!(error instanceof GitError) || error.code !== 'nothing_to_commit') {
+            throw error;
+          }
+        }
+      }
     } catch (error) {
-      return undefined;
+      if (!(error instanceof GitError)) {
+        throw error;
+      }
+      checkpoint.gitError = error.message;
     }
   }
 
+  /**
+   * Commits to the configured target in one repository
+   * @param root Repository root
+   * @param message Commit message
+   * @returns The recorded commit
+   */
+  private async commitInRepository(root: string, message: string): Promise<ISutraGitCommit> {
+    const target = this.config.commitTarget || 'branch';
+
+    if (target === 'branch') {
+      const parent = await this.gitService.getHead(root).catch(() => undefined);
+      return { root, hash: await this.gitService.commitAll(root, message), parent };
+    }
+
+    const name = `tridishti/${this.sessionId || 'checkpoints'}`;
+    const ref = target === 'refs' ? `refs/${name}` : `refs/heads/${name}`;
+    return { root, ref, ...(await this.gitService.commitToRef(root, ref, message)) };
+  }
+
+  /**
+   * Merges the changes of removed checkpoints into the checkpoint that follows them
+   * @param checkpoint Checkpoint being kept
+   * @param removed Earlier checkpoints being removed, oldest first
+   */
+  private foldInto(checkpoint: ISutraCheckpoint, removed: ISutraCheckpoint[]): void {
+    const all = [...removed, checkpoint];
+
+    checkpoint.filesChanged = Array.from(new Set(all.flatMap(cp => cp.filesChanged)));
+
+    const workspaceFolders = Array.from(new Set(all.flatMap(cp => cp.workspaceFolders || [])));
+    if (workspaceFolders.length > 0) {
+      checkpoint.workspaceFolders = workspaceFolders;
+    }
+
+    const stats = new Map<string, ISutraDiffStat>();
+    for (const stat of all.flatMap(cp => cp.diffStats || [])) {
+      const existing = stats.get(stat.path);
+      stats.set(
+        stat.path,
+        existing
+          ? {
+              path: stat.path,
+              insertions: existing.insertions + stat.insertions,
+              deletions: existing.deletions + stat.deletions,
+              hunks: existing.hunks + stat.hunks,
+            }
+          : { ...stat }
+      );
+    }
+    if (stats.size > 0) {
+      checkpoint.diffStats = Array.from(stats.values());
+    }
+
+    // Squashing needs the first commit of each chain to find where it started
+    const commits = all.flatMap(cp => cp.gitCommits || []);
+    if (commits.length > 0) {
+      checkpoint.gitCommits = commits;
+      checkpoint.gitCommitHash = checkpoint.gitCommitHash || commits[commits.length - 1].hash;
+    }
+  }
+
+  /**
+   * Deletes snapshot blobs that only removed checkpoints referred to
+   * @param removed Removed checkpoints
+   */
+  private async deleteUnreferencedBlobs(removed: ISutraCheckpoint[]): Promise<void> {
+    if (!this.snapshotStore) {
+      return;
+    }
+
+    const live = new Set(
+      this.checkpoints.flatMap(cp => (cp.snapshot || []).map(entry => entry.hash))
+    );
+    const orphaned = removed
+      .flatMap(cp => (cp.snapshot || []).map(entry => entry.hash))
+      .filter((hash): hash is string => !!hash && !live.has(hash));
+
+    await this.snapshotStore.deleteBlobs(Array.from(new Set(orphaned)));
+  }
+
   /**
    * Generates a unique ID for checkpoints
    */
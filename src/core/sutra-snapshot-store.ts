@@ -0,0 +1,186 @@
+/**
+ * Sutra Snapshot Store Module
+ *
+ * Content-addressed storage for the file contents behind each Sutra checkpoint.
+ * Snapshots live in the extension's private storage, never in the user's repository,
+ * so checkpoints can be restored or diffed without touching their git history.
+ * Maps to the Karma (action) pillar - preserving the work woven into each thread.
+ *
+ * Features:
+ * - SHA-256 addressed blob storage
+ * - Deduplication of unchanged content across checkpoints
+ * - Restoration of files (including deletions) from stored blobs
+ * - Deletion of blobs no longer referenced by any checkpoint
+ * - A separate blob directory per yatra, so one yatra's retention never touches another's
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ISutraFileSnapshot } from './types';
+
+/**
+ * A file to be captured in a snapshot
+ */
+export interface ISnapshotSource {
+  path: string;
+  content?: string; // Unsaved editor contents; read from disk when omitted
+}
+
+/**
+ * Stores checkpoint file contents outside the user's working tree
+ */
+export class SutraSnapshotStore {
+  private rootDir: string;
+  private sessionDir: string;
+
+  /**
+   * Creates a new SutraSnapshotStore instance
+   * @param rootDir Directory used for blob storage (e.g. extension storage path)
+   */
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+    this.sessionDir = rootDir;
+  }
+
+  /**
+   * Stores and reads the blobs of the given yatra in a directory of its own
+   * @param sessionId Yatra ID; blobs are shared when undefined
+   */
+  public setSession(sessionId?: string): void {
+    this.sessionDir = sessionId ? path.join(this.rootDir, 'yatras', sessionId) : this.rootDir;
+  }
+
+  /**
+   * Captures the current contents of the given files
+   * @param sources Files to capture, with optional in-memory contents
+   * @returns Snapshot manifest entries, one per source
+   */
+  public async snapshot(sources: ISnapshotSource[]): Promise<ISutraFileSnapshot[]> {
+    const entries: ISutraFileSnapshot[] = [];
+
+    for (const source of sources) {
+      const content =
+        source.content !== undefined
+          ? Buffer.from(source.content, 'utf-8')
+          : await this.readWorkingFile(source.path);
+
+      if (!content) {
+        // File no longer exists; record the deletion so restore can replay it
+        entries.push({ path: source.path });
+        continue;
+      }
+
+      const hash = await this.writeBlob(content);
+      entries.push({ path: source.path, hash, size: content.length });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Reads a stored blob
+   * @param hash Content hash of the blob
+   * @returns Blob contents or undefined if missing
+   */
+  public async read(hash: string): Promise<Buffer | undefined> {
+    // Blobs stored before yatras had a directory of their own are still shared
+    for (const dir of new Set([this.sessionDir, this.rootDir])) {
+      try {
+        return await fs.readFile(this.getBlobPathIn(dir, hash));
+      } catch {
+        // Try the next directory
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Gets the on-disk location of a blob, e.g. for opening it in a diff editor
+   * @param hash Content hash of the blob
+   * @returns Absolute blob path
+   */
+  public getBlobPath(hash: string): string {
+    return this.getBlobPathIn(this.sessionDir, hash);
+  }
+
+  /**
+   * Restores files to the contents recorded in a snapshot
+   * @param entries Snapshot entries to restore
+   * @returns Paths that were written or removed
+   */
+  public async restore(entries: ISutraFileSnapshot[]): Promise<string[]> {
+    const restored: string[] = [];
+
+    for (const entry of entries) {
+      if (!entry.hash) {
+        await fs.rm(entry.path, { force: true });
+        restored.push(entry.path);
+        continue;
+      }
+
+      const content = await this.read(entry.hash);
+      if (!content) {
+        throw new Error(`Snapshot blob missing for ${entry.path}`);
+      }
+
+      await fs.mkdir(path.dirname(entry.path), { recursive: true });
+      await fs.writeFile(entry.path, content);
+      restored.push(entry.path);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Deletes stored blobs; missing blobs are ignored
+   * @param hashes Content hashes of the blobs
+   */
+  public async deleteBlobs(hashes: string[]): Promise<void> {
+    for (const hash of hashes) {
+      await fs.rm(this.getBlobPath(hash), { force: true });
+    }
+  }
+
+  /**
+   * Writes a blob if it is not already stored
+   * @param content Blob contents
+   * @returns Content hash
+   */
+  private async writeBlob(content: Buffer): Promise<string> {
+    const hash = createHash('sha256').update(content).digest('hex');
+    const blobPath = this.getBlobPath(hash);
+
+    try {
+      await fs.access(blobPath);
+    } catch {
+      await fs.mkdir(path.dirname(blobPath), { recursive: true });
+      await fs.writeFile(blobPath, content);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Gets the location of a blob within a blob directory
+   * @param dir Yatra or shared blob directory
+   * @param hash Content hash of the blob
+   * @returns Absolute blob path
+   */
+  private getBlobPathIn(dir: string, hash: string): string {
+    return path.join(dir, 'objects', hash.substring(0, 2), hash.substring(2));
+  }
+
+  /**
+   * Reads a file from the working tree
+   * @param filePath Absolute file path
+   * @returns File contents or undefined if it does not exist
+   */
+  private async readWorkingFile(filePath: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(filePath);
+    } catch {
+      return undefined;
+    }
+  }
+}
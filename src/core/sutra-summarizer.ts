@@ -0,0 +1,289 @@
+/**
+ * Sutra Summarizer Module
+ *
+ * Derives a readable, deterministic checkpoint message from the changes it captured,
+ * so checkpoints created without a message still read as a timeline of the work.
+ * Runs entirely locally: the summary depends only on the file contents involved.
+ *
+ * Features:
+ * - Added, removed and updated symbols (functions, classes, types, variables)
+ * - Renamed identifiers
+ * - Test files reported separately from source files
+ * - File-level fallback when contents are unavailable
+ */
+
+import * as path from 'path';
+import { diffLineBlocks, ILineChangeBlock } from './line-diff';
+
+/**
+ * A changed file to summarize
+ */
+export interface ISummaryFile {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  oldText?: string; // Undefined when the previous contents are unknown
+  newText?: string; // Undefined when the current contents are unknown
+}
+
+/**
+ * Names listed before the rest are collapsed into "+N more"
+ */
+const MAX_LISTED_NAMES = 3;
+
+/**
+ * Declarations recognised across common languages; the first capture group is the name
+ */
+const DECLARATION_PATTERNS: RegExp[] = [
+  /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum)\s+([A-Za-z_$][\w$]*)/,
+  /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]*)?=/,
+  /^\s*(?:public|private|protected)?\s*(?:static\s+)?(?:readonly\s+)?(?:async\s+)?([A-Za-z_$][\w$]*)\s*\([^)]*\)\s*(?::[^{]*)?\{\s*$/,
+  /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/,
+  /^\s*class\s+([A-Za-z_]\w*)/,
+  /^\s*func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/,
+  /^\s*(?:pub\s+)?fn\s+([A-Za-z_]\w*)/,
+];
+
+/**
+ * Words that look like method declarations but are control flow
+ */
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'with']);
+
+/**
+ * Summarizes a set of file changes as a single line
+ * @param files Changed files
+ * @returns Summary, or undefined if there is nothing to summarize
+ */
+export function summarizeChanges(files: ISummaryFile[]): string | undefined {
+  if (files.length === 0) {
+    return undefined;
+  }
+
+  const tests = files.filter(file => isTestFile(file.path));
+  const sources = files.filter(file => !isTestFile(file.path));
+  const parts: string[] = [];
+
+  if (sources.length > 0) {
+    parts.push(summarizeSources(sources));
+  }
+
+  if (tests.length > 0) {
+    const verb = tests.every(file => file.status === 'added') ? 'add' : 'update';
+    parts.push(`${verb} tests (${listNames(tests.map(file => path.basename(file.path)))})`);
+  }
+
+  const summary = parts.join('; ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
+
+/**
+ * Checks whether a path looks like a test file
+ * @param filePath File path
+ * @returns True for test and spec files
+ */
+export function isTestFile(filePath: string): boolean {
+  return (
+    /(^|[/\\])(__tests__|tests?|spec)[/\\]/.test(filePath) ||
+    /[._-](test|spec)\.[^./\\]+$/.test(filePath) ||
+    /(^|[/\\])test_[^/\\]+\.py$/.test(filePath)
+  );
+}
+
+/**
+ * Summarizes source (non-test) files by symbol where possible, by file otherwise
+ * @param files Source files
+ * @returns Summary fragment
+ */
+function summarizeSources(files: ISummaryFile[]): string {
+  const renamed = new Map<string, string>();
+  const added = new Set<string>();
+  const removed = new Set<string>();
+  const updated = new Set<string>();
+
+  for (const file of files) {
+    if (file.status !== 'modified' || file.oldText === undefined || file.newText === undefined) {
+      continue;
+    }
+
+    const symbols = analyzeFile(file.oldText, file.newText);
+    symbols.renamed.forEach((to, from) => renamed.set(from, to));
+    symbols.added.forEach(name => added.add(name));
+    symbols.removed.forEach(name => removed.add(name));
+    symbols.updated.forEach(name => updated.add(name));
+  }
+
+  const clauses: string[] = [];
+  const newFiles = files.filter(file => file.status === 'added');
+  const deletedFiles = files.filter(file => file.status === 'deleted');
+
+  if (renamed.size > 0) {
+    clauses.push(`rename ${listNames(Array.from(renamed).map(([from, to]) => `${from} → ${to}`))}`);
+  }
+  if (newFiles.length > 0) {
+    clauses.push(`add ${listNames(newFiles.map(file => path.basename(file.path)))}`);
+  }
+  if (added.size > 0) {
+    clauses.push(`add ${listNames(Array.from(added))}`);
+  }
+  if (updated.size > 0) {
+    clauses.push(`update ${listNames(Array.from(updated))}`);
+  }
+  if (removed.size > 0) {
+    clauses.push(`remove ${listNames(Array.from(removed))}`);
+  }
+  if (deletedFiles.length > 0) {
+    clauses.push(`delete ${listNames(deletedFiles.map(file => path.basename(file.path)))}`);
+  }
+
+  const modified = files.filter(file => file.status === 'modified');
+  const hasSymbols = renamed.size + added.size + updated.size + removed.size > 0;
+  if (!hasSymbols) {
+    if (modified.length > 0) {
+      clauses.push(`edit ${listNames(modified.map(file => path.basename(file.path)))}`);
+    }
+    return clauses.join(', ');
+  }
+
+  const location =
+    modified.length === 1
+      ? ` in ${path.basename(modified[0].path)}`
+      : ` across ${modified.length} files`;
+  return clauses.join(', ') + location;
+}
+
+/**
+ * Finds the symbols affected by a change to one file
+ * @param oldText Previous contents
+ * @param newText Current contents
+ * @returns Renamed, added, removed and updated symbols
+ */
+function analyzeFile(
+  oldText: string,
+  newText: string
+): { renamed: Map<string, string>; added: string[]; removed: string[]; updated: string[] } {
+  const blocks = diffLineBlocks(oldText, newText);
+  const newLines = newText.split(/\r?\n/);
+  const renamed = findRenames(blocks);
+
+  const declaredBefore = new Set(blocks.flatMap(block => declarations(block.deleted)));
+  const declaredAfter = new Set(blocks.flatMap(block => declarations(block.inserted)));
+  const renamedTo = new Set(renamed.values());
+
+  const added = Array.from(declaredAfter).filter(
+    name => !declaredBefore.has(name) && !renamedTo.has(name)
+  );
+  const removed = Array.from(declaredBefore).filter(
+    name => !declaredAfter.has(name) && !renamed.has(name)
+  );
+
+  // Changes inside a symbol's body are attributed to the nearest declaration above them
+  const updated = new Set<string>();
+  for (const block of blocks) {
+    const enclosing = findEnclosingDeclaration(newLines, block.newStart);
+    if (enclosing && !added.includes(enclosing) && !renamedTo.has(enclosing)) {
+      updated.add(enclosing);
+    }
+  }
+  for (const name of declaredAfter) {
+    if (declaredBefore.has(name)) {
+      updated.add(name);
+    }
+  }
+
+  return { renamed, added, removed, updated: Array.from(updated) };
+}
+
+/**
+ * Detects declarations renamed in place across changed line pairs
+ * @param blocks Change blocks
+ * @returns Map of old name to new name
+ */
+function findRenames(blocks: ILineChangeBlock[]): Map<string, string> {
+  const renames = new Map<string, string>();
+
+  for (const block of blocks) {
+    if (block.deleted.length !== block.inserted.length) {
+      continue;
+    }
+
+    block.deleted.forEach((line, i) => {
+      const before = line.split(/([^\w$]+)/);
+      const after = block.inserted[i].split(/([^\w$]+)/);
+      if (before.length !== after.length) {
+        return;
+      }
+
+      const differing = before
+        .map((token, j) => [token, after[j]])
+        .filter(([from, to]) => from !== to);
+      const distinct = new Set(differing.map(([from, to]) => `${from}\0${to}`));
+      if (distinct.size !== 1) {
+        return;
+      }
+
+      // Only renamed declarations count; other single-token edits are ordinary changes
+      const [from, to] = differing[0];
+      if (
+        declarationName(line) === from &&
+        declarationName(block.inserted[i]) === to &&
+        !renames.has(from)
+      ) {
+        renames.set(from, to);
+      }
+    });
+  }
+
+  return renames;
+}
+
+/**
+ * Extracts declared symbol names from lines
+ * @param lines Source lines
+ * @returns Declared names
+ */
+export function declarations(lines: string[]): string[] {
+  return lines.map(declarationName).filter((name): name is string => name !== undefined);
+}
+
+/**
+ * Gets the symbol declared on a line
+ * @param line Source line
+ * @returns Declared name, or undefined
+ */
+function declarationName(line: string): string | undefined {
+  for (const pattern of DECLARATION_PATTERNS) {
+    const match = line.match(pattern);
+    if (match && !KEYWORDS.has(match[1])) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the nearest declaration at or above a line
+ * @param lines File lines
+ * @param index Zero-based line index
+ * @returns Declared name, or undefined
+ */
+function findEnclosingDeclaration(lines: string[], index: number): string | undefined {
+  for (let i = Math.min(index, lines.length - 1); i >= 0; i--) {
+    const name = declarationName(lines[i]);
+    if (name) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists names, collapsing long lists
+ * @param names Names in order of appearance
+ * @returns Comma separated list
+ */
+function listNames(names: string[]): string {
+  const unique = Array.from(new Set(names));
+  const listed = unique.slice(0, MAX_LISTED_NAMES).join(', ');
+  return unique.length > MAX_LISTED_NAMES
+    ? `${listed} +${unique.length - MAX_LISTED_NAMES} more`
+    : listed;
+}
@@ -0,0 +1,104 @@
+/**
+ * Test Output Module
+ *
+ * Recognises test and build commands and extracts failing test names from their
+ * terminal output, so Sutra checkpoints can record whether the code worked.
+ *
+ * Features:
+ * - Command classification (test, build or neither)
+ * - Failing test extraction for Jest, Vitest, Mocha, pytest, Go and Cargo output
+ * - ANSI colour codes ignored
+ */
+
+/**
+ * Kind of command whose result is recorded on a checkpoint
+ */
+export type RunKind = 'test' | 'build' | 'command';
+
+/**
+ * Command lines that run tests
+ */
+const TEST_COMMAND_PATTERN =
+  /\b(jest|vitest|mocha|ava|karma|pytest|tox|phpunit|rspec|(npm|pnpm|yarn|bun)\s+(run\s+)?test|(go|cargo|dotnet|mvn|gradle|gradlew|mix|deno)\s+test)\b/;
+
+/**
+ * Command lines that build or type-check
+ */
+const BUILD_COMMAND_PATTERN =
+  /\b(tsc|webpack|esbuild|vite\s+build|make|cmake|(npm|pnpm|yarn|bun)\s+(run\s+)?(build|compile|lint)|(go|cargo|dotnet|mvn|gradle|gradlew)\s+build)\b/;
+
+/**
+ * Lines naming a failed test; the first capture group is the test name
+ */
+const FAILURE_PATTERNS: RegExp[] = [
+  /^\s*●\s+(.+›.+)$/, // Jest: ● Suite › test
+  /^\s*FAIL\s+\S+\s+>\s+(.+)$/, // Vitest: FAIL file > suite > test
+  /^\s*\d+\)\s+(.+)$/, // Mocha: 1) suite test
+  /^FAILED\s+(\S+)/, // pytest: FAILED tests/test_x.py::test_y - Error
+  /^\s*--- FAIL:\s+(\S+)/, // Go: --- FAIL: TestX (0.00s)
+  /^test\s+(\S+)\s+\.\.\.\s+FAILED$/, // Cargo: test module::name ... FAILED
+];
+
+/**
+ * Per-test failure markers used when no suite-qualified names were found
+ */
+const FAILURE_MARKER_PATTERN = /^\s*[✕×✗]\s+(.+?)(?:\s+\(\d+(?:\.\d+)?\s*m?s\))?$/;
+
+/**
+ * Failing test names recorded on a checkpoint
+ */
+const MAX_FAILING_TESTS = 20;
+
+/**
+ * Classifies a command line
+ * @param commandLine Command as typed in the terminal
+ * @returns 'test' or 'build', or undefined for other commands
+ */
+export function classifyCommand(commandLine: string): Exclude<RunKind, 'command'> | undefined {
+  if (TEST_COMMAND_PATTERN.test(commandLine)) {
+    return 'test';
+  }
+  if (BUILD_COMMAND_PATTERN.test(commandLine)) {
+    return 'build';
+  }
+  return undefined;
+}
+
+/**
+ * Extracts the names of failing tests from test runner output
+ * @param output Terminal output of a test run
+ * @returns Unique failing test names in order of appearance
+ */
+export function parseFailingTests(output: string): string[] {
+  const lines = stripColors(output).split(/\r?\n/);
+  const names: string[] = [];
+  const markers: string[] = [];
+
+  for (const line of lines) {
+    const match = FAILURE_PATTERNS.map(pattern => line.match(pattern)).find(m => m);
+    if (match) {
+      names.push(match[1].trim());
+      continue;
+    }
+
+    const marker = line.match(FAILURE_MARKER_PATTERN);
+    if (marker) {
+      markers.push(marker[1].trim());
+    }
+  }
+
+  // Verbose reporters list each failure twice; prefer the suite-qualified form
+  return Array.from(new Set(names.length > 0 ? names : markers)).slice(0, MAX_FAILING_TESTS);
+}
+
+/**
+ * Removes ANSI colour and cursor sequences
+ * @param output Terminal output
+ * @returns Plain text
+ */
+function stripColors(output: string): string {
+  return output
+    .split('\u001b')
+    .map((part, i) => (i === 0 ? part : part.replace(/^\[[0-9;]*[A-Za-z]/, '')))
+    .join('');
+}
@@ -0,0 +1,260 @@
+/**
+ * Time Anomaly Module
+ *
+ * Watches the rhythm of work as it happens - edits and switches between editors - for
+ * signs that attention is scattered or stuck: rapid switching between the files being
+ * edited, bursts of hopping between editors without editing, and long stalls without an
+ * edit. Measured from editor events rather than periodic snapshots, so short bursts are
+ * not missed between scope checks.
+ * Maps to the Bhakti (reflection) pillar - noticing when attention wanders.
+ *
+ * Features:
+ * - Context switch rate between edited files over a sliding window
+ * - Editor-hopping bursts without an edit in between
+ * - Stalls without an edit, reported once each
+ * - Each kind of anomaly reported at most once per window
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Kinds of time anomaly
+ */
+export type TimeAnomalyKind = 'context_switching' | 'editor_hopping' | 'stall';
+
+/**
+ * A time anomaly and the rates measured when it was detected
+ */
+export interface ITimeAnomaly {
+  kind: TimeAnomalyKind;
+  contextSwitchRate: number; // Switches between edited files per minute
+  editorSwitchRate: number; // Active editor switches per minute
+  stallDuration: number; // Seconds since the last edit
+  files: string[]; // Files involved, in the order first seen
+}
+
+/**
+ * An edit or editor switch
+ */
+interface IWorkEvent {
+  file: string;
+  at: number;
+}
+
+/**
+ * Seconds of events the rates are measured over
+ */
+const ANOMALY_WINDOW = 300;
+
+/**
+ * Switching between edited files more often than this per minute, at least
+ * MIN_CONTEXT_SWITCHES times, is an anomaly
+ */
+const MAX_CONTEXT_SWITCH_RATE = 3;
+const MIN_CONTEXT_SWITCHES = 8;
+
+/**
+ * This many editor switches within BURST_WINDOW seconds, without an edit, is a burst
+ */
+const BURST_SWITCHES = 6;
+const BURST_WINDOW = 30;
+
+/**
+ * Seconds without an edit that count as a stall
+ */
+const STALL_THRESHOLD = 1200;
+
+/**
+ * Seconds between checks for stalls
+ */
+const STALL_CHECK_INTERVAL = 30;
+
+/**
+ * Detects time anomalies from edit and editor switch events
+ */
+export class TimeAnomalyDetector implements vscode.Disposable {
+  private onAnomaly: (anomaly: ITimeAnomaly) => void;
+  private edits: IWorkEvent[] = [];
+  private switches: IWorkEvent[] = [];
+  private startedAt = Date.now();
+  private lastEditAt = Date.now();
+  private stallReported = false;
+  private reportedAt: Map<TimeAnomalyKind, number> = new Map();
+  private intervalId?: NodeJS.Timeout;
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * Creates a new TimeAnomalyDetector instance
+   * @param onAnomaly Called with each anomaly detected
+   */
+  constructor(onAnomaly: (anomaly: ITimeAnomaly) => void) {
+    this.onAnomaly = onAnomaly;
+  }
+
+  /**
+   * Starts listening for edits and editor switches with a fresh window
+   */
+  public start(): void {
+    if (this.intervalId) {
+      return;
+    }
+
+    this.edits = [];
+    this.switches = [];
+    this.startedAt = Date.now();
+    this.lastEditAt = this.startedAt;
+    this.stallReported = false;
+    this.reportedAt.clear();
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document.uri.scheme === 'file' && event.contentChanges.length > 0) {
+          this.recordEdit(event.document.uri.fsPath);
+        }
+      }),
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        if (editor?.document.uri.scheme === 'file') {
+          this.recordEditorSwitch(editor.document.uri.fsPath);
+        }
+      })
+    );
+
+    this.intervalId = setInterval(() => this.checkStall(), STALL_CHECK_INTERVAL * 1000);
+  }
+
+  /**
+   * Stops listening for edits and editor switches
+   */
+  public stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Stops listening for edits and editor switches
+   */
+  public dispose(): void {
+    this.stop();
+  }
+
+  /**
+   * Records an edit, reporting rapid switching between the files being edited
+   * @param file Edited file
+   */
+  public recordEdit(file: string): void {
+    const now = Date.now();
+    this.edits.push({ file, at: now });
+    this.lastEditAt = now;
+    this.stallReported = false;
+    this.prune(now);
+
+    const switches = this.countContextSwitches();
+    if (
+      switches >= MIN_CONTEXT_SWITCHES &&
+      this.perMinute(switches, now) > MAX_CONTEXT_SWITCH_RATE
+    ) {
+      this.report('context_switching', Array.from(new Set(this.edits.map(edit => edit.file))), now);
+    }
+  }
+
+  /**
+   * Records a switch to another editor, reporting bursts of switches without editing
+   * @param file File now in the active editor
+   */
+  public recordEditorSwitch(file: string): void {
+    const now = Date.now();
+    if (this.switches[this.switches.length - 1]?.file === file) {
+      return;
+    }
+    this.switches.push({ file, at: now });
+    this.prune(now);
+
+    const burstStart = Math.max(now - BURST_WINDOW * 1000, this.lastEditAt);
+    const burst = this.switches.filter(event => event.at >= burstStart);
+    if (burst.length >= BURST_SWITCHES) {
+      this.report('editor_hopping', Array.from(new Set(burst.map(event => event.file))), now);
+    }
+  }
+
+  /**
+   * Measures the current rates
+   * @returns Rates and the files edited or switched to within the window
+   */
+  public measure(): Omit<ITimeAnomaly, 'kind'> {
+    const now = Date.now();
+    this.prune(now);
+
+    const files = [...this.switches, ...this.edits]
+      .sort((a, b) => a.at - b.at)
+      .map(event => event.file);
+
+    return {
+      contextSwitchRate: this.perMinute(this.countContextSwitches(), now),
+      editorSwitchRate: this.perMinute(this.switches.length, now),
+      stallDuration: Math.round((now - this.lastEditAt) / 1000),
+      files: Array.from(new Set(files)),
+    };
+  }
+
+  /**
+   * Reports a stall once it has gone on long enough, once per stall, with the files looked
+   * at during it
+   */
+  private checkStall(): void {
+    const now = Date.now();
+    if (!this.stallReported && now - this.lastEditAt >= STALL_THRESHOLD * 1000) {
+      this.stallReported = true;
+      this.onAnomaly({ ...this.measure(), kind: 'stall' });
+    }
+  }
+
+  /**
+   * Reports an anomaly unless the same kind was reported within the window
+   * @param kind Kind of anomaly
+   * @param files Files involved
+   * @param now Current time
+   */
+  private report(kind: TimeAnomalyKind, files: string[], now: number): void {
+    const last = this.reportedAt.get(kind);
+    if (last !== undefined && now - last < ANOMALY_WINDOW * 1000) {
+      return;
+    }
+
+    this.reportedAt.set(kind, now);
+    this.onAnomaly({ ...this.measure(), kind, files });
+  }
+
+  /**
+   * Counts the edits within the window made to a different file than the edit before
+   * @returns Context switches
+   */
+  private countContextSwitches(): number {
+    return this.edits.filter((edit, i) => i > 0 && edit.file !== this.edits[i - 1].file).length;
+  }
+
+  /**
+   * Converts a count within the window into a rate
+   * @param count Events within the window
+   * @param now Current time
+   * @returns Events per minute, over the window or the time since starting if shorter
+   */
+  private perMinute(count: number, now: number): number {
+    const seconds = Math.min(ANOMALY_WINDOW, Math.max(60, (now - this.startedAt) / 1000));
+    return Math.round((count / (seconds / 60)) * 10) / 10;
+  }
+
+  /**
+   * Drops events older than the window
+   * @param now Current time
+   */
+  private prune(now: number): void {
+    const since = now - ANOMALY_WINDOW * 1000;
+    this.edits = this.edits.filter(edit => edit.at >= since);
+    this.switches = this.switches.filter(event => event.at >= since);
+  }
+}
@@ -3,6 +3,56 @@
  * Maps to the threefold vision: Jnana (knowledge), Karma (action), Bhakti (reflection)
  */
 
+/**
+ * Represents the stored contents of a single file within a checkpoint
+ */
+export interface ISutraFileSnapshot {
+  path: string;
+  hash?: string; // Content hash in the snapshot store; undefined when the file was deleted
+  size?: number;
+}
+
+/**
+ * Line-level change statistics for a file, relative to the previous checkpoint
+ */
+export interface ISutraDiffStat {
+  path: string;
+  insertions: number;
+  deletions: number;
+  hunks: number;
+}
+
+/**
+ * A commit made for a checkpoint in one repository
+ */
+export interface ISutraGitCommit {
+  root: string; // Repository root
+  hash: string;
+  parent?: string; // Commit the checkpoint commit was made on top of
+  ref?: string; // Ref holding the commit when checkpoints are kept off the user's branch
+}
+
+/**
+ * What caused a checkpoint to be created
+ */
+export type SutraCheckpointTrigger =
+  | 'manual'
+  | 'interval'
+  | 'large_edit'
+  | 'task_end'
+  | 'command_end';
+
+/**
+ * Outcome of a test, build or other command run against a checkpoint's code
+ */
+export interface ISutraRunResult {
+  kind: 'test' | 'build' | 'command';
+  name: string; // Task name or command line
+  exitCode?: number; // Undefined when the process was terminated
+  passed: boolean;
+  failingTests?: string[];
+}
+
 /**
  * Represents a checkpoint in the coding workflow (Sutra - thread)
  */
@@ -10,8 +60,43 @@ export interface ISutraCheckpoint {
   id: string;
   timestamp: number;
   message?: string;
+  summary?: string; // Generated description of the changes, used when there is no message
   filesChanged: string[];
   gitCommitHash?: string;
+  gitCommits?: ISutraGitCommit[];
+  gitError?: string; // Why the auto-commit failed, if it did
+  snapshot?: ISutraFileSnapshot[];
+  trigger?: SutraCheckpointTrigger;
+  diffStats?: ISutraDiffStat[];
+  labels?: string[]; // e.g. "known good", "tests green", "before refactor"
+  pinned?: boolean;
+  annotation?: string; // Free-text note added after creation
+  runs?: ISutraRunResult[]; // Test and build runs finished while this was the latest state
+  workspaceFolders?: string[]; // Roots the changed files belong to, in multi-root workspaces
+}
+
+/**
+ * Checkpoint details that can be edited after creation
+ */
+export type SutraCheckpointAnnotations = Pick<ISutraCheckpoint, 'labels' | 'pinned' | 'annotation'>;
+
+/**
+ * One component of a milestone score, e.g. duration or focus
+ */
+export interface IScoreComponent {
+  name: string;
+  points: number; // 0-100 before weighting
+  weight: number;
+  contribution: number; // Points added to the final score
+  detail: string; // What was measured, e.g. "2 gaps over 45 min"
+}
+
+/**
+ * How a milestone score was computed
+ */
+export interface IScoreBreakdown {
+  strategy: string;
+  components: IScoreComponent[];
 }
 
 /**
@@ -22,9 +107,22 @@ export interface IKarmaPhala {
   milestoneId: string;
   timestamp: number;
   score: number;
+  scoreBreakdown?: IScoreBreakdown;
   duration: number;
   filesModified: string[];
   gitTag?: string;
+  gitTagRoots?: string[]; // Repositories the tag was created in
+  gitError?: string; // Why the auto-tag failed, if it did
+}
+
+/**
+ * A stretch of time a milestone or yatra was paused; open while it is still paused
+ */
+export interface IPauseInterval {
+  start: number;
+  end?: number;
+  // 'yatra': paused because its yatra was paused or ended; 'blocked': waiting on its blockers
+  reason: 'manual' | 'idle' | 'yatra' | 'blocked';
 }
 
 /**
@@ -37,6 +135,64 @@ export interface IMilestone {
   targetDuration?: number;
   completedAt?: number;
   status: 'active' | 'completed' | 'abandoned';
+  startCheckpointId?: string; // Latest checkpoint when the milestone was created
+  endCheckpointId?: string; // Latest checkpoint when the milestone was completed
+  parentId?: string; // Milestone this one is a step of
+  blockedBy?: string[]; // Milestones that must be finished before this one can be completed
+  pauses?: IPauseInterval[];
+}
+
+/**
+ * Target and actual duration of a completed milestone, kept to report estimate accuracy
+ */
+export interface IMilestoneEstimate {
+  milestoneId: string;
+  name: string;
+  targetDuration: number; // seconds
+  actualDuration: number; // seconds
+  completedAt: number;
+}
+
+/**
+ * How a file changed during a yatra
+ */
+export type FileChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+/**
+ * Represents a single file in a yatra's change set
+ */
+export interface IFileChange {
+  path: string;
+  status: FileChangeStatus;
+  previousPath?: string; // Original path for renames
+  linesAdded: number;
+  linesDeleted: number;
+  dirty: boolean; // Has unsaved editor changes
+  workspaceFolder?: string; // Root the file belongs to, in multi-root workspaces
+}
+
+/**
+ * Kind of scope drift a check found
+ */
+export type DharmaSankataReason =
+  | 'file_threshold'
+  | 'goal_mismatch'
+  | 'focus_drift'
+  | 'time_anomaly';
+
+/**
+ * How serious a drift is: info is recorded, warn is badged, critical is notified
+ */
+export type DharmaSankataSeverity = 'info' | 'warn' | 'critical';
+
+/**
+ * One check that found scope drift
+ */
+export interface IDharmaSankataFinding {
+  reason: DharmaSankataReason;
+  severity: DharmaSankataSeverity;
+  evidence: string[]; // Measurements that tripped the check
+  suggestion: string;
 }
 
 /**
@@ -45,14 +201,27 @@ export interface IMilestone {
 export interface IDharmaSankata {
   detected: boolean;
   timestamp: number;
-  reason: 'file_threshold' | 'goal_mismatch' | 'time_anomaly';
+  reason: DharmaSankataReason; // Of the most severe finding
+  severity?: DharmaSankataSeverity; // Of the findings together; undefined without findings
+  findings?: IDharmaSankataFinding[]; // Absent in alerts saved by older versions
   details: {
     filesChanged: number;
     threshold: number;
     currentGoal?: string;
     detectedGoal?: string;
+    goalRelevance?: number; // 0-1, share of the changed files relevant to the goal
+    topFiles?: string[]; // Files contributing most to the goal
+    offTopicFiles?: string[]; // Files unrelated to the goal
+    focusArea?: string[]; // Directories the yatra's focus area covers
+    outsideFocus?: string[]; // Changed files outside the focus area
+    timeAnomaly?: 'context_switching' | 'editor_hopping' | 'stall';
+    contextSwitchRate?: number; // Switches between edited files per minute
+    editorSwitchRate?: number; // Active editor switches per minute
+    stallDuration?: number; // Seconds since the last edit
+    anomalyFiles?: string[]; // Files edited or switched between during a time anomaly
+    workspaceFolder?: string; // Root the check covered, in multi-root workspaces
   };
-  suggestion?: string;
+  suggestion?: string; // Of the most severe finding
 }
 
 /**
@@ -66,6 +235,10 @@ export interface IYatra {
   checkpoints: ISutraCheckpoint[];
   milestones: IMilestone[];
   dharmaAlerts: IDharmaSankata[];
+  changes?: IFileChange[];
+  workspaceFolders?: string[]; // Roots open during the yatra, in multi-root workspaces
+  activeTime?: number; // Seconds with recent edits or editor switches
+  pauses?: IPauseInterval[];
 }
 
 /**
@@ -74,10 +247,14 @@ export interface IYatra {
 export interface ICoreEvent {
   type:
     | 'checkpoint'
+    | 'checkpoint_updated'
     | 'milestone'
     | 'milestone_created'
+    | 'milestone_updated'
     | 'dharma_alert'
     | 'yatra_start'
+    | 'yatra_paused'
+    | 'yatra_resumed'
     | 'yatra_end';
   timestamp: number;
   data: ISutraCheckpoint | IKarmaPhala | IMilestone | IDharmaSankata | IYatra;
@@ -0,0 +1,91 @@
+/**
+ * Workspace Folders Module
+ *
+ * Maps files to the workspace folder (root) they belong to, so checkpoints, scope checks
+ * and tags can be partitioned per root in multi-root workspaces. In a single-folder
+ * workspace nothing is partitioned and no folder names are recorded.
+ *
+ * Features:
+ * - Deepest-folder lookup for nested roots
+ * - Containment check for paths, shared by the modules that group files by directory
+ * - Partitioning of file lists by root name
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Checks whether more than one workspace folder is open
+ * @returns True for multi-root workspaces
+ */
+export function isMultiRootWorkspace(): boolean {
+  return (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+}
+
+/**
+ * Checks whether a path is a directory or inside it
+ * @param filePath Absolute path
+ * @param directory Absolute directory path
+ * @returns True if the path is the directory or inside it
+ */
+export function isWithin(filePath: string, directory: string): boolean {
+  const relative = path.relative(directory, filePath);
+  // A child named like "..foo" is still inside
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Finds the workspace folder containing a file; with nested roots the deepest one wins
+ * @param filePath Absolute file path
+ * @returns Workspace folder, or undefined if the file is outside the workspace
+ */
+export function findWorkspaceFolder(filePath: string): vscode.WorkspaceFolder | undefined {
+  let match: vscode.WorkspaceFolder | undefined;
+
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    if (
+      isWithin(filePath, folder.uri.fsPath) &&
+      (!match || folder.uri.fsPath.length > match.uri.fsPath.length)
+    ) {
+      match = folder;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Gets the name of the root a file belongs to in a multi-root workspace
+ * @param filePath Absolute file path
+ * @returns Folder name, or undefined in single-folder workspaces and outside the workspace
+ */
+export function getWorkspaceFolderName(filePath: string): string | undefined {
+  return isMultiRootWorkspace() ? findWorkspaceFolder(filePath)?.name : undefined;
+}
+
+/**
+ * Groups files by the root they belong to
+ * @param filePaths Absolute file paths
+ * @returns Map of folder name (undefined for no root) to files, in order of first appearance
+ */
+export function partitionByWorkspaceFolder(filePaths: string[]): Map<string | undefined, string[]> {
+  const partitions = new Map<string | undefined, string[]>();
+
+  for (const filePath of filePaths) {
+    const name = getWorkspaceFolderName(filePath);
+    partitions.set(name, [...(partitions.get(name) || []), filePath]);
+  }
+
+  return partitions;
+}
+
+/**
+ * Gets the names of the roots a set of files belongs to
+ * @param filePaths Absolute file paths
+ * @returns Unique folder names, empty in single-folder workspaces
+ */
+export function getWorkspaceFolderNames(filePaths: string[]): string[] {
+  return Array.from(partitionByWorkspaceFolder(filePaths).keys()).filter(
+    (name): name is string => name !== undefined
+  );
+}
@@ -8,15 +8,35 @@
  * Features:
  * - Session lifecycle management (start/stop)
  * - Sankalpa (intention) reminders
+ * - Active time tracking with milestone nudges (snooze, or off for the session)
+ * - Milestone completion from the files changed since the milestone's start checkpoint
+ * - Pause and resume, manually or on idle, pausing the yatra's milestones with it
+ * - Milestone templates laid out when the yatra starts
  * - State persistence
+ * - Checkpoint retention, keeping checkpoints milestones refer to
+ * - History of milestone estimates across yatras
  * - Event coordination
  */
 
 import * as vscode from 'vscode';
+import { getOpenPause } from './active-time';
+import { ActivityMonitor } from './activity-monitor';
+import { ChangeTracker } from './change-tracker';
 import { DharmaSankata } from './dharma-sankata';
 import { KarmaPhala } from './karma-phala';
+import { IMilestoneTemplate } from './milestone-templates';
 import { SutraCheckpoints } from './sutra-checkpoints';
-import { ICoreEvent, IDharmaSankata, IMilestone, ISutraCheckpoint, IYatra } from './types';
+import { isMultiRootWorkspace } from './workspace-folders';
+import {
+  ICoreEvent,
+  IDharmaSankata,
+  IKarmaPhala,
+  IMilestone,
+  IMilestoneEstimate,
+  IScoreBreakdown,
+  ISutraCheckpoint,
+  IYatra,
+} from './types';
 
 /**
  * Configuration for yatra manager
@@ -26,20 +46,61 @@ export interface IYatraManagerConfig {
   autoStart: boolean;
   persistState: boolean;
   sankalpaReminderInterval?: number; // seconds
+  milestoneNudgeInterval?: number; // seconds between active time updates and milestone nudges
+  milestoneNudgeSnooze?: number; // seconds
+  idleTimeout?: number; // seconds without activity before the yatra pauses itself
 }
 
+/**
+ * What completing a milestone now would record
+ */
+export interface IMilestoneSummary {
+  milestone: IMilestone;
+  duration: number; // Active seconds so far
+  filesModified: string[];
+  checkpoints: ISutraCheckpoint[]; // Checkpoints since the milestone's start checkpoint
+  score: number;
+  scoreBreakdown: IScoreBreakdown;
+}
+
+/**
+ * Time without activity after which the user no longer counts as active, when the yatra
+ * does not pause itself on idle (seconds)
+ */
+const IDLE_TIMEOUT = 5 * 60;
+
+/**
+ * Milestone estimates kept for the accuracy report
+ */
+const MAX_ESTIMATES = 200;
+
+/**
+ * Milestone nudge notification actions
+ */
+const NUDGE_SNOOZE = 'Snooze';
+const NUDGE_STOP = "Don't Ask This Session";
+
 /**
  * Manages coding sessions (Yatra) and coordinates core modules
  */
 export class YatraManager {
   private config: IYatraManagerConfig;
   private currentYatra?: IYatra;
+  private lastYatra?: IYatra;
   private eventEmitter: vscode.EventEmitter<ICoreEvent>;
   private sutraCheckpoints: SutraCheckpoints;
   private karmaPhala: KarmaPhala;
   private dharmaSankata: DharmaSankata;
   private sankalpaReminderId?: NodeJS.Timeout;
+  private milestoneNudgeId?: NodeJS.Timeout;
+  private activityMonitor?: ActivityMonitor;
+  private compaction: Promise<void> = Promise.resolve(); // Latest checkpoint retention run
+  private milestoneActiveTime = 0; // Active seconds since the last milestone was created or completed
+  private nudgeSnoozedUntil = 0;
+  private nudgeShowing = false;
+  private nudgesStopped = false;
   private stateStorage: vscode.Memento;
+  private changeTracker?: ChangeTracker;
 
   /**
    * Creates a new YatraManager instance
@@ -49,6 +110,7 @@ export class YatraManager {
    * @param karmaPhala Karma phala module
    * @param dharmaSankata Dharma sankata module
    * @param stateStorage VS Code memento for state persistence
+   * @param changeTracker Optional tracker for the yatra's change set
    */
   constructor(
     config: IYatraManagerConfig,
@@ -56,7 +118,8 @@ export class YatraManager {
     sutraCheckpoints: SutraCheckpoints,
     karmaPhala: KarmaPhala,
     dharmaSankata: DharmaSankata,
-    stateStorage: vscode.Memento
+    stateStorage: vscode.Memento,
+    changeTracker?: ChangeTracker
   ) {
     this.config = config;
     this.eventEmitter = eventEmitter;
@@ -64,6 +127,7 @@ export class YatraManager {
     this.karmaPhala = karmaPhala;
     this.dharmaSankata = dharmaSankata;
     this.stateStorage = stateStorage;
+    this.changeTracker = changeTracker;
 
     // Subscribe to module events
     eventEmitter.event(event => {
@@ -74,9 +138,13 @@ export class YatraManager {
   /**
    * Starts a new yatra (coding session)
    * @param sankalpa Optional intention/goal for the session
+   * @param templates Milestone templates to lay out for the session
    * @returns The created yatra
    */
-  public async startYatra(sankalpa?: string): Promise<IYatra> {
+  public async startYatra(
+    sankalpa?: string,
+    templates: IMilestoneTemplate[] = []
+  ): Promise<IYatra> {
     if (this.currentYatra) {
       throw new Error('A yatra is already active');
     }
@@ -90,10 +158,17 @@ export class YatraManager {
       dharmaAlerts: [],
     };
 
+    // Checkpoints, alerts and changes name their root when several are open
+    if (isMultiRootWorkspace()) {
+      yatra.workspaceFolders = vscode.workspace.workspaceFolders!.map(folder => folder.name);
+    }
+
     this.currentYatra = yatra;
+    this.karmaPhala.setCurrentYatra(yatra);
 
     // Start core modules
-    this.sutraCheckpoints.start();
+    await this.changeTracker?.start();
+    this.sutraCheckpoints.start(yatra.id);
     this.dharmaSankata.start();
 
     // Set goal in dharma sankata if sankalpa is provided
@@ -105,6 +180,12 @@ export class YatraManager {
     if (sankalpa && this.config.sankalpaReminderInterval) {
       this.startSankalpaReminders(sankalpa);
     }
+    this.resumeMilestones(yatra);
+    this.startActivityTracking();
+
+    for (const template of templates) {
+      this.karmaPhala.instantiateTemplate(template);
+    }
 
     // Persist state if enabled
     if (this.config.persistState) {
@@ -136,12 +217,27 @@ export class YatraManager {
     this.sutraCheckpoints.stop();
     this.dharmaSankata.stop();
     this.stopSankalpaReminders();
+    this.stopActivityTracking();
 
-    // Collect final state
-    yatra.checkpoints = this.sutraCheckpoints.getCheckpoints();
+    // Milestones only accrue time while a yatra is running
+    const pause = getOpenPause(yatra.pauses);
+    if (pause) {
+      pause.end = yatra.endedAt;
+    }
+    for (const milestone of this.karmaPhala.getActiveMilestones()) {
+      this.karmaPhala.pauseMilestone(milestone.id, 'yatra', yatra.endedAt);
+    }
+
+    // Collect final state; checkpoints made before the yatra belong to other sessions
+    yatra.checkpoints = this.getOwnCheckpoints(yatra, this.sutraCheckpoints.getCheckpoints());
     yatra.milestones = this.karmaPhala.getMilestones();
     yatra.dharmaAlerts = this.dharmaSankata.getAlerts();
 
+    if (this.changeTracker) {
+      yatra.changes = await this.changeTracker.getChangeSet();
+      this.changeTracker.stop();
+    }
+
     // Persist state if enabled
     if (this.config.persistState) {
       await this.persistState();
@@ -154,10 +250,158 @@ export class YatraManager {
     });
 
     this.currentYatra = undefined;
+    this.lastYatra = yatra;
+    this.karmaPhala.setCurrentYatra(undefined);
 
     return yatra;
   }
 
+  /**
+   * Squashes the checkpoint commits of the current yatra, or of the one that just ended,
+   * into a single commit per repository described by its sankalpa and checkpoints
+   * @returns Hashes of the squashed commits
+   */
+  public async squashYatra(): Promise<string[]> {
+    const yatra = this.currentYatra || this.lastYatra;
+    if (!yatra) {
+      throw new Error('No yatra to squash');
+    }
+
+    const own = this.getOwnCheckpoints(yatra, yatra.checkpoints);
+    const checkpoints = own.filter(cp => cp.gitCommits?.length);
+    if (checkpoints.length === 0) {
+      throw new Error('This yatra has no checkpoint commits to squash');
+    }
+
+    const hashes = await this.sutraCheckpoints.squashCheckpoints(
+      checkpoints,
+      this.getSquashMessage(yatra, own)
+    );
+
+    // The checkpoint commits no longer exist on any ref
+    for (const checkpoint of checkpoints) {
+      checkpoint.gitCommits = undefined;
+    }
+    if (this.config.persistState && this.currentYatra) {
+      await this.persistState();
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Pauses the current yatra and its active milestones; paused time is not working time.
+   * Sankalpa reminders and milestone nudges wait until it is resumed.
+   * @param reason 'manual', or 'idle' when paused by idle detection
+   * @param since When the pause began, e.g. the last activity before going idle
+   */
+  public async pauseYatra(
+    reason: 'manual' | 'idle' = 'manual',
+    since: number = Date.now()
+  ): Promise<void> {
+    const yatra = this.currentYatra;
+    if (!yatra) {
+      throw new Error('No active yatra to pause');
+    }
+    if (getOpenPause(yatra.pauses)) {
+      return;
+    }
+
+    yatra.pauses = [...(yatra.pauses || []), { start: since, reason }];
+    for (const milestone of this.karmaPhala.getActiveMilestones()) {
+      this.karmaPhala.pauseMilestone(milestone.id, 'yatra', since);
+    }
+    this.stopSankalpaReminders();
+
+    this.eventEmitter.fire({
+      type: 'yatra_paused',
+      timestamp: Date.now(),
+      data: yatra,
+    });
+  }
+
+  /**
+   * Resumes the current yatra and the milestones paused with it
+   */
+  public async resumeYatra(): Promise<void> {
+    const yatra = this.currentYatra;
+    if (!yatra) {
+      throw new Error('No active yatra to resume');
+    }
+
+    const pause = getOpenPause(yatra.pauses);
+    if (!pause) {
+      return;
+    }
+
+    pause.end = Date.now();
+    this.resumeMilestones(yatra);
+    this.activityMonitor?.recordActivity();
+    if (yatra.sankalpa && this.config.sankalpaReminderInterval) {
+      this.startSankalpaReminders(yatra.sankalpa);
+    }
+
+    this.eventEmitter.fire({
+      type: 'yatra_resumed',
+      timestamp: Date.now(),
+      data: yatra,
+    });
+  }
+
+  /**
+   * Checks whether the current yatra is paused
+   * @returns True while the yatra has an open pause
+   */
+  public isPaused(): boolean {
+    return getOpenPause(this.currentYatra?.pauses) !== undefined;
+  }
+
+  /**
+   * Completes a milestone with the files modified since its start checkpoint, including
+   * changes not yet checkpointed, scoring it on the checkpoints made since
+   * @param milestoneId Milestone to complete; defaults to the one being worked on
+   * @returns The karma phala outcome
+   */
+  public async completeMilestone(milestoneId?: string): Promise<IKarmaPhala> {
+    const milestone = this.findMilestone(milestoneId);
+    const { filesModified, checkpoints } = await this.getMilestoneChanges(milestone);
+
+    return this.karmaPhala.completeMilestone(filesModified, milestone.id, checkpoints);
+  }
+
+  /**
+   * Summarizes what completing a milestone now would record, without completing it
+   * @param milestoneId Milestone to summarize; defaults to the one being worked on
+   * @returns Duration, files, checkpoints and the score it would get
+   * @throws When the milestone could not be completed now
+   */
+  public async getMilestoneSummary(milestoneId?: string): Promise<IMilestoneSummary> {
+    const milestone = this.findMilestone(milestoneId);
+    const { filesModified, checkpoints } = await this.getMilestoneChanges(milestone);
+    const { score, breakdown } = this.karmaPhala.previewScore(
+      milestone.id,
+      filesModified,
+      checkpoints
+    );
+
+    return {
+      milestone,
+      duration: this.karmaPhala.getElapsedTime(milestone.id),
+      filesModified,
+      checkpoints,
+      score,
+      scoreBreakdown: breakdown,
+    };
+  }
+
+  /**
+   * Gets the target and actual durations of completed milestones across yatras
+   * @returns Milestone estimates, oldest first
+   */
+  public getEstimateHistory(): IMilestoneEstimate[] {
+    return this.stateStorage.get<IMilestoneEstimate[]>('milestoneEstimates') || [];
+  }
+
   /**
    * Gets the current active yatra
    * @returns Current yatra or undefined
@@ -194,17 +438,28 @@ export class YatraManager {
 
     const savedYatra = this.stateStorage.get<IYatra>('currentYatra');
     if (savedYatra && !savedYatra.endedAt) {
-      // Restore active yatra
+      // Restore active yatra; changes made while the window was closed join the baseline
       this.currentYatra = savedYatra;
-      this.sutraCheckpoints.start();
+      this.karmaPhala.loadMilestones(savedYatra.milestones);
+      this.karmaPhala.setCurrentYatra(savedYatra);
+      await this.changeTracker?.start();
+      // Starting the yatra's checkpoints clears any others, so its own are loaded after
+      this.sutraCheckpoints.start(savedYatra.id);
+      this.sutraCheckpoints.loadCheckpoints(savedYatra.checkpoints);
       this.dharmaSankata.start();
 
+      // A yatra paused when the window closed stays paused until resumed
+      const paused = this.isPaused();
       if (savedYatra.sankalpa) {
         this.dharmaSankata.setGoal(savedYatra.sankalpa);
-        if (this.config.sankalpaReminderInterval) {
+        if (this.config.sankalpaReminderInterval && !paused) {
           this.startSankalpaReminders(savedYatra.sankalpa);
         }
       }
+      if (!paused) {
+        this.resumeMilestones(savedYatra);
+      }
+      this.startActivityTracking();
     }
   }
 
@@ -220,13 +475,35 @@ export class YatraManager {
     switch (event.type) {
       case 'checkpoint':
         this.currentYatra.checkpoints.push(event.data as ISutraCheckpoint);
+        // Each run waits for the previous one, so retention never deletes blobs concurrently
+        this.compaction = this.compaction
+          .then(() => this.compactCheckpoints())
+          .catch(error => console.warn('Failed to apply checkpoint retention:', error));
         break;
-      case 'milestone_created':
-        this.currentYatra.milestones.push(event.data as IMilestone);
+      case 'checkpoint_updated':
+      case 'milestone_updated':
+      case 'yatra_paused':
+      case 'yatra_resumed':
+        // The yatra holds the same checkpoint and milestone objects; only persistence is needed
         break;
-      case 'milestone':
-        // Milestone completion - could update milestone status here if needed
+      case 'milestone_created': {
+        this.milestoneActiveTime = 0;
+        const milestone = event.data as IMilestone;
+        milestone.startCheckpointId = this.sutraCheckpoints.getLatestCheckpoint()?.id;
+        this.currentYatra.milestones.push(milestone);
         break;
+      }
+      case 'milestone': {
+        this.milestoneActiveTime = 0;
+        const milestone = this.currentYatra.milestones.find(
+          m => m.id === (event.data as IKarmaPhala).milestoneId
+        );
+        if (milestone) {
+          milestone.endCheckpointId = this.sutraCheckpoints.getLatestCheckpoint()?.id;
+          this.recordEstimate(milestone, event.data as IKarmaPhala);
+        }
+        break;
+      }
       case 'dharma_alert':
         this.currentYatra.dharmaAlerts.push(event.data as IDharmaSankata);
         break;
@@ -238,6 +515,34 @@ export class YatraManager {
     }
   }
 
+  /**
+   * Applies checkpoint retention, keeping the checkpoints milestones refer to,
+   * and drops removed checkpoints from the current yatra
+   */
+  private async compactCheckpoints(): Promise<void> {
+    const yatra = this.currentYatra;
+    if (!yatra) {
+      return;
+    }
+
+    const referenced = new Set(
+      yatra.milestones
+        .flatMap(m => [m.startCheckpointId, m.endCheckpointId])
+        .filter((id): id is string => !!id)
+    );
+    const removed = await this.sutraCheckpoints.compact(referenced);
+    if (removed.length === 0) {
+      return;
+    }
+
+    const removedIds = new Set(removed.map(cp => cp.id));
+    yatra.checkpoints = yatra.checkpoints.filter(cp => !removedIds.has(cp.id));
+
+    if (this.config.persistState && yatra === this.currentYatra) {
+      await this.persistState();
+    }
+  }
+
   /**
    * Starts sankalpa reminder interval
    * @param sankalpa Intention to remind about
@@ -277,6 +582,247 @@ export class YatraManager {
     }
   }
 
+  /**
+   * Adds a completed milestone with a target duration to the estimate history
+   * @param milestone Completed milestone
+   * @param outcome Its karma phala outcome
+   */
+  private recordEstimate(milestone: IMilestone, outcome: IKarmaPhala): void {
+    if (!milestone.targetDuration) {
+      return;
+    }
+
+    const estimate: IMilestoneEstimate = {
+      milestoneId: milestone.id,
+      name: milestone.name,
+      targetDuration: milestone.targetDuration,
+      actualDuration: outcome.duration,
+      completedAt: outcome.timestamp,
+    };
+    this.stateStorage.update(
+      'milestoneEstimates',
+      [...this.getEstimateHistory(), estimate].slice(-MAX_ESTIMATES)
+    );
+  }
+
+  /**
+   * Finds a milestone to complete
+   * @param milestoneId Milestone id; defaults to the one being worked on
+   * @returns The milestone
+   */
+  private findMilestone(milestoneId?: string): IMilestone {
+    const milestone =
+      milestoneId !== undefined
+        ? this.karmaPhala.getMilestones().find(m => m.id === milestoneId)
+        : this.karmaPhala.getActiveMilestone();
+    if (!milestone) {
+      throw new Error('No active milestone to complete');
+    }
+    return milestone;
+  }
+
+  /**
+   * Works out a milestone's work: the checkpoints made since its start checkpoint (or its
+   * creation, without one) and the files they changed, plus files changed since then that
+   * no checkpoint has captured yet. Work done while it was blocked belongs to its blockers.
+   * @param milestone Milestone
+   * @returns Modified files and checkpoints
+   */
+  private async getMilestoneChanges(
+    milestone: IMilestone
+  ): Promise<{ filesModified: string[]; checkpoints: ISutraCheckpoint[] }> {
+    const start = milestone.startCheckpointId
+      ? this.sutraCheckpoints.getCheckpoint(milestone.startCheckpointId)
+      : undefined;
+    const unblockedAt = milestone.pauses?.find(p => p.reason === 'blocked')?.end;
+    const since = Math.max(start?.timestamp ?? milestone.createdAt, unblockedAt ?? 0);
+
+    const checkpoints = this.sutraCheckpoints
+      .getCheckpoints()
+      .filter(cp => cp.timestamp >= since && cp.id !== start?.id);
+    const changes = (await this.changeTracker?.getChangeSet(since)) || [];
+
+    return {
+      filesModified: Array.from(
+        new Set([...checkpoints.flatMap(cp => cp.filesChanged), ...changes.map(c => c.path)])
+      ),
+      checkpoints,
+    };
+  }
+
+  /**
+   * Keeps the checkpoints made during a yatra, e.g. leaving out those of earlier sessions
+   * saved with it before each yatra kept its own
+   * @param yatra Yatra
+   * @param checkpoints Checkpoints to filter
+   * @returns Checkpoints made since the yatra started
+   */
+  private getOwnCheckpoints(yatra: IYatra, checkpoints: ISutraCheckpoint[]): ISutraCheckpoint[] {
+    return checkpoints.filter(cp => cp.timestamp >= yatra.startedAt);
+  }
+
+  /**
+   * Resumes the yatra's milestones that were paused along with it; those left active by
+   * other yatras stay paused, as no yatra records their time
+   * @param yatra Yatra being started or resumed
+   */
+  private resumeMilestones(yatra: IYatra): void {
+    const own = new Set(yatra.milestones.map(m => m.id));
+    for (const milestone of this.karmaPhala.getActiveMilestones()) {
+      if (own.has(milestone.id)) {
+        this.karmaPhala.resumeMilestone(milestone.id, 'yatra');
+      }
+    }
+  }
+
+  /**
+   * Starts watching for activity to pause the yatra on idle and to count active time for
+   * milestone nudges, as configured
+   */
+  private startActivityTracking(): void {
+    if (!this.config.idleTimeout && !this.config.milestoneNudgeInterval) {
+      return;
+    }
+
+    this.activityMonitor = new ActivityMonitor(this.config.idleTimeout || IDLE_TIMEOUT, {
+      onIdle: since => {
+        if (this.config.idleTimeout && this.currentYatra && !this.isPaused()) {
+          this.pauseYatra('idle', since);
+        }
+      },
+      onActive: () => {
+        if (getOpenPause(this.currentYatra?.pauses)?.reason === 'idle') {
+          this.resumeYatra();
+        }
+      },
+    });
+    this.activityMonitor.start();
+
+    if (this.config.milestoneNudgeInterval) {
+      this.milestoneActiveTime = 0;
+      this.nudgeSnoozedUntil = 0;
+      this.nudgesStopped = false;
+
+      const interval = this.config.milestoneNudgeInterval;
+      this.milestoneNudgeId = setInterval(() => this.tickMilestoneClock(interval), interval * 1000);
+    }
+  }
+
+  /**
+   * Stops watching for activity and nudging about milestones
+   */
+  private stopActivityTracking(): void {
+    if (this.milestoneNudgeId) {
+      clearInterval(this.milestoneNudgeId);
+      this.milestoneNudgeId = undefined;
+    }
+
+    this.activityMonitor?.dispose();
+    this.activityMonitor = undefined;
+  }
+
+  /**
+   * Adds active time when the user was recently active, then nudges to create a milestone
+   * once the threshold is reached, or to complete the active one once it has run that long
+   * @param elapsed Seconds since the previous tick
+   */
+  private tickMilestoneClock(elapsed: number): void {
+    if (!this.currentYatra || this.isPaused() || this.activityMonitor?.isIdle()) {
+      return;
+    }
+
+    this.currentYatra.activeTime = (this.currentYatra.activeTime || 0) + elapsed;
+    this.milestoneActiveTime += elapsed;
+
+    if (this.nudgeShowing || this.nudgesStopped || Date.now() < this.nudgeSnoozedUntil) {
+      return;
+    }
+
+    const active = this.karmaPhala.getActiveMilestone();
+    if (this.karmaPhala.shouldCreateMilestone(this.milestoneActiveTime)) {
+      this.showMilestoneNudge(this.karmaPhala.getNudgeMessage(), 'Create Milestone');
+    } else if (active && this.karmaPhala.shouldCompleteMilestone(this.milestoneActiveTime)) {
+      const minutes = Math.round(this.milestoneActiveTime / 60);
+      this.showMilestoneNudge(
+        `"${active.name}" has been in progress for ${minutes} active minutes. Is it done?`,
+        'Complete Milestone',
+        active
+      );
+    }
+  }
+
+  /**
+   * Shows a milestone nudge and acts on the answer; dismissing it snoozes like Snooze does
+   * @param message Nudge message
+   * @param action 'Create Milestone' or 'Complete Milestone'
+   * @param milestone Milestone to complete
+   */
+  private async showMilestoneNudge(
+    message: string,
+    action: string,
+    milestone?: IMilestone
+  ): Promise<void> {
+    this.nudgeShowing = true;
+    const selection = await vscode.window.showInformationMessage(
+      message,
+      action,
+      NUDGE_SNOOZE,
+      NUDGE_STOP
+    );
+    this.nudgeShowing = false;
+
+    if (selection === NUDGE_STOP) {
+      this.nudgesStopped = true;
+      return;
+    }
+    this.nudgeSnoozedUntil = Date.now() + (this.config.milestoneNudgeSnooze || 0) * 1000;
+
+    if (selection === 'Create Milestone') {
+      await vscode.commands.executeCommand('tridishti.createKarmaPhala');
+    } else if (selection === 'Complete Milestone' && milestone) {
+      try {
+        const result = await this.completeMilestone(milestone.id);
+        vscode.window.showInformationMessage(
+          `Karma Phala milestone completed: ${milestone.name} (Score: ${result.score})`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to complete milestone: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Builds the commit message for a squashed yatra
+   * @param yatra Yatra being squashed
+   * @param checkpoints The yatra's checkpoints
+   * @returns Commit message with a summary line and a body listing the work done
+   */
+  private getSquashMessage(yatra: IYatra, checkpoints: ISutraCheckpoint[]): string {
+    const subject =
+      yatra.sankalpa || `Yatra of ${new Date(yatra.startedAt).toISOString().slice(0, 10)}`;
+    const files = new Set(checkpoints.flatMap(cp => cp.filesChanged));
+    const body: string[] = [`${checkpoints.length} checkpoint(s), ${files.size} file(s) changed`];
+
+    const messages = checkpoints
+      .map(cp => cp.message || cp.summary)
+      .filter(message => message)
+      .map(message => `- ${message}`);
+    if (messages.length > 0) {
+      body.push('', 'Checkpoints:', ...messages);
+    }
+
+    const milestones = yatra.milestones
+      .filter(m => m.status === 'completed')
+      .map(m => `- ${m.name}`);
+    if (milestones.length > 0) {
+      body.push('', 'Milestones:', ...milestones);
+    }
+
+    return [subject, '', ...body].join('\n');
+  }
+
   /**
    * Persists current state to storage
    */
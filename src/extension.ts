@@ -14,18 +14,48 @@
  * - Drishti dashboard for analytics
  */
 
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { ChangeTracker } from './core/change-tracker';
+import { GitService } from './core/git-service';
 import { SutraCheckpoints, ISutraCheckpointConfig } from './core/sutra-checkpoints';
-import { KarmaPhala, IKarmaPhalaConfig } from './core/karma-phala';
+import { SutraSnapshotStore } from './core/sutra-snapshot-store';
+import {
+  KarmaPhala,
+  IKarmaPhalaConfig,
+  IMilestoneNode,
+  IMilestoneRelations,
+} from './core/karma-phala';
+import { KarmaPhalaStatusBar } from './core/karma-phala-status';
+import { KarmaPhalaTreeProvider } from './core/karma-phala-tree';
+import {
+  IMilestoneTemplate,
+  loadMilestoneTemplates,
+  parseTemplates,
+} from './core/milestone-templates';
 import { DharmaSankata, IDharmaSankataConfig } from './core/dharma-sankata';
-import { YatraManager, IYatraManagerConfig } from './core/yatra-manager';
+import { DharmaSankataStatusBar } from './core/dharma-sankata-status';
+import { YatraManager, IMilestoneSummary, IYatraManagerConfig } from './core/yatra-manager';
 import { JnanaCapture, IJnanaCaptureConfig } from './learning/jnana-capture';
 import { SmritiRecall } from './learning/smriti-recall';
 import { AtmaVichara, IAtmaVicharaConfig } from './reflection/atma-vichara';
 import { DrishtiDashboard, IDrishtiDashboardConfig } from './analytics/drishti-dashboard';
-import { ICoreEvent } from './core/types';
+import { getEstimateAccuracy, IEstimateAccuracy } from './analytics/estimate-accuracy';
+import {
+  ICoreEvent,
+  IDharmaSankataFinding,
+  IMilestone,
+  ISutraCheckpoint,
+  ISutraRunResult,
+  IYatra,
+} from './core/types';
 import { JnanaCategory } from './learning/types';
 
+/**
+ * URI scheme used to show checkpoint snapshots in the diff editor
+ */
+const SUTRA_SNAPSHOT_SCHEME = 'tridishti-sutra';
+
 /**
  * Extension activation function
  * @param context VS Code extension context
@@ -42,10 +72,18 @@ export function activate(context: vscode.ExtensionContext): void {
     interval: config.get<number>('checkpointInterval', 30),
     autoCommit: config.get<boolean>('autoCommit', false),
     enabled: config.get<boolean>('enabled', true),
+    coalesceDelay: config.get<number>('checkpointCoalesceDelay', 5),
+    largeEditThreshold: config.get<number>('largeEditThreshold', 50),
+    commitTarget: config.get<string>('checkpointCommitTarget', 'branch') as
+      | 'branch'
+      | 'refs'
+      | 'side-branch',
+    retentionWindow: config.get<number>('checkpointRetentionWindow', 60),
+    thinningInterval: config.get<number>('checkpointThinningInterval', 15),
   };
 
   const karmaPhalaConfig: IKarmaPhalaConfig = {
-    milestoneThreshold: config.get<number>('milestoneThreshold', 120),
+    milestoneThreshold: config.get<number>('milestoneThreshold', 120) * 60, // setting is in minutes
     autoTag: config.get<boolean>('autoTag', false),
     enabled: config.get<boolean>('enabled', true),
     nudgeStrategy: config.get<string>('nudgeStrategy', 'default') as
@@ -53,12 +91,18 @@ export function activate(context: vscode.ExtensionContext): void {
       | 'deep-work'
       | 'exploration'
       | 'maintenance',
+    scoreWeights: config.get<Record<string, number>>('scoreWeights', {}),
+    overrunWarnings: config.get<number[]>('milestoneOverrunWarnings', [100, 150]),
+    tagNameTemplate: config.get<string>('tagNameTemplate', 'milestone-{name}-{score}'),
+    annotatedTags: config.get<boolean>('annotatedTags', true),
   };
 
   const dharmaSankataConfig: IDharmaSankataConfig = {
     scopeCheckInterval: config.get<number>('scopeCheckInterval', 60),
     fileChangeThreshold: config.get<number>('fileChangeThreshold', 10),
     enabled: config.get<boolean>('enabled', true),
+    focusBaselineWindow: config.get<number>('focusBaselineWindow', 15) * 60, // minutes
+    focusBaselineCheckpoints: config.get<number>('focusBaselineCheckpoints', 3),
   };
 
   const yatraManagerConfig: IYatraManagerConfig = {
@@ -66,19 +110,37 @@ export function activate(context: vscode.ExtensionContext): void {
     autoStart: false,
     persistState: true,
     sankalpaReminderInterval: 600, // 10 minutes
+    milestoneNudgeInterval: 60,
+    milestoneNudgeSnooze: 1800, // 30 minutes
+    idleTimeout: config.get<number>('idleTimeout', 5) * 60, // setting is in minutes; 0 disables
   };
 
+  // Checkpoint contents are kept in extension storage so they never touch the user's git history
+  const storageUri = context.storageUri || context.globalStorageUri;
+  const snapshotStore = new SutraSnapshotStore(path.join(storageUri.fsPath, 'sutra-snapshots'));
+
+  // Shared view of the files changed during a yatra
+  const changeTracker = new ChangeTracker();
+  const gitService = new GitService();
+
   // Create module instances
-  const sutraCheckpoints = new SutraCheckpoints(sutraCheckpointsConfig, eventEmitter);
-  const karmaPhala = new KarmaPhala(karmaPhalaConfig, eventEmitter);
-  const dharmaSankata = new DharmaSankata(dharmaSankataConfig, eventEmitter);
+  const sutraCheckpoints = new SutraCheckpoints(
+    sutraCheckpointsConfig,
+    eventEmitter,
+    snapshotStore,
+    changeTracker,
+    gitService
+  );
+  const karmaPhala = new KarmaPhala(karmaPhalaConfig, eventEmitter, gitService);
+  const dharmaSankata = new DharmaSankata(dharmaSankataConfig, eventEmitter, changeTracker);
   const yatraManager = new YatraManager(
     yatraManagerConfig,
     eventEmitter,
     sutraCheckpoints,
     karmaPhala,
     dharmaSankata,
-    context.globalState
+    context.globalState,
+    changeTracker
   );
 
   // Initialize learning modules
@@ -98,6 +160,9 @@ export function activate(context: vscode.ExtensionContext): void {
   const jnanaCapture = new JnanaCapture(jnanaCaptureConfig);
   const smritiRecall = new SmritiRecall({ provider: 'memory' }, jnanaCapture);
 
+  // Jnana captured during a milestone goes into its tag's release notes
+  karmaPhala.setJnanaSource(() => jnanaCapture.getAllJnana());
+
   // Initialize reflection module
   const atmaVicharaConfig: IAtmaVicharaConfig = {
     enabled: config.get<boolean>('enabled', true),
@@ -126,6 +191,20 @@ export function activate(context: vscode.ExtensionContext): void {
     drishtiDashboard.recordEvent(event);
   });
 
+  // Auto-commit and auto-tag failures are recorded on the outcome rather than thrown
+  eventEmitter.event(event => {
+    if ((event.type === 'checkpoint' || event.type === 'milestone') && 'gitError' in event.data) {
+      vscode.window.showWarningMessage(`Tridishti git integration: ${event.data.gitError}`);
+    }
+  });
+
+  const karmaPhalaTreeView = vscode.window.createTreeView('tridishti.milestones', {
+    treeDataProvider: new KarmaPhalaTreeProvider(karmaPhala, eventEmitter),
+    showCollapseAll: true,
+  });
+  const karmaPhalaStatusBar = new KarmaPhalaStatusBar(karmaPhala, eventEmitter);
+  const dharmaSankataStatusBar = new DharmaSankataStatusBar(eventEmitter);
+
   // Register VS Code commands
   const createSutraCommand = vscode.commands.registerCommand('tridishti.createSutra', async () => {
     const message = await vscode.window.showInputBox({
@@ -143,9 +222,311 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   });
 
+  /**
+   * Squashes the checkpoint commits of the current (or just ended) yatra after confirmation
+   */
+  const squashYatra = async (): Promise<void> => {
+    const action = await vscode.window.showWarningMessage(
+      'Squash all checkpoint commits of this yatra into a single commit?',
+      { modal: true },
+      'Squash'
+    );
+    if (action !== 'Squash') {
+      return;
+    }
+
+    try {
+      const hashes = await yatraManager.squashYatra();
+      vscode.window.showInformationMessage(
+        hashes.length > 0
+          ? `Yatra squashed into ${hashes.join(', ')}`
+          : 'Checkpoint commits removed; there were no changes left to commit'
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to squash yatra: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+
+  const squashYatraCommand = vscode.commands.registerCommand('tridishti.squashYatra', squashYatra);
+
+  // Serves checkpoint file contents to the diff editor, addressed by snapshot hash
+  const snapshotContentProvider = vscode.workspace.registerTextDocumentContentProvider(
+    SUTRA_SNAPSHOT_SCHEME,
+    {
+      provideTextDocumentContent: async uri => {
+        const content = uri.query ? await snapshotStore.read(uri.query) : undefined;
+        return content ? content.toString('utf-8') : '';
+      },
+    }
+  );
+
+  const restoreSutraCommand = vscode.commands.registerCommand(
+    'tridishti.restoreSutra',
+    async (selected?: ISutraCheckpoint) => {
+      const yatra = yatraManager.getCurrentYatra();
+      const checkpoints = (yatra?.checkpoints || []).filter(
+        cp => cp.snapshot && cp.snapshot.length
+      );
+
+      if (checkpoints.length === 0) {
+        vscode.window.showInformationMessage('No restorable checkpoints in the current yatra.');
+        return;
+      }
+
+      // Checkpoints chosen from Find Sutra skip straight to file selection
+      const checkpointPick = selected?.snapshot?.length
+        ? { label: getCheckpointLabel(selected), checkpoint: selected }
+        : await vscode.window.showQuickPick(
+            checkpoints
+              .slice()
+              .reverse()
+              .map(checkpoint => ({
+                label: getCheckpointLabel(checkpoint),
+                description: new Date(checkpoint.timestamp).toLocaleString(),
+                detail: `${checkpoint.snapshot!.length} file(s)`,
+                checkpoint,
+              })),
+            { placeHolder: 'Select a checkpoint to restore' }
+          );
+
+      if (!checkpointPick) {
+        return;
+      }
+
+      const checkpoint = checkpointPick.checkpoint;
+      const filePicks = await vscode.window.showQuickPick(
+        checkpoint.snapshot!.map(entry => ({
+          label: path.basename(entry.path),
+          description: entry.hash
+            ? vscode.workspace.asRelativePath(entry.path)
+            : 'deleted at checkpoint',
+          picked: true,
+          entry,
+        })),
+        { placeHolder: 'Select files to roll back', canPickMany: true }
+      );
+
+      if (!filePicks || filePicks.length === 0) {
+        return;
+      }
+
+      let action: string | undefined = 'Preview Diffs';
+      while (action === 'Preview Diffs') {
+        action = await vscode.window.showWarningMessage(
+          `Roll back ${filePicks.length} file(s) to checkpoint "${checkpointPick.label}"?`,
+          { modal: true },
+          'Restore',
+          'Preview Diffs'
+        );
+
+        if (action === 'Preview Diffs') {
+          for (const pick of filePicks) {
+            const snapshotUri = vscode.Uri.from({
+              scheme: SUTRA_SNAPSHOT_SCHEME,
+              path: pick.entry.path,
+              query: pick.entry.hash || '',
+            });
+            await vscode.commands.executeCommand(
+              'vscode.diff',
+              snapshotUri,
+              vscode.Uri.file(pick.entry.path),
+              `${pick.label} (checkpoint ↔ working copy)`,
+              { preview: false }
+            );
+          }
+        }
+      }
+
+      if (action !== 'Restore') {
+        return;
+      }
+
+      try {
+        const restored = await sutraCheckpoints.restoreCheckpoint(
+          checkpoint,
+          filePicks.map(pick => pick.entry.path)
+        );
+        vscode.window.showInformationMessage(
+          `Restored ${restored.length} file(s) from checkpoint: ${checkpointPick.label}`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to restore checkpoint: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  const restoreLastGreenCommand = vscode.commands.registerCommand(
+    'tridishti.restoreLastGreen',
+    async () => {
+      // Like Restore Sutra, only the current yatra's checkpoints are restored
+      const checkpoint = sutraCheckpoints.getLastGreenCheckpoint(
+        yatraManager.getCurrentYatra()?.checkpoints || []
+      );
+      if (!checkpoint) {
+        vscode.window.showInformationMessage(
+          'No checkpoint with passing tests or builds in the current yatra.'
+        );
+        return;
+      }
+
+      await vscode.commands.executeCommand('tridishti.restoreSutra', checkpoint);
+    }
+  );
+
+  // Lets other extensions and tasks report results, e.g. from a custom test runner
+  const recordRunCommand = vscode.commands.registerCommand(
+    'tridishti.recordRun',
+    (run: ISutraRunResult) => {
+      if (!run || typeof run.name !== 'string' || typeof run.passed !== 'boolean') {
+        throw new Error('recordRun expects { kind, name, passed, exitCode?, failingTests? }');
+      }
+      sutraCheckpoints.recordRun({ ...run, kind: run.kind || 'command' });
+    }
+  );
+
+  const findSutraCommand = vscode.commands.registerCommand('tridishti.findSutra', async () => {
+    const inYatra = new Set(
+      (yatraManager.getCurrentYatra()?.checkpoints || []).map(checkpoint => checkpoint.id)
+    );
+    const checkpoints = sutraCheckpoints
+      .searchCheckpoints('')
+      .filter(checkpoint => inYatra.has(checkpoint.id));
+    if (checkpoints.length === 0) {
+      vscode.window.showInformationMessage('No checkpoints in the current yatra.');
+      return;
+    }
+
+    // Labels and annotations are in the description and detail so the quick pick matches them
+    const checkpointPick = await vscode.window.showQuickPick(
+      checkpoints.map(checkpoint => ({
+        label: `${checkpoint.pinned ? '$(pinned) ' : ''}${getCheckpointLabel(checkpoint)}`,
+        description: [
+          ...(checkpoint.runs
+            ? [checkpoint.runs.every(run => run.passed) ? '$(pass)' : '$(error)']
+            : []),
+          ...(checkpoint.workspaceFolders || []),
+          ...(checkpoint.labels || []).map(label => `[${label}]`),
+          new Date(checkpoint.timestamp).toLocaleString(),
+        ].join(' '),
+        detail: checkpoint.annotation || checkpoint.filesChanged.join(', '),
+        checkpoint,
+      })),
+      {
+        placeHolder: 'Search checkpoints by message, label, annotation or file',
+        matchOnDescription: true,
+        matchOnDetail: true,
+      }
+    );
+
+    if (!checkpointPick) {
+      return;
+    }
+
+    const checkpoint = checkpointPick.checkpoint;
+    const action = await vscode.window.showQuickPick(
+      [
+        ...(checkpoint.snapshot?.length ? ['Restore Files…'] : []),
+        'Edit Labels',
+        checkpoint.pinned ? 'Unpin' : 'Pin',
+        'Edit Annotation',
+      ],
+      { placeHolder: getCheckpointLabel(checkpoint) }
+    );
+
+    try {
+      switch (action) {
+        case 'Restore Files…':
+          await vscode.commands.executeCommand('tridishti.restoreSutra', checkpoint);
+          break;
+        case 'Edit Labels': {
+          const labels = await vscode.window.showInputBox({
+            prompt: 'Comma-separated labels',
+            placeHolder: 'known good, tests green, before refactor',
+            value: (checkpoint.labels || []).join(', '),
+          });
+          if (labels !== undefined) {
+            sutraCheckpoints.annotateCheckpoint(checkpoint.id, { labels: labels.split(',') });
+          }
+          break;
+        }
+        case 'Pin':
+        case 'Unpin':
+          sutraCheckpoints.annotateCheckpoint(checkpoint.id, { pinned: action === 'Pin' });
+          break;
+        case 'Edit Annotation': {
+          const annotation = await vscode.window.showInputBox({
+            prompt: 'Annotation for this checkpoint',
+            value: checkpoint.annotation || '',
+          });
+          if (annotation !== undefined) {
+            sutraCheckpoints.annotateCheckpoint(checkpoint.id, { annotation });
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to update checkpoint: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  });
+
+  /**
+   * Asks where a new milestone belongs: the milestone it is a step of (unless given) and the
+   * milestones it is blocked by. Nothing is asked while no milestone is active.
+   * @param parent Milestone the new one is a step of, e.g. picked in the milestone tree
+   * @returns Relations for the new milestone, or undefined if cancelled
+   */
+  const pickMilestoneRelations = async (
+    parent?: IMilestone
+  ): Promise<IMilestoneRelations | undefined> => {
+    const active = karmaPhala.getActiveMilestones();
+    if (active.length === 0) {
+      return {};
+    }
+
+    let parentId = parent?.id;
+    if (!parent) {
+      const parentPick = await vscode.window.showQuickPick(
+        [
+          { label: 'None', description: 'Top-level milestone', milestone: undefined },
+          ...active.map(m => ({
+            label: m.name,
+            description: 'Step of this milestone',
+            milestone: m,
+          })),
+        ],
+        { placeHolder: 'Is this milestone a step of another one?' }
+      );
+      if (!parentPick) {
+        return undefined;
+      }
+      parentId = parentPick.milestone?.id;
+    }
+
+    const candidates = active.filter(m => m.id !== parentId);
+    if (candidates.length === 0) {
+      return { parentId };
+    }
+
+    const blockerPicks = await vscode.window.showQuickPick(
+      candidates.map(m => ({ label: m.name, milestone: m })),
+      { placeHolder: 'Select the milestones it is blocked by (optional)', canPickMany: true }
+    );
+    if (!blockerPicks) {
+      return undefined;
+    }
+
+    return { parentId, blockedBy: blockerPicks.map(pick => pick.milestone.id) };
+  };
+
   const createKarmaPhalaCommand = vscode.commands.registerCommand(
     'tridishti.createKarmaPhala',
-    async () => {
+    async (parentNode?: IMilestoneNode) => {
       const name = await vscode.window.showInputBox({
         prompt: 'Enter milestone name',
         placeHolder: 'What milestone are you reaching?',
@@ -155,8 +536,27 @@ export function activate(context: vscode.ExtensionContext): void {
       });
 
       if (name) {
+        const target = await vscode.window.showInputBox({
+          prompt: 'Target duration in minutes (optional)',
+          placeHolder: 'How long should this take?',
+          validateInput: value => {
+            return value.trim().length === 0 || Number(value) > 0
+              ? undefined
+              : 'Enter a positive number of minutes';
+          },
+        });
+        if (target === undefined) {
+          return;
+        }
+
         try {
-          const milestone = karmaPhala.createMilestone(name.trim());
+          const relations = await pickMilestoneRelations(parentNode?.milestone);
+          if (!relations) {
+            return;
+          }
+
+          const targetDuration = target.trim() ? Math.round(Number(target) * 60) : undefined;
+          const milestone = karmaPhala.createMilestone(name.trim(), targetDuration, relations);
           vscode.window.showInformationMessage(`Karma Phala milestone created: ${milestone.name}`);
         } catch (error) {
           vscode.window.showErrorMessage(
@@ -167,6 +567,235 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   );
 
+  /**
+   * Picks one of the given milestones, skipping the question when there is only one
+   * @param milestones Milestones to pick from
+   * @param placeHolder Question to ask
+   * @returns Picked milestone, or undefined if cancelled
+   */
+  const pickMilestone = async (
+    milestones: IMilestone[],
+    placeHolder: string
+  ): Promise<IMilestone | undefined> => {
+    if (milestones.length <= 1) {
+      return milestones[0];
+    }
+
+    const pick = await vscode.window.showQuickPick(
+      milestones.map(m => ({ label: m.name, milestone: m })),
+      { placeHolder }
+    );
+    return pick?.milestone;
+  };
+
+  const pauseMilestoneCommand = vscode.commands.registerCommand(
+    'tridishti.pauseMilestone',
+    async (node?: IMilestoneNode) => {
+      const milestone =
+        node?.milestone ||
+        (await pickMilestone(
+          karmaPhala.getActiveMilestones().filter(m => !karmaPhala.isMilestonePaused(m.id)),
+          'Select the milestone to pause'
+        ));
+      if (!milestone) {
+        vscode.window.showInformationMessage('No running milestone to pause');
+        return;
+      }
+
+      if (karmaPhala.pauseMilestone(milestone.id)) {
+        vscode.window.showInformationMessage(`Karma Phala milestone paused: ${milestone.name}`);
+      }
+    }
+  );
+
+  const resumeMilestoneCommand = vscode.commands.registerCommand(
+    'tridishti.resumeMilestone',
+    async (node?: IMilestoneNode) => {
+      if (yatraManager.isPaused()) {
+        vscode.window.showWarningMessage('The yatra is paused. Resume the yatra first.');
+        return;
+      }
+
+      const milestone =
+        node?.milestone ||
+        (await pickMilestone(
+          karmaPhala.getActiveMilestones().filter(m => karmaPhala.isMilestonePaused(m.id)),
+          'Select the milestone to resume'
+        ));
+      if (!milestone) {
+        vscode.window.showInformationMessage('No paused milestone to resume');
+        return;
+      }
+
+      if (karmaPhala.resumeMilestone(milestone.id)) {
+        vscode.window.showInformationMessage(`Karma Phala milestone resumed: ${milestone.name}`);
+      }
+    }
+  );
+
+  const completeMilestoneCommand = vscode.commands.registerCommand(
+    'tridishti.completeMilestone',
+    async (node?: IMilestoneNode) => {
+      const milestone =
+        node?.milestone ||
+        (await pickMilestone(karmaPhala.getActiveMilestones(), 'Select the milestone to complete'));
+      if (!milestone) {
+        vscode.window.showInformationMessage('No active milestone to complete');
+        return;
+      }
+
+      try {
+        const summary = await yatraManager.getMilestoneSummary(milestone.id);
+        const action = await vscode.window.showInformationMessage(
+          `Complete milestone "${milestone.name}"?`,
+          { modal: true, detail: getMilestoneSummaryDetail(summary) },
+          'Complete'
+        );
+        if (action !== 'Complete') {
+          return;
+        }
+
+        const result = await yatraManager.completeMilestone(milestone.id);
+        vscode.window.showInformationMessage(
+          `Karma Phala milestone completed: ${milestone.name} (Score: ${result.score})`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to complete milestone: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
+  const abandonMilestoneCommand = vscode.commands.registerCommand(
+    'tridishti.abandonMilestone',
+    async (node?: IMilestoneNode) => {
+      const milestone =
+        node?.milestone ||
+        (await pickMilestone(karmaPhala.getActiveMilestones(), 'Select the milestone to abandon'));
+      if (!milestone) {
+        vscode.window.showInformationMessage('No active milestone to abandon');
+        return;
+      }
+
+      const detail = [`${formatDuration(karmaPhala.getElapsedTime(milestone.id))} spent so far.`];
+      const steps = karmaPhala
+        .getActiveMilestones()
+        .filter(m => m.parentId === milestone.id)
+        .map(m => m.name);
+      if (steps.length > 0) {
+        detail.push(`Its active steps are abandoned too: ${steps.join(', ')}`);
+      }
+
+      const action = await vscode.window.showWarningMessage(
+        `Abandon milestone "${milestone.name}"?`,
+        { modal: true, detail: detail.join('\n') },
+        'Abandon'
+      );
+      if (action !== 'Abandon') {
+        return;
+      }
+
+      karmaPhala.abandonMilestone(milestone.id);
+      vscode.window.showInformationMessage(`Karma Phala milestone abandoned: ${milestone.name}`);
+    }
+  );
+
+  const loadTemplates = async (): Promise<IMilestoneTemplate[]> => {
+    const configured = vscode.workspace
+      .getConfiguration('tridishti')
+      .get<unknown[]>('milestoneTemplates', []);
+    try {
+      return await loadMilestoneTemplates(configured);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      vscode.window.showWarningMessage(`${message}. Using the templates from settings only.`);
+      return parseTemplates(configured);
+    }
+  };
+
+  const startYatraCommand = vscode.commands.registerCommand('tridishti.startYatra', async () => {
+    if (yatraManager.getCurrentYatra()) {
+      vscode.window.showInformationMessage('A yatra is already active');
+      return;
+    }
+
+    const sankalpa = await vscode.window.showInputBox({
+      prompt: 'Sankalpa: what do you intend to do in this yatra?',
+      placeHolder: 'e.g., Fix the login redirect bug',
+    });
+    if (sankalpa === undefined) {
+      return;
+    }
+
+    // Recurring templates are laid out every time; the others are offered
+    const templates = await loadTemplates();
+    const selected = templates.filter(t => t.recurring);
+    const offered = templates.filter(t => !t.recurring);
+    if (offered.length > 0) {
+      const pick = await vscode.window.showQuickPick(
+        [
+          { label: 'No template', template: undefined },
+          ...offered.map(template => ({
+            label: template.name,
+            description: template.milestones.map(step => step.name).join(' → '),
+            detail: template.description,
+            template,
+          })),
+        ],
+        { placeHolder: 'Lay out milestones from a template?' }
+      );
+      if (!pick) {
+        return;
+      }
+      if (pick.template) {
+        selected.push(pick.template);
+      }
+    }
+
+    try {
+      const yatra = await yatraManager.startYatra(sankalpa || undefined, selected);
+      vscode.window.showInformationMessage(
+        `Yatra started: ${yatra.sankalpa || 'New session'} 🚶` +
+          (selected.length > 0 ? ` (${selected.map(t => t.name).join(', ')})` : '')
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to start yatra: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  });
+
+  const pauseYatraCommand = vscode.commands.registerCommand('tridishti.pauseYatra', async () => {
+    try {
+      if (yatraManager.isPaused()) {
+        vscode.window.showInformationMessage('The yatra is already paused');
+        return;
+      }
+      await yatraManager.pauseYatra();
+      vscode.window.showInformationMessage('Yatra paused. Its milestones are paused too. ⏸️');
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to pause yatra: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  });
+
+  const resumeYatraCommand = vscode.commands.registerCommand('tridishti.resumeYatra', async () => {
+    try {
+      if (!yatraManager.isPaused()) {
+        vscode.window.showInformationMessage('The yatra is not paused');
+        return;
+      }
+      await yatraManager.resumeYatra();
+      vscode.window.showInformationMessage('Yatra resumed. Welcome back! 🚶');
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to resume yatra: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  });
+
   const captureJnanaCommand = vscode.commands.registerCommand(
     'tridishti.captureJnana',
     async () => {
@@ -206,16 +835,26 @@ export function activate(context: vscode.ExtensionContext): void {
 
   const checkDharmaCommand = vscode.commands.registerCommand('tridishti.checkDharma', async () => {
     try {
-      const sankata = await dharmaSankata.checkScope();
+      const sankata = await dharmaSankataStatusBar.withoutNotifications(() =>
+        dharmaSankata.checkScope()
+      );
+      dharmaSankataStatusBar.clear();
 
       if (sankata.detected) {
+        const findings = sankata.findings || [];
+        const actions = findings.some(finding => finding.reason === 'focus_drift')
+          ? ['Accept into Scope']
+          : [];
         const action = await vscode.window.showWarningMessage(
-          `Dharma Sankata detected: ${sankata.reason}`,
+          `Dharma Sankata detected (${sankata.severity}): ${findings.map(finding => finding.reason).join(', ')}`,
+          ...actions,
           'View Details',
           'Dismiss'
         );
 
-        if (action === 'View Details') {
+        if (action === 'Accept into Scope') {
+          await vscode.commands.executeCommand('tridishti.acceptFocusArea');
+        } else if (action === 'View Details') {
           const panel = vscode.window.createWebviewPanel(
             'dharma-alert',
             'Dharma Sankata Alert',
@@ -234,6 +873,43 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   });
 
+  const acceptFocusAreaCommand = vscode.commands.registerCommand(
+    'tridishti.acceptFocusArea',
+    async () => {
+      if (!dharmaSankata.getFocusArea()) {
+        vscode.window.showInformationMessage(
+          'The focus area is still being learned from the start of the yatra'
+        );
+        return;
+      }
+
+      const outside = await dharmaSankata.getWorkOutsideFocus();
+      if (outside.length === 0) {
+        vscode.window.showInformationMessage('All current work is within the focus area');
+        return;
+      }
+
+      const picks = await vscode.window.showQuickPick(
+        outside.map(file => ({ label: vscode.workspace.asRelativePath(file), file, picked: true })),
+        { canPickMany: true, placeHolder: 'Select the work to accept into scope' }
+      );
+      if (!picks || picks.length === 0) {
+        return;
+      }
+
+      try {
+        await dharmaSankata.acceptIntoFocus(picks.map(pick => pick.file));
+        vscode.window.showInformationMessage(
+          `Accepted ${picks.length} file${picks.length === 1 ? '' : 's'} into the focus area`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to accept work into scope: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  );
+
   const showYatraCommand = vscode.commands.registerCommand('tridishti.showYatra', async () => {
     try {
       const yatra = yatraManager.getCurrentYatra();
@@ -296,6 +972,21 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   });
 
+  const showEstimateAccuracyCommand = vscode.commands.registerCommand(
+    'tridishti.showEstimateAccuracy',
+    () => {
+      const panel = vscode.window.createWebviewPanel(
+        'estimate-accuracy',
+        'Milestone Estimate Accuracy',
+        vscode.ViewColumn.One,
+        {}
+      );
+      panel.webview.html = getEstimateAccuracyWebviewContent(
+        getEstimateAccuracy(yatraManager.getEstimateHistory())
+      );
+    }
+  );
+
   const atmaVicharaCommand = vscode.commands.registerCommand('tridishti.atmaVichara', async () => {
     try {
       const yatra = yatraManager.getCurrentYatra();
@@ -330,6 +1021,10 @@ export function activate(context: vscode.ExtensionContext): void {
       vscode.window.showInformationMessage(
         `Session completed! Score: ${reflection.score}/100. Take time to reflect. 🪞`
       );
+
+      if (completedYatra.checkpoints.some(cp => cp.gitCommits?.length)) {
+        await squashYatra();
+      }
     } catch (error) {
       vscode.window.showErrorMessage(
         `Failed to perform Atma Vichara: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -339,8 +1034,10 @@ export function activate(context: vscode.ExtensionContext): void {
 
   // Auto-start yatra if configured
   if (yatraManagerConfig.autoStart) {
-    yatraManager
-      .startYatra()
+    loadTemplates()
+      .then(templates =>
+        yatraManager.startYatra(undefined, templates.filter(t => t.recurring))
+      )
       .then(yatra => {
         vscode.window.showInformationMessage(
           `Yatra started automatically: ${yatra.sankalpa || 'New session'}`
@@ -372,7 +1069,25 @@ export function activate(context: vscode.ExtensionContext): void {
   // Register all commands and subscriptions
   context.subscriptions.push(
     createSutraCommand,
+    restoreSutraCommand,
+    findSutraCommand,
+    restoreLastGreenCommand,
+    recordRunCommand,
+    squashYatraCommand,
+    snapshotContentProvider,
     createKarmaPhalaCommand,
+    completeMilestoneCommand,
+    abandonMilestoneCommand,
+    pauseMilestoneCommand,
+    resumeMilestoneCommand,
+    startYatraCommand,
+    acceptFocusAreaCommand,
+    pauseYatraCommand,
+    resumeYatraCommand,
+    karmaPhalaTreeView,
+    karmaPhalaStatusBar,
+    dharmaSankataStatusBar,
+    showEstimateAccuracyCommand,
     captureJnanaCommand,
     checkDharmaCommand,
     showYatraCommand,
@@ -392,19 +1107,33 @@ export function activate(context: vscode.ExtensionContext): void {
         interval: newConfig.get<number>('checkpointInterval', 30),
         autoCommit: newConfig.get<boolean>('autoCommit', false),
         enabled: newConfig.get<boolean>('enabled', true),
+        coalesceDelay: newConfig.get<number>('checkpointCoalesceDelay', 5),
+        largeEditThreshold: newConfig.get<number>('largeEditThreshold', 50),
+        commitTarget: newConfig.get<string>('checkpointCommitTarget', 'branch') as
+          | 'branch'
+          | 'refs'
+          | 'side-branch',
+        retentionWindow: newConfig.get<number>('checkpointRetentionWindow', 60),
+        thinningInterval: newConfig.get<number>('checkpointThinningInterval', 15),
       });
 
       karmaPhala.updateConfig({
-        milestoneThreshold: newConfig.get<number>('milestoneThreshold', 120),
+        milestoneThreshold: newConfig.get<number>('milestoneThreshold', 120) * 60,
         autoTag: newConfig.get<boolean>('autoTag', false),
         enabled: newConfig.get<boolean>('enabled', true),
         nudgeStrategy: newConfig.get<string>('nudgeStrategy', 'default') as any,
+        scoreWeights: newConfig.get<Record<string, number>>('scoreWeights', {}),
+        overrunWarnings: newConfig.get<number[]>('milestoneOverrunWarnings', [100, 150]),
+        tagNameTemplate: newConfig.get<string>('tagNameTemplate', 'milestone-{name}-{score}'),
+        annotatedTags: newConfig.get<boolean>('annotatedTags', true),
       });
 
       dharmaSankata.updateConfig({
         scopeCheckInterval: newConfig.get<number>('scopeCheckInterval', 60),
         fileChangeThreshold: newConfig.get<number>('fileChangeThreshold', 10),
         enabled: newConfig.get<boolean>('enabled', true),
+        focusBaselineWindow: newConfig.get<number>('focusBaselineWindow', 15) * 60,
+        focusBaselineCheckpoints: newConfig.get<number>('focusBaselineCheckpoints', 3),
       });
     }
   });
@@ -423,6 +1152,103 @@ export function deactivate(): void {
   console.log('Tridishti extension deactivated');
 }
 
+/**
+ * Gets the text used to identify a checkpoint in lists
+ * @param checkpoint Checkpoint to describe
+ * @returns Message, generated summary or ID
+ */
+function getCheckpointLabel(checkpoint: ISutraCheckpoint): string {
+  return checkpoint.message || checkpoint.summary || checkpoint.id;
+}
+
+/**
+ * Formats a duration in whole minutes
+ * @param seconds Duration in seconds
+ * @returns Text such as "45 min"
+ */
+function formatDuration(seconds: number): string {
+  return `${Math.round(seconds / 60)} min`;
+}
+
+/**
+ * Describes what completing a milestone would record, for the confirmation dialog
+ * @param summary Milestone summary
+ * @returns Duration, checkpoints, files and the expected score with its breakdown
+ */
+function getMilestoneSummaryDetail(summary: IMilestoneSummary): string {
+  const { milestone, filesModified } = summary;
+  const duration = milestone.targetDuration
+    ? `${formatDuration(summary.duration)} of ${formatDuration(milestone.targetDuration)} target`
+    : formatDuration(summary.duration);
+  const files = filesModified
+    .slice(0, 10)
+    .map(file => `  ${vscode.workspace.asRelativePath(file)}`);
+  if (filesModified.length > files.length) {
+    files.push(`  …and ${filesModified.length - files.length} more`);
+  }
+  const breakdown = summary.scoreBreakdown.components
+    .map(component => `${component.name} ${component.contribution}`)
+    .join(', ');
+
+  return [
+    `Duration: ${duration}`,
+    `Checkpoints: ${summary.checkpoints.length}`,
+    `Files modified: ${filesModified.length}`,
+    ...files,
+    '',
+    `Score: ${summary.score} (${breakdown})`,
+  ].join('\n');
+}
+
+/**
+ * Generates the HTML for a checkpoint in the yatra webview
+ * @param checkpoint Checkpoint to display
+ * @returns HTML string with pin, labels and annotation
+ */
+function getCheckpointHtml(checkpoint: ISutraCheckpoint): string {
+  const labels = (checkpoint.labels || [])
+    .map(label => ` <span class="label">${escapeHtml(label)}</span>`)
+    .join('');
+  const annotation = checkpoint.annotation
+    ? `<div class="annotation">${escapeHtml(checkpoint.annotation)}</div>`
+    : '';
+  const runs = (checkpoint.runs || [])
+    .map(
+      run =>
+        `<div class="annotation">${run.passed ? '✅' : '❌'} ${escapeHtml(run.name)}${run.failingTests ? ` - failing: ${escapeHtml(run.failingTests.join(', '))}` : ''}</div>`
+    )
+    .join('');
+
+  const folders = (checkpoint.workspaceFolders || [])
+    .map(folder => ` <span class="root">${escapeHtml(folder)}</span>`)
+    .join('');
+
+  return `<div class="checkpoint">${checkpoint.pinned ? '📌 ' : ''}${escapeHtml(getCheckpointLabel(checkpoint))}${folders}${labels}${annotation}${runs}</div>`;
+}
+
+/**
+ * Generates the per-root summary of a multi-root yatra
+ * @param yatra Yatra to summarize
+ * @returns HTML string, empty for single-folder yatras
+ */
+function getWorkspaceFoldersHtml(yatra: IYatra): string {
+  if (!yatra.workspaceFolders?.length) {
+    return '';
+  }
+
+  const rows = yatra.workspaceFolders.map(folder => {
+    const checkpoints = yatra.checkpoints.filter(cp => cp.workspaceFolders?.includes(folder));
+    const files = (yatra.changes || []).filter(change => change.workspaceFolder === folder);
+    const alerts = yatra.dharmaAlerts.filter(alert => alert.details.workspaceFolder === folder);
+    return `<tr><td>${escapeHtml(folder)}</td><td>${checkpoints.length}</td><td>${files.length}</td><td>${alerts.length}</td></tr>`;
+  });
+
+  return `<div class="section">
+    <h2>🗂️ Workspace Folders (${yatra.workspaceFolders.length})</h2>
+    <table><tr><th>Root</th><th>Checkpoints</th><th>Files Changed</th><th>Alerts</th></tr>${rows.join('')}</table>
+  </div>`;
+}
+
 /**
  * Escapes HTML special characters
  * @param text Text to escape
@@ -459,6 +1285,11 @@ export function getYatraWebviewContent(yatra: any): string {
     .sankalpa-input { width: 100%; padding: 8px; margin: 10px 0; border: 1px solid var(--vscode-input-border); border-radius: 4px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); }
     .button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 8px 16px; border-radius: 4px; cursor: pointer; margin: 5px; }
     .button:hover { background: var(--vscode-button-hoverBackground); }
+    .label { display: inline-block; padding: 1px 6px; margin-left: 4px; font-size: 0.85em; border-radius: 8px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+    .annotation { margin-top: 4px; font-size: 0.9em; opacity: 0.8; }
+    .root { display: inline-block; padding: 1px 6px; margin-left: 4px; font-size: 0.85em; border-radius: 4px; border: 1px solid var(--vscode-widget-border); }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-widget-border); }
   </style>
 </head>
 <body>
@@ -471,13 +1302,13 @@ export function getYatraWebviewContent(yatra: any): string {
     <button class="button" onclick="updateSankalpa()">Update Sankalpa</button>
   </div>
 
+  ${getWorkspaceFoldersHtml(yatra)}
+
   <div class="section">
     <h2>🧵 Sutra Checkpoints (${yatra.checkpoints.length})</h2>
     ${
       yatra.checkpoints.length > 0
-        ? yatra.checkpoints
-            .map((cp: any) => `<div class="checkpoint">${escapeHtml(cp.message || cp.id)}</div>`)
-            .join('')
+        ? yatra.checkpoints.map(getCheckpointHtml).join('')
         : '<p>No checkpoints yet. Create your first with Ctrl+Shift+P → "Tridishti: Create Sutra"</p>'
     }
   </div>
@@ -498,7 +1329,7 @@ export function getYatraWebviewContent(yatra: any): string {
     ${
       yatra.dharmaAlerts.length > 0
         ? yatra.dharmaAlerts
-            .map((a: any) => `<div class="alert">${escapeHtml(a.reason)}: ${escapeHtml(a.suggestion || '')}</div>`)
+            .map((a: any) => `<div class="alert">${a.details?.workspaceFolder ? `<span class="root">${escapeHtml(a.details.workspaceFolder)}</span> ` : ''}${escapeHtml(a.findings?.length ? a.findings.map((finding: IDharmaSankataFinding) => finding.reason).join(', ') : a.reason)}: ${escapeHtml(a.suggestion || '')}</div>`)
             .join('')
         : '<p>No scope drift detected. Your dharma is aligned! 🕉️</p>'
     }
@@ -548,6 +1379,7 @@ export function getDharmaAlertWebviewContent(sankata: any): string {
     <h2>${escapeHtml(sankata.reason.replace('_', ' ').toUpperCase())}</h2>
     <p><strong>Reason:</strong> ${escapeHtml(sankata.reason)}</p>
     <p><strong>Detected:</strong> ${sankata.detected ? 'Yes' : 'No'}</p>
+    ${sankata.severity ? `<p><strong>Severity:</strong> ${escapeHtml(sankata.severity)}</p>` : ''}
   </div>
 
   <div class="details">
@@ -557,9 +1389,34 @@ export function getDharmaAlertWebviewContent(sankata: any): string {
       <li><strong>Threshold:</strong> ${sankata.details.threshold}</li>
       ${sankata.details.currentGoal ? `<li><strong>Current Goal:</strong> ${escapeHtml(sankata.details.currentGoal)}</li>` : ''}
       ${sankata.details.detectedGoal ? `<li><strong>Detected Goal:</strong> ${escapeHtml(sankata.details.detectedGoal)}</li>` : ''}
+      ${sankata.details.goalRelevance !== undefined ? `<li><strong>Goal Relevance:</strong> ${Math.round(sankata.details.goalRelevance * 100)}%</li>` : ''}
+      ${sankata.details.topFiles?.length ? `<li><strong>Most Relevant:</strong> ${escapeHtml(sankata.details.topFiles.map((file: string) => vscode.workspace.asRelativePath(file)).join(', '))}</li>` : ''}
+      ${sankata.details.outsideFocus?.length ? `<li><strong>Outside Focus Area:</strong> ${escapeHtml(sankata.details.outsideFocus.map((file: string) => vscode.workspace.asRelativePath(file)).join(', '))}</li>` : ''}
+      ${sankata.details.offTopicFiles?.length ? `<li><strong>Off-topic:</strong> ${escapeHtml(sankata.details.offTopicFiles.map((file: string) => vscode.workspace.asRelativePath(file)).join(', '))}</li>` : ''}
+      ${sankata.details.contextSwitchRate !== undefined ? `<li><strong>Context Switches:</strong> ${sankata.details.contextSwitchRate} per minute</li>` : ''}
+      ${sankata.details.editorSwitchRate !== undefined ? `<li><strong>Editor Switches:</strong> ${sankata.details.editorSwitchRate} per minute</li>` : ''}
+      ${sankata.details.timeAnomaly === 'stall' ? `<li><strong>Without Edits:</strong> ${Math.round((sankata.details.stallDuration || 0) / 60)} minutes</li>` : ''}
+      ${sankata.details.anomalyFiles?.length ? `<li><strong>Files Involved:</strong> ${escapeHtml(sankata.details.anomalyFiles.map((file: string) => vscode.workspace.asRelativePath(file)).join(', '))}</li>` : ''}
     </ul>
   </div>
 
+  ${
+    sankata.findings?.length > 1
+      ? `
+  <div class="details">
+    <h3>Findings</h3>
+    ${sankata.findings
+      .map(
+        (finding: IDharmaSankataFinding) => `<h4>${escapeHtml(finding.reason.replace('_', ' ').toUpperCase())} (${escapeHtml(finding.severity)})</h4>
+    <ul>${finding.evidence.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>
+    <p>${escapeHtml(finding.suggestion)}</p>`
+      )
+      .join('\n    ')}
+  </div>
+  `
+      : ''
+  }
+
   ${
     sankata.suggestion
       ? `
@@ -577,11 +1434,65 @@ export function getDharmaAlertWebviewContent(sankata: any): string {
 }
 
 /**
- * Generates HTML content for drishti dashboard webview
- * @param metrics Dashboard metrics
- * @param health Health status
+ * Generates HTML content for the milestone estimate accuracy report
+ * @param report Estimate accuracy across completed milestones
  * @returns HTML string
  */
+export function getEstimateAccuracyWebviewContent(report: IEstimateAccuracy): string {
+  const minutes = (seconds: number) => `${Math.round(seconds / 60)} min`;
+  const rows = report.estimates
+    .map(
+      estimate => `
+      <tr>
+        <td>${escapeHtml(estimate.name)}</td>
+        <td>${minutes(estimate.targetDuration)}</td>
+        <td>${minutes(estimate.actualDuration)}</td>
+        <td>${(estimate.actualDuration / estimate.targetDuration).toFixed(2)}×</td>
+        <td>${new Date(estimate.completedAt).toLocaleDateString()}</td>
+      </tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Milestone Estimate Accuracy</title>
+  <style>
+    body { font-family: var(--vscode-font-family); padding: 20px; background: var(--vscode-editor-background); color: var(--vscode-editor-foreground); }
+    h1 { color: var(--vscode-textLink-foreground); }
+    .summary { background: var(--vscode-editorWidget-background); padding: 15px; border-radius: 8px; margin: 15px 0; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid var(--vscode-panel-border); }
+  </style>
+</head>
+<body>
+  <h1>🎯 Milestone Estimate Accuracy</h1>
+  ${
+    report.count > 0
+      ? `
+  <div class="summary">
+    <p><strong>Milestones with a target:</strong> ${report.count}</p>
+    <p><strong>Median actual / target:</strong> ${report.medianRatio.toFixed(2)}×</p>
+    <p><strong>Mean error:</strong> ${Math.round(report.meanError * 100)}%</p>
+    <p><strong>On target (±20%):</strong> ${report.onTarget} · <strong>Overrun:</strong> ${report.overrun} · <strong>Underrun:</strong> ${report.underrun}</p>
+  </div>
+
+  <table>
+    <thead>
+      <tr><th>Milestone</th><th>Target</th><th>Actual</th><th>Ratio</th><th>Completed</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  `
+      : '<p>No completed milestones with a target duration yet. Set one when creating a Karma Phala milestone.</p>'
+  }
+</body>
+</html>`;
+}
+
 /**
  * Generates HTML content for drishti dashboard webview
  * @param metrics Dashboard metrics
@@ -857,6 +1768,17 @@ export function getDrishtiWebviewContent(metrics: any, health: any): string {
       <div class="metric-value">${metrics.productivityScore}</div>
       <div class="metric-label">Productivity Score</div>
     </div>
+    ${
+      metrics.linesChanged > 0
+        ? `
+    <div class="metric">
+      <div class="metric-icon">📝</div>
+      <div class="metric-value">${metrics.linesChanged}</div>
+      <div class="metric-label">Lines Changed</div>
+    </div>
+    `
+        : ''
+    }
     ${
       metrics.averageSessionDuration > 0
         ? `
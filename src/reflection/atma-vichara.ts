@@ -11,6 +11,7 @@
  * - Guided prompts
  */
 
+import { getActiveDuration } from '../core/active-time';
 import { IYatra, ISutraCheckpoint } from '../core/types';
 import { IJnana } from '../learning/types';
 
@@ -27,6 +28,16 @@ export interface IReflectionResult {
   score?: number;
 }
 
+/**
+ * Overall shape of the changes made during a yatra
+ */
+export type ChangePattern = 'focused' | 'scattered' | 'iterative' | 'sweeping';
+
+/**
+ * Average lines changed per checkpoint at which a yatra counts as a sweeping rewrite
+ */
+const SWEEPING_LINES_PER_CHECKPOINT = 300;
+
 /**
  * Configuration for atma vichara
  */
@@ -126,7 +137,9 @@ export class AtmaVichara {
   public analyzeDiffs(checkpoints: ISutraCheckpoint[]): {
     totalFilesChanged: number;
     uniqueFiles: string[];
-    changePattern: 'focused' | 'scattered' | 'iterative';
+    totalInsertions: number;
+    totalDeletions: number;
+    changePattern: ChangePattern;
   } {
     const uniqueFiles = new Set<string>();
     for (const checkpoint of checkpoints) {
@@ -141,9 +154,24 @@ export class AtmaVichara {
         ? checkpoints.reduce((sum, cp) => sum + cp.filesChanged.length, 0) / checkpoints.length
         : 0;
 
-    let changePattern: 'focused' | 'scattered' | 'iterative' = 'focused';
+    // Line statistics are only available for checkpoints captured with snapshots
+    const measured = checkpoints.filter(cp => cp.diffStats);
+    let totalInsertions = 0;
+    let totalDeletions = 0;
+    for (const checkpoint of measured) {
+      for (const stat of checkpoint.diffStats || []) {
+        totalInsertions += stat.insertions;
+        totalDeletions += stat.deletions;
+      }
+    }
+    const avgLinesPerCheckpoint =
+      measured.length > 0 ? (totalInsertions + totalDeletions) / measured.length : 0;
+
+    let changePattern: ChangePattern = 'focused';
     if (avgFilesPerCheckpoint > 10) {
       changePattern = 'scattered';
+    } else if (avgLinesPerCheckpoint >= SWEEPING_LINES_PER_CHECKPOINT) {
+      changePattern = 'sweeping';
     } else if (checkpoints.length > 3 && totalFilesChanged < checkpoints.length * 2) {
       changePattern = 'iterative';
     }
@@ -151,6 +179,8 @@ export class AtmaVichara {
     return {
       totalFilesChanged,
       uniqueFiles: Array.from(uniqueFiles),
+      totalInsertions,
+      totalDeletions,
       changePattern,
     };
   }
@@ -166,7 +196,7 @@ export class AtmaVichara {
 
     const duration =
       yatra.endedAt && yatra.startedAt
-        ? Math.floor((yatra.endedAt - yatra.startedAt) / 1000 / 60)
+        ? Math.floor(getActiveDuration(yatra.startedAt, yatra.endedAt, yatra.pauses) / 60)
         : 0;
 
     if (duration > 0) {
@@ -187,6 +217,11 @@ export class AtmaVichara {
     insights.push(
       `Change pattern: ${diffAnalysis.changePattern} (${diffAnalysis.totalFilesChanged} unique files)`
     );
+    if (diffAnalysis.totalInsertions + diffAnalysis.totalDeletions > 0) {
+      insights.push(
+        `Lines changed: +${diffAnalysis.totalInsertions} / -${diffAnalysis.totalDeletions}`
+      );
+    }
 
     return insights;
   }
@@ -216,6 +251,10 @@ export class AtmaVichara {
       improvements.push(
         'Scattered change pattern detected. Consider focusing on one area at a time.'
       );
+    } else if (diffAnalysis.changePattern === 'sweeping') {
+      improvements.push(
+        'Large rewrites between checkpoints. Consider checkpointing more often so each step is easier to review or undo.'
+      );
     }
 
     return improvements;
@@ -18,16 +18,41 @@ const mockVSCode = {
       }),
     })),
     workspaceFolders: [{ uri: { fsPath: '/test/workspace' } }],
+    getWorkspaceFolder: jest.fn(() => undefined),
     textDocuments: [],
-    onDidChangeTextDocument: jest.fn(),
-    onDidSaveTextDocument: jest.fn(),
+    onDidChangeTextDocument: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidSaveTextDocument: jest.fn(() => ({ dispose: jest.fn() })),
+    createFileSystemWatcher: jest.fn(() => ({
+      onDidCreate: jest.fn(() => ({ dispose: jest.fn() })),
+      onDidChange: jest.fn(() => ({ dispose: jest.fn() })),
+      onDidDelete: jest.fn(() => ({ dispose: jest.fn() })),
+      dispose: jest.fn(),
+    })),
+  },
+  tasks: {
+    onDidEndTaskProcess: jest.fn(() => ({ dispose: jest.fn() })),
+  },
+  TaskGroup: {
+    Build: { id: 'build' },
+    Test: { id: 'test' },
   },
   window: {
+    activeTextEditor: undefined,
+    onDidChangeActiveTextEditor: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidChangeTextEditorSelection: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidChangeWindowState: jest.fn(() => ({ dispose: jest.fn() })),
     showInformationMessage: jest.fn().mockResolvedValue(undefined),
     showWarningMessage: jest.fn().mockResolvedValue(undefined),
     showErrorMessage: jest.fn().mockResolvedValue(undefined),
     showInputBox: jest.fn().mockResolvedValue(undefined),
     showQuickPick: jest.fn().mockResolvedValue(undefined),
+    createTreeView: jest.fn(() => ({ dispose: jest.fn() })),
+    createStatusBarItem: jest.fn(() => ({
+      text: '',
+      show: jest.fn(),
+      hide: jest.fn(),
+      dispose: jest.fn(),
+    })),
     createWebviewPanel: jest.fn(() => ({
       webview: {
         html: '',
@@ -40,6 +65,7 @@ const mockVSCode = {
   },
   commands: {
     registerCommand: jest.fn(() => ({ dispose: jest.fn() })),
+    executeCommand: jest.fn().mockResolvedValue(undefined),
   },
   EventEmitter: jest.fn(() => {
     const listeners: ((event: any) => void)[] = [];
@@ -58,6 +84,25 @@ const mockVSCode = {
       }),
     };
   }),
+  TreeItem: jest.fn(function (this: any, label: string, collapsibleState?: number) {
+    this.label = label;
+    this.collapsibleState = collapsibleState;
+  }),
+  TreeItemCollapsibleState: {
+    None: 0,
+    Collapsed: 1,
+    Expanded: 2,
+  },
+  ThemeIcon: jest.fn(function (this: any, id: string) {
+    this.id = id;
+  }),
+  ThemeColor: jest.fn(function (this: any, id: string) {
+    this.id = id;
+  }),
+  StatusBarAlignment: {
+    Left: 1,
+    Right: 2,
+  },
   Memento: jest.fn(() => ({
     get: jest.fn(),
     update: jest.fn(),
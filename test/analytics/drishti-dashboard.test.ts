@@ -303,6 +303,29 @@ describe('DrishtiDashboard', () => {
       expect(metrics.activeYatra).toBeUndefined();
     });
 
+    it('should sum lines changed from checkpoint diff stats', () => {
+      const activeYatra = {
+        id: 'active-yatra',
+        startedAt: Date.now(),
+        checkpoints: [
+          {
+            id: 'cp3',
+            timestamp: Date.now(),
+            filesChanged: ['a.ts', 'b.ts'],
+            diffStats: [
+              { path: 'a.ts', insertions: 10, deletions: 2, hunks: 1 },
+              { path: 'b.ts', insertions: 3, deletions: 5, hunks: 2 },
+            ],
+          },
+        ],
+        milestones: [],
+        dharmaAlerts: [],
+      };
+
+      expect(drishtiDashboard.getMetrics().linesChanged).toBe(0);
+      expect(drishtiDashboard.getMetrics(activeYatra).linesChanged).toBe(20);
+    });
+
     it('should handle empty dashboard', () => {
       const emptyDashboard = new DrishtiDashboard(config);
       const metrics = emptyDashboard.getMetrics();
@@ -0,0 +1,55 @@
+/**
+ * Test suite for the estimate accuracy report
+ */
+
+import { getEstimateAccuracy } from '../../src/analytics/estimate-accuracy';
+import { IMilestoneEstimate } from '../../src/core/types';
+
+describe('getEstimateAccuracy', () => {
+  const estimate = (
+    name: string,
+    targetMinutes: number,
+    actualMinutes: number,
+    completedAt: number
+  ): IMilestoneEstimate => ({
+    milestoneId: name,
+    name,
+    targetDuration: targetMinutes * 60,
+    actualDuration: actualMinutes * 60,
+    completedAt,
+  });
+
+  it('should summarize how actual durations compare with targets', () => {
+    const report = getEstimateAccuracy([
+      estimate('on time', 60, 66, 1),
+      estimate('overrun', 30, 60, 2),
+      estimate('underrun', 60, 30, 3),
+      estimate('slight overrun', 100, 130, 4),
+    ]);
+
+    expect(report.count).toBe(4);
+    expect(report.medianRatio).toBeCloseTo(1.2);
+    expect(report.meanError).toBeCloseTo((0.1 + 1 + 0.5 + 0.3) / 4);
+    expect(report.onTarget).toBe(1);
+    expect(report.overrun).toBe(2);
+    expect(report.underrun).toBe(1);
+    expect(report.estimates.map(e => e.name)).toEqual([
+      'slight overrun',
+      'underrun',
+      'overrun',
+      'on time',
+    ]);
+  });
+
+  it('should report nothing without estimates', () => {
+    expect(getEstimateAccuracy([])).toEqual({
+      count: 0,
+      medianRatio: 0,
+      meanError: 0,
+      onTarget: 0,
+      overrun: 0,
+      underrun: 0,
+      estimates: [],
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Test suite for active time helpers
+ */
+
+import { getActiveDuration, getOpenPause } from '../../src/core/active-time';
+
+describe('active time', () => {
+  const minute = 60000;
+
+  describe('getActiveDuration', () => {
+    it('should return the whole span without pauses', () => {
+      expect(getActiveDuration(0, 30 * minute)).toBe(1800);
+    });
+
+    it('should leave out closed pauses', () => {
+      const pauses = [
+        { start: 5 * minute, end: 10 * minute, reason: 'manual' as const },
+        { start: 20 * minute, end: 25 * minute, reason: 'idle' as const },
+      ];
+
+      expect(getActiveDuration(0, 30 * minute, pauses)).toBe(1200);
+    });
+
+    it('should treat an open pause as lasting until the end', () => {
+      const pauses = [{ start: 20 * minute, reason: 'yatra' as const }];
+
+      expect(getActiveDuration(0, 30 * minute, pauses)).toBe(1200);
+    });
+
+    it('should only count the part of a pause inside the span', () => {
+      const pauses = [
+        { start: 0, end: 15 * minute, reason: 'manual' as const },
+        { start: 25 * minute, end: 60 * minute, reason: 'manual' as const },
+      ];
+
+      expect(getActiveDuration(10 * minute, 30 * minute, pauses)).toBe(600);
+    });
+
+    it('should never be negative', () => {
+      expect(getActiveDuration(30 * minute, 0)).toBe(0);
+    });
+  });
+
+  describe('getOpenPause', () => {
+    it('should return the last pause while it is open', () => {
+      const open = { start: 2, reason: 'manual' as const };
+
+      expect(getOpenPause([{ start: 0, end: 1, reason: 'idle' }, open])).toBe(open);
+    });
+
+    it('should return undefined when every pause is closed', () => {
+      expect(getOpenPause([{ start: 0, end: 1, reason: 'idle' }])).toBeUndefined();
+      expect(getOpenPause()).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Test suite for ActivityMonitor
+ */
+
+import { ActivityMonitor } from '../../src/core/activity-monitor';
+
+describe('ActivityMonitor', () => {
+  let vscode: any;
+  let onIdle: jest.Mock;
+  let onActive: jest.Mock;
+  let monitor: ActivityMonitor;
+
+  const listener = (mock: jest.Mock) => mock.mock.calls[mock.mock.calls.length - 1][0];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    vscode = (global as any).testUtils.mockVSCode;
+    onIdle = jest.fn();
+    onActive = jest.fn();
+    monitor = new ActivityMonitor(300, { onIdle, onActive });
+    monitor.start();
+  });
+
+  afterEach(() => {
+    monitor.dispose();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should report idle once, dated from the last activity', () => {
+    const startedAt = Date.now();
+
+    jest.advanceTimersByTime(5 * 60000);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(60000);
+    expect(monitor.isIdle()).toBe(true);
+    expect(onIdle).toHaveBeenCalledWith(startedAt);
+
+    jest.advanceTimersByTime(10 * 60000);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count edits to files as activity', () => {
+    jest.advanceTimersByTime(4 * 60000);
+    listener(vscode.workspace.onDidChangeTextDocument)({
+      document: { uri: { scheme: 'file' } },
+      contentChanges: [{}],
+    });
+    jest.advanceTimersByTime(4 * 60000);
+
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+
+  it('should ignore edits to non-file documents', () => {
+    jest.advanceTimersByTime(4 * 60000);
+    listener(vscode.workspace.onDidChangeTextDocument)({
+      document: { uri: { scheme: 'output' } },
+      contentChanges: [{}],
+    });
+    jest.advanceTimersByTime(2 * 60000);
+
+    expect(onIdle).toHaveBeenCalled();
+  });
+
+  it('should report the return from idle on the next activity', () => {
+    jest.advanceTimersByTime(6 * 60000);
+    listener(vscode.window.onDidChangeTextEditorSelection)({});
+
+    expect(onActive).toHaveBeenCalledTimes(1);
+    expect(monitor.isIdle()).toBe(false);
+
+    listener(vscode.window.onDidChangeActiveTextEditor)(undefined);
+    expect(onActive).toHaveBeenCalledTimes(1);
+  });
+
+  it('should start the idle clock when the window loses focus', () => {
+    jest.advanceTimersByTime(4 * 60000);
+    listener(vscode.window.onDidChangeWindowState)({ focused: false });
+
+    jest.advanceTimersByTime(4 * 60000);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(2 * 60000);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+
+    listener(vscode.window.onDidChangeWindowState)({ focused: true });
+    expect(onActive).toHaveBeenCalled();
+  });
+
+  it('should stop checking once stopped', () => {
+    monitor.stop();
+    jest.advanceTimersByTime(10 * 60000);
+
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+});
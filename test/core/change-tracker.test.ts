@@ -0,0 +1,227 @@
+/**
+ * Test suite for ChangeTracker module
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChangeTracker } from '../../src/core/change-tracker';
+
+describe('ChangeTracker', () => {
+  let tempDir: string;
+  let mockVSCode: any;
+  let gitOutputs: Record<string, string>;
+  let runGit: jest.Mock;
+  let tracker: ChangeTracker;
+
+  const watcher = () => mockVSCode.workspace.createFileSystemWatcher.mock.results[0].value;
+  const fire = (event: 'onDidCreate' | 'onDidChange' | 'onDidDelete', fsPath: string) =>
+    watcher()[event].mock.calls[0][0]({ fsPath, scheme: 'file' });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tridishti-changes-'));
+    mockVSCode = (global as any).testUtils.mockVSCode;
+    mockVSCode.workspace.workspaceFolders = [{ uri: { fsPath: tempDir } }];
+    mockVSCode.workspace.textDocuments = [];
+
+    gitOutputs = {
+      'rev-parse': `${tempDir}\n`,
+      status: '',
+      diff: '',
+    };
+    runGit = jest.fn(async (args: string[]) => {
+      const output = gitOutputs[args[0]];
+      if (output === undefined) {
+        throw new Error('not a git repository');
+      }
+      return output;
+    });
+    tracker = new ChangeTracker(runGit);
+  });
+
+  afterEach(() => {
+    tracker.stop();
+    mockVSCode.workspace.workspaceFolders = [{ uri: { fsPath: '/test/workspace' } }];
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  describe('lifecycle', () => {
+    it('should track only between start and stop', async () => {
+      expect(tracker.isTracking()).toBe(false);
+
+      await tracker.start();
+      expect(tracker.isTracking()).toBe(true);
+
+      tracker.stop();
+      expect(tracker.isTracking()).toBe(false);
+      expect(watcher().dispose).toHaveBeenCalled();
+    });
+
+    it('should run git with argument arrays in the workspace folder', async () => {
+      await tracker.start();
+
+      expect(runGit).toHaveBeenCalledWith(['rev-parse', '--show-toplevel'], tempDir);
+      expect(runGit).toHaveBeenCalledWith(
+        ['status', '--porcelain', '-z', '--untracked-files=all'],
+        tempDir
+      );
+    });
+  });
+
+  describe('git status', () => {
+    it('should classify added, modified, deleted and renamed files', async () => {
+      await tracker.start();
+      fs.writeFileSync(path.join(tempDir, 'new.ts'), 'one\ntwo\nthree\n');
+      gitOutputs.status = [' M a.ts', ' D b.ts', 'R  c2.ts', 'c.ts', '?? new.ts', ''].join('\0');
+      gitOutputs.diff = ['2\t1\ta.ts', '0\t4\tb.ts', '0\t0\t', 'c.ts', 'c2.ts', ''].join('\0');
+
+      const changes = await tracker.getChangeSet();
+      const byName = (name: string) => changes.find(c => c.path === path.join(tempDir, name));
+
+      expect(byName('a.ts')).toMatchObject({ status: 'modified', linesAdded: 2, linesDeleted: 1 });
+      expect(byName('b.ts')).toMatchObject({ status: 'deleted', linesDeleted: 4 });
+      expect(byName('c2.ts')).toMatchObject({
+        status: 'renamed',
+        previousPath: path.join(tempDir, 'c.ts'),
+      });
+      expect(byName('new.ts')).toMatchObject({ status: 'added', linesAdded: 3 });
+    });
+
+    it('should exclude changes that existed before the yatra started', async () => {
+      gitOutputs.status = [' M old.ts', ''].join('\0');
+      gitOutputs.diff = ['1\t1\told.ts', ''].join('\0');
+      await tracker.start();
+
+      expect(await tracker.getChangeSet()).toEqual([]);
+    });
+
+    it('should include pre-existing changes once they are modified further', async () => {
+      gitOutputs.status = [' M old.ts', ''].join('\0');
+      gitOutputs.diff = ['1\t1\told.ts', ''].join('\0');
+      await tracker.start();
+
+      gitOutputs.diff = ['5\t1\told.ts', ''].join('\0');
+
+      const changes = await tracker.getChangeSet();
+      expect(changes).toHaveLength(1);
+      expect(changes[0].linesAdded).toBe(5);
+    });
+
+    it('should report changes only git sees again once they change further', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      await tracker.start();
+      gitOutputs.status = [' M generated.ts', ''].join('\0');
+      gitOutputs.diff = ['1\t0\tgenerated.ts', ''].join('\0');
+      now.mockReturnValue(2000);
+      expect(await tracker.getChangeSet(1000)).toHaveLength(1);
+
+      now.mockReturnValue(3000);
+      expect(await tracker.getChangeSet(3000)).toEqual([]);
+
+      gitOutputs.diff = ['4\t0\tgenerated.ts', ''].join('\0');
+      now.mockReturnValue(4000);
+      const changes = await tracker.getChangeSet(3000);
+      now.mockRestore();
+
+      expect(changes.map(c => c.linesAdded)).toEqual([4]);
+    });
+
+    it('should read git once for callers in the same tick', async () => {
+      await tracker.start();
+      runGit.mockClear();
+
+      await Promise.all([tracker.getChangeSet(), tracker.getChangeSet()]);
+
+      expect(runGit.mock.calls.filter(([args]) => args[0] === 'status')).toHaveLength(1);
+    });
+
+    it('should ignore watcher events for files git considers unchanged', async () => {
+      await tracker.start();
+      fire('onDidChange', path.join(tempDir, 'out', 'generated.js'));
+
+      expect(await tracker.getChangeSet()).toEqual([]);
+    });
+  });
+
+  describe('file system watcher', () => {
+    beforeEach(() => {
+      delete gitOutputs['rev-parse'];
+    });
+
+    it('should report watcher events outside git repositories', async () => {
+      await tracker.start();
+      const created = path.join(tempDir, 'created.ts');
+      fs.writeFileSync(created, 'a\nb');
+      fire('onDidCreate', created);
+      fire('onDidChange', created);
+      fire('onDidChange', path.join(tempDir, 'changed.ts'));
+      fire('onDidDelete', path.join(tempDir, 'deleted.ts'));
+
+      const changes = await tracker.getChangeSet();
+      const statusOf = (name: string) =>
+        changes.find(c => c.path === path.join(tempDir, name))?.status;
+
+      expect(statusOf('created.ts')).toBe('added');
+      expect(changes.find(c => c.path === created)?.linesAdded).toBe(2);
+      expect(statusOf('changed.ts')).toBe('modified');
+      expect(statusOf('deleted.ts')).toBe('deleted');
+    });
+
+    it('should ignore .git and node_modules paths', async () => {
+      await tracker.start();
+      fire('onDidChange', path.join(tempDir, '.git', 'index'));
+      fire('onDidChange', path.join(tempDir, 'node_modules', 'pkg', 'index.js'));
+
+      expect(await tracker.getChangeSet()).toEqual([]);
+    });
+
+    it('should filter changes by time', async () => {
+      jest.useFakeTimers({ now: 1000 });
+      await tracker.start();
+      fire('onDidChange', path.join(tempDir, 'early.ts'));
+      jest.setSystemTime(5000);
+      fire('onDidChange', path.join(tempDir, 'late.ts'));
+      jest.useRealTimers();
+
+      const changes = await tracker.getChangeSet(5000);
+
+      expect(changes.map(c => c.path)).toEqual([path.join(tempDir, 'late.ts')]);
+    });
+  });
+
+  describe('editor buffers', () => {
+    it('should include dirty documents', async () => {
+      await tracker.start();
+      mockVSCode.workspace.textDocuments = [
+        { uri: { fsPath: path.join(tempDir, 'dirty.ts'), scheme: 'file' }, isDirty: true },
+        { uri: { fsPath: 'untitled-1', scheme: 'untitled' }, isDirty: true },
+      ];
+
+      const changes = await tracker.getChangeSet();
+
+      expect(changes).toEqual([
+        {
+          path: path.join(tempDir, 'dirty.ts'),
+          status: 'modified',
+          linesAdded: 0,
+          linesDeleted: 0,
+          dirty: true,
+        },
+      ]);
+    });
+
+    it('should mark git changes with unsaved edits as dirty', async () => {
+      await tracker.start();
+      gitOutputs.status = [' M a.ts', ''].join('\0');
+      mockVSCode.workspace.textDocuments = [
+        { uri: { fsPath: path.join(tempDir, 'a.ts'), scheme: 'file' }, isDirty: true },
+      ];
+
+      const [change] = await tracker.getChangeSet();
+
+      expect(change.dirty).toBe(true);
+      expect(change.status).toBe('modified');
+    });
+  });
+});
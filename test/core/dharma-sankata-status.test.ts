@@ -0,0 +1,93 @@
+/**
+ * Test suite for DharmaSankataStatusBar
+ */
+
+import { DharmaSankataStatusBar } from '../../src/core/dharma-sankata-status';
+import { DharmaSankataSeverity, IDharmaSankata } from '../../src/core/types';
+
+describe('DharmaSankataStatusBar', () => {
+  let vscode: any;
+  let eventEmitter: any;
+  let statusBar: DharmaSankataStatusBar;
+  let item: any;
+
+  const alert = (severity: DharmaSankataSeverity): IDharmaSankata => ({
+    detected: true,
+    timestamp: Date.now(),
+    reason: 'file_threshold',
+    severity,
+    findings: [
+      {
+        reason: 'file_threshold',
+        severity,
+        evidence: ['12 files changed', 'Threshold: 10'],
+        suggestion: 'Consider breaking this into smaller, focused changes.',
+      },
+    ],
+    details: { filesChanged: 12, threshold: 10 },
+    suggestion: 'Consider breaking this into smaller, focused changes.',
+  });
+  const raise = (sankata: IDharmaSankata) =>
+    eventEmitter.fire({ type: 'dharma_alert', timestamp: Date.now(), data: sankata });
+
+  beforeEach(() => {
+    vscode = (global as any).testUtils.mockVSCode;
+    eventEmitter = new vscode.EventEmitter();
+    statusBar = new DharmaSankataStatusBar(eventEmitter);
+    item = vscode.window.createStatusBarItem.mock.results.slice(-1)[0].value;
+  });
+
+  afterEach(() => {
+    statusBar.dispose();
+    jest.clearAllMocks();
+  });
+
+  it('should stay hidden without alerts', () => {
+    expect(item.hide).toHaveBeenCalled();
+    expect(item.show).not.toHaveBeenCalled();
+  });
+
+  it('should record informational alerts silently', () => {
+    raise(alert('info'));
+
+    expect(item.show).not.toHaveBeenCalled();
+    expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it('should badge warnings without notifying', () => {
+    raise(alert('warn'));
+    raise(alert('warn'));
+
+    expect(item.text).toBe('$(warning) 2');
+    expect(item.tooltip).toContain('warn: file_threshold - 12 files changed; Threshold: 10');
+    expect(item.backgroundColor).toBeUndefined();
+    expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it('should notify and highlight critical alerts', () => {
+    raise(alert('critical'));
+
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'Dharma Sankata: Consider breaking this into smaller, focused changes.'
+    );
+    expect(item.text).toBe('$(warning) 1');
+    expect(item.backgroundColor).toBeDefined();
+  });
+
+  it('should not notify alerts of checks the user asked for', async () => {
+    await statusBar.withoutNotifications(async () => raise(alert('critical')));
+    raise(alert('critical'));
+
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clear the badge when checked or when a new yatra starts', () => {
+    raise(alert('warn'));
+    statusBar.clear();
+    expect(item.hide).toHaveBeenCalledTimes(2);
+
+    raise(alert('warn'));
+    eventEmitter.fire({ type: 'yatra_start', timestamp: Date.now(), data: {} });
+    expect(item.hide).toHaveBeenCalledTimes(3);
+  });
+});
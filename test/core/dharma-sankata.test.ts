@@ -2,7 +2,13 @@
  * Test suite for DharmaSankata module
  */
 
-import { DharmaSankata, IDharmaSankataConfig } from '../../src/core/dharma-sankata';
+import {
+  DharmaSankata,
+  getAggregateSeverity,
+  getAlertAction,
+  IDharmaSankataConfig,
+} from '../../src/core/dharma-sankata';
+import { IDharmaSankataFinding } from '../../src/core/types';
 
 describe('DharmaSankata', () => {
   let config: IDharmaSankataConfig;
@@ -56,6 +62,15 @@ describe('DharmaSankata', () => {
 
       expect(result.detected).toBe(true);
       expect(result.reason).toBe('file_threshold');
+      expect(result.severity).toBe('warn');
+      expect(result.findings).toEqual([
+        {
+          reason: 'file_threshold',
+          severity: 'warn',
+          evidence: ['11 files changed', 'Threshold: 10'],
+          suggestion: result.suggestion,
+        },
+      ]);
       expect(result.suggestion).toContain('exceeds the threshold');
       expect(eventEmitter.fire).toHaveBeenCalledWith({
         type: 'dharma_alert',
@@ -82,6 +97,76 @@ describe('DharmaSankata', () => {
       expect(result.reason).toBe('goal_mismatch');
       expect(result.details.detectedGoal).toBeDefined();
       expect(result.suggestion).toContain('diverge from your stated goal');
+      expect(result.suggestion).toContain('Least related: subscription.ts, checkout.ts');
+      expect(result.details.goalRelevance).toBe(0);
+    });
+
+    it('should judge goal alignment by what the files contain', async () => {
+      dharmaSankata.setGoal('fix login timeout');
+      const mockVSCode = (global as any).testUtils.mockVSCode;
+      const open = (fsPath: string, text: string) => ({
+        uri: { fsPath, scheme: 'file' },
+        isDirty: true,
+        getText: () => text,
+      });
+      mockVSCode.workspace.textDocuments = [
+        open('/src/auth/handler.ts', "import { Store } from './store';\nconst LOGIN_TIMEOUT = 30;"),
+        open('/src/auth/store.ts', 'export class Store {}'),
+        open('/src/billing/invoice.ts', 'export class Invoice {}'),
+      ];
+
+      const result = await dharmaSankata.checkScope();
+
+      expect(result.detected).toBe(false);
+      expect(result.details.goalRelevance).toBe(0.67);
+      expect(result.details.topFiles).toEqual(['/src/auth/handler.ts', '/src/auth/store.ts']);
+      expect(result.details.offTopicFiles).toEqual(['/src/billing/invoice.ts']);
+      mockVSCode.workspace.textDocuments = [];
+    });
+
+    it('should report every check that found drift, led by the most severe', async () => {
+      dharmaSankata.setGoal('user authentication');
+      const mockVSCode = (global as any).testUtils.mockVSCode;
+      mockVSCode.workspace.textDocuments = Array.from({ length: 12 }, (_, i) => ({
+        uri: { fsPath: `/src/billing/invoice${i}.ts`, scheme: 'file' },
+        isDirty: true,
+      }));
+
+      const result = await dharmaSankata.checkScope();
+
+      expect(result.findings!.map(finding => [finding.reason, finding.severity])).toEqual([
+        ['file_threshold', 'warn'],
+        ['goal_mismatch', 'critical'],
+      ]);
+      expect(result.findings![1].evidence).toContain('Goal relevance: 0%');
+      expect(result.reason).toBe('goal_mismatch');
+      expect(result.suggestion).toContain('diverge from your stated goal');
+      expect(result.severity).toBe('critical');
+      mockVSCode.workspace.textDocuments = [];
+    });
+
+    it('should raise an alert again only when its findings change', async () => {
+      const mockVSCode = (global as any).testUtils.mockVSCode;
+      const files = (count: number) =>
+        Array.from({ length: count }, (_, i) => ({
+          uri: { fsPath: `/src/file${i}.ts`, scheme: 'file' },
+          isDirty: true,
+        }));
+      mockVSCode.workspace.textDocuments = files(11);
+
+      await dharmaSankata.checkScope();
+      const repeated = await dharmaSankata.checkScope();
+
+      expect(repeated.detected).toBe(true);
+      expect(dharmaSankata.getAlerts()).toHaveLength(1);
+
+      mockVSCode.workspace.textDocuments = files(21);
+      await dharmaSankata.checkScope();
+
+      expect(dharmaSankata.getAlerts()).toHaveLength(2);
+      expect(dharmaSankata.getLatestAlert()?.severity).toBe('critical');
+      expect(eventEmitter.fire).toHaveBeenCalledTimes(2);
+      mockVSCode.workspace.textDocuments = [];
     });
 
     it('should not detect goal mismatch when no goal set', async () => {
@@ -158,6 +243,24 @@ describe('DharmaSankata', () => {
       jest.runOnlyPendingTimers();
     });
 
+    it('should report a failed periodic check instead of rejecting', async () => {
+      jest.useFakeTimers();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const error = new Error('git failed');
+      const failing = new DharmaSankata(config, eventEmitter, {
+        isTracking: () => true,
+        getChangeSet: jest.fn().mockRejectedValue(error),
+      } as any);
+      failing.start();
+
+      await jest.advanceTimersByTimeAsync(config.scopeCheckInterval * 1000);
+
+      expect(warn).toHaveBeenCalledWith('Failed to check scope:', error);
+      failing.stop();
+      warn.mockRestore();
+      jest.useRealTimers();
+    });
+
     it('should stop interval', () => {
       dharmaSankata.start();
       dharmaSankata.stop();
@@ -167,42 +270,115 @@ describe('DharmaSankata', () => {
   });
 
   describe('time anomaly detection', () => {
-    it('should detect rapid file changes', async () => {
-      const mockVSCode = (global as any).testUtils.mockVSCode;
+    let mockVSCode: any;
+
+    const edit = (fsPath: string) => {
+      const calls = mockVSCode.workspace.onDidChangeTextDocument.mock.calls;
+      calls[calls.length - 1][0]({
+        document: { uri: { fsPath, scheme: 'file' } },
+        contentChanges: [{}],
+      });
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      mockVSCode = (global as any).testUtils.mockVSCode;
+      dharmaSankata.start();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should alert on rapid switching between edited files with the measured rates', () => {
+      jest.advanceTimersByTime(60000);
+      for (let i = 0; i < 9; i++) {
+        edit(i % 2 ? '/src/invoice.ts' : '/src/login.ts');
+        jest.advanceTimersByTime(5000);
+      }
+
+      const anomalyAlert = dharmaSankata.getAlerts().find(a => a.reason === 'time_anomaly');
+
+      expect(anomalyAlert?.detected).toBe(true);
+      expect(anomalyAlert?.details).toMatchObject({
+        timeAnomaly: 'context_switching',
+        contextSwitchRate: 4.8,
+        anomalyFiles: ['/src/login.ts', '/src/invoice.ts'],
+      });
+      expect(anomalyAlert?.suggestion).toContain('Switching between 2 files 4.8 times a minute');
+      expect(anomalyAlert?.severity).toBe('warn');
+      expect(anomalyAlert?.findings![0].evidence).toEqual([
+        '4.8 context switches a minute',
+        'Files: login.ts, invoice.ts',
+      ]);
+      expect(eventEmitter.fire).toHaveBeenCalledWith({
+        type: 'dharma_alert',
+        timestamp: expect.any(Number),
+        data: anomalyAlert,
+      });
+    });
+
+    it('should not treat repeated scope checks as rapid changes', async () => {
       mockVSCode.workspace.textDocuments = Array(6).fill({
         uri: { fsPath: '/src/file.ts', scheme: 'file' },
         isDirty: true,
       });
 
-      // Simulate rapid changes by calling checkScope multiple times quickly
       await dharmaSankata.checkScope();
       await dharmaSankata.checkScope();
 
-      const alerts = dharmaSankata.getAlerts();
-      const anomalyAlert = alerts.find(a => a.reason === 'time_anomaly');
-
-      expect(anomalyAlert).toBeDefined();
-      expect(anomalyAlert?.detected).toBe(true);
-      expect(anomalyAlert?.reason).toBe('time_anomaly');
+      expect(dharmaSankata.getAlerts().find(a => a.reason === 'time_anomaly')).toBeUndefined();
+      mockVSCode.workspace.textDocuments = [];
     });
 
-    it('should not detect anomaly with slow changes', async () => {
-      const mockVSCode = (global as any).testUtils.mockVSCode;
-      mockVSCode.workspace.textDocuments = [
-        { uri: { fsPath: '/src/file1.ts', scheme: 'file' }, isDirty: true },
-      ];
+    it('should not count time the yatra is paused as a stall', () => {
+      eventEmitter.fire({ type: 'yatra_paused', timestamp: Date.now(), data: {} });
+      jest.advanceTimersByTime(30 * 60000);
 
-      await dharmaSankata.checkScope();
+      expect(dharmaSankata.getAlerts()).toEqual([]);
 
-      // Advance time to simulate slow changes
-      jest.advanceTimersByTime(10000);
+      eventEmitter.fire({ type: 'yatra_resumed', timestamp: Date.now(), data: {} });
+      jest.advanceTimersByTime(20 * 60000);
 
-      await dharmaSankata.checkScope();
+      expect(dharmaSankata.getLatestAlert()?.details).toMatchObject({
+        timeAnomaly: 'stall',
+        stallDuration: 1200,
+      });
+      expect(dharmaSankata.getLatestAlert()?.severity).toBe('info');
+    });
+  });
 
-      const alerts = dharmaSankata.getAlerts();
-      const anomalyAlert = alerts.find(a => a.reason === 'time_anomaly');
+  describe('severity', () => {
+    const finding = (severity: IDharmaSankataFinding['severity']): IDharmaSankataFinding => ({
+      reason: 'file_threshold',
+      severity,
+      evidence: [],
+      suggestion: '',
+    });
 
-      expect(anomalyAlert).toBeUndefined();
+    it('should take the most severe finding', () => {
+      expect(getAggregateSeverity([])).toBeUndefined();
+      expect(getAggregateSeverity([finding('info'), finding('warn')])).toBe('warn');
+      expect(getAggregateSeverity([finding('critical'), finding('info')])).toBe('critical');
+    });
+
+    it('should be critical when several checks warn at once', () => {
+      expect(getAggregateSeverity([finding('warn'), finding('warn')])).toBe('critical');
+    });
+
+    it('should notify critical alerts, badge warnings and keep quiet otherwise', () => {
+      const alert = (severity?: IDharmaSankataFinding['severity']) => ({
+        detected: true,
+        timestamp: Date.now(),
+        reason: 'file_threshold' as const,
+        severity,
+        details: { filesChanged: 0, threshold: 10 },
+      });
+
+      expect(getAlertAction(alert('critical'))).toBe('notify');
+      expect(getAlertAction(alert('warn'))).toBe('badge');
+      expect(getAlertAction(alert('info'))).toBe('silent');
+      expect(getAlertAction(alert())).toBe('silent');
     });
   });
 
@@ -220,6 +396,184 @@ describe('DharmaSankata', () => {
     });
   });
 
+  describe('change tracking', () => {
+    it('should use the yatra change set when a tracker is active', async () => {
+      const changeTracker = {
+        isTracking: jest.fn(() => true),
+        getChangeSet: jest.fn(async () =>
+          Array.from({ length: 12 }, (_, i) => ({ path: `/src/saved-${i}.ts` }))
+        ),
+      };
+      const trackedInstance = new DharmaSankata(config, eventEmitter, changeTracker as any);
+
+      const result = await trackedInstance.checkScope();
+
+      expect(changeTracker.getChangeSet).toHaveBeenCalledWith();
+      expect(result.details.filesChanged).toBe(12);
+      expect(result.detected).toBe(true);
+    });
+
+    it('should fall back to dirty documents when the tracker is idle', async () => {
+      const changeTracker = { isTracking: jest.fn(() => false), getChangeSet: jest.fn() };
+      const mockVSCode = (global as any).testUtils.mockVSCode;
+      mockVSCode.workspace.textDocuments = [];
+      const trackedInstance = new DharmaSankata(config, eventEmitter, changeTracker as any);
+
+      const result = await trackedInstance.checkScope();
+
+      expect(changeTracker.getChangeSet).not.toHaveBeenCalled();
+      expect(result.details.filesChanged).toBe(0);
+    });
+  });
+
+  describe('multi-root workspaces', () => {
+    let mockVSCode: any;
+
+    const dirty = (fsPath: string) => ({ uri: { fsPath, scheme: 'file' }, isDirty: true });
+    const files = (root: string, count: number) =>
+      Array.from({ length: count }, (_, i) => dirty(`${root}/file-${i}.ts`));
+
+    beforeEach(() => {
+      mockVSCode = (global as any).testUtils.mockVSCode;
+      mockVSCode.workspace.workspaceFolders = [
+        { name: 'api', uri: { fsPath: '/repo/api' } },
+        { name: 'web', uri: { fsPath: '/repo/web' } },
+      ];
+    });
+
+    afterEach(() => {
+      mockVSCode.workspace.workspaceFolders = [{ uri: { fsPath: '/test/workspace' } }];
+      mockVSCode.workspace.textDocuments = [];
+    });
+
+    it('should apply the file threshold to each root separately', async () => {
+      mockVSCode.workspace.textDocuments = [...files('/repo/api', 6), ...files('/repo/web', 6)];
+
+      const result = await dharmaSankata.checkScope();
+
+      expect(result.detected).toBe(false);
+      expect(result.details.filesChanged).toBe(12);
+    });
+
+    it('should name the root that drifted', async () => {
+      mockVSCode.workspace.textDocuments = [...files('/repo/api', 2), ...files('/repo/web', 11)];
+
+      const result = await dharmaSankata.checkScope();
+
+      expect(result.detected).toBe(true);
+      expect(result.details.workspaceFolder).toBe('web');
+      expect(result.details.filesChanged).toBe(11);
+      expect(result.suggestion).toContain('11 files in web');
+      expect(dharmaSankata.getAlerts()).toEqual([result]);
+    });
+  });
+
+  describe('focus area', () => {
+    let mockVSCode: any;
+    let focused: DharmaSankata;
+
+    const open = (fsPath: string, text = '') => ({
+      uri: { fsPath, scheme: 'file' },
+      isDirty: true,
+      getText: () => text,
+    });
+
+    beforeEach(() => {
+      mockVSCode = (global as any).testUtils.mockVSCode;
+      mockVSCode.workspace.textDocuments = [
+        open('/src/auth/login.ts', 'export function validateSession() {}'),
+      ];
+      focused = new DharmaSankata(
+        { ...config, focusBaselineWindow: 900, focusBaselineCheckpoints: 1 },
+        eventEmitter
+      );
+      focused.start();
+    });
+
+    afterEach(() => {
+      focused.stop();
+      mockVSCode.workspace.textDocuments = [];
+    });
+
+    it('should learn the focus area once the baseline checkpoints are made', async () => {
+      await focused.checkScope();
+      expect(focused.getFocusArea()).toBeUndefined();
+      await expect(focused.acceptIntoFocus(['/src/a.ts'])).rejects.toThrow(
+        'The focus area is still being learned'
+      );
+
+      eventEmitter.fire({ type: 'checkpoint', timestamp: Date.now(), data: {} });
+      const result = await focused.checkScope();
+
+      expect(result.detected).toBe(false);
+      expect(focused.getFocusArea()).toMatchObject({
+        directories: ['/src/auth'],
+        symbols: ['validateSession'],
+      });
+    });
+
+    it('should alert once about new work outside the focus area', async () => {
+      eventEmitter.fire({ type: 'checkpoint', timestamp: Date.now(), data: {} });
+      await focused.checkScope();
+
+      mockVSCode.workspace.textDocuments.push(
+        open('/src/auth/token.ts'),
+        open('/src/api/routes.ts', 'router.use(validateSession);'),
+        open('/src/billing/invoice.ts', 'export class Invoice {}')
+      );
+      const result = await focused.checkScope();
+
+      expect(result.detected).toBe(true);
+      expect(result.reason).toBe('focus_drift');
+      expect(result.details.focusArea).toEqual(['/src/auth']);
+      expect(result.details.outsideFocus).toEqual(['/src/billing/invoice.ts']);
+      expect(result.suggestion).toContain('New work in invoice.ts is outside');
+
+      const again = await focused.checkScope();
+      expect(again.detected).toBe(false);
+      expect(again.details.outsideFocus).toEqual(['/src/billing/invoice.ts']);
+    });
+
+    it('should keep the modules focus work depends on in scope', async () => {
+      eventEmitter.fire({ type: 'checkpoint', timestamp: Date.now(), data: {} });
+      await focused.checkScope();
+
+      mockVSCode.workspace.textDocuments = [
+        open('/src/auth/login.ts', "import { query } from '../db/pool';\nvalidateSession();"),
+        open('/src/db/pool.ts', 'export function query() {}'),
+        open('/src/billing/invoice.ts', 'export class Invoice {}'),
+      ];
+      const result = await focused.checkScope();
+
+      expect(result.details.outsideFocus).toEqual(['/src/billing/invoice.ts']);
+    });
+
+    it('should read the changed files again only once the change set changes', async () => {
+      const getText = jest.fn(() => 'export class Invoice {}');
+      mockVSCode.workspace.textDocuments.push({ ...open('/src/billing/invoice.ts'), getText });
+
+      await focused.checkScope();
+      await focused.checkScope();
+      expect(getText).toHaveBeenCalledTimes(1);
+
+      mockVSCode.workspace.textDocuments.push(open('/src/billing/tax.ts'));
+      await focused.checkScope();
+      expect(getText).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop counting accepted work as drift', async () => {
+      eventEmitter.fire({ type: 'checkpoint', timestamp: Date.now(), data: {} });
+      await focused.checkScope();
+      mockVSCode.workspace.textDocuments.push(open('/src/billing/invoice.ts'));
+
+      expect(await focused.getWorkOutsideFocus()).toEqual(['/src/billing/invoice.ts']);
+      await focused.acceptIntoFocus(['/src/billing/invoice.ts']);
+
+      expect(await focused.getWorkOutsideFocus()).toEqual([]);
+      expect(focused.getFocusArea()!.directories).toEqual(['/src/auth', '/src/billing']);
+    });
+  });
+
   describe('goal inference', () => {
     it('should infer goal from file paths', async () => {
       const mockVSCode = (global as any).testUtils.mockVSCode;
@@ -234,5 +588,26 @@ describe('DharmaSankata', () => {
 
       expect(result.details.detectedGoal).toBeDefined();
     });
+
+    it('should name the cluster of modules that depend on one another', async () => {
+      const mockVSCode = (global as any).testUtils.mockVSCode;
+      const open = (fsPath: string, text: string) => ({
+        uri: { fsPath, scheme: 'file' },
+        isDirty: true,
+        getText: () => text,
+      });
+      mockVSCode.workspace.textDocuments = [
+        open('/src/auth/login.ts', "import { Session } from './session';"),
+        open('/src/auth/session.ts', "import { sign } from '../crypto/token';"),
+        open('/src/crypto/token.ts', 'export function sign() {}'),
+        open('/src/billing/invoice.ts', 'export class Invoice {}'),
+      ];
+
+      dharmaSankata.setGoal('payment system');
+      const result = await dharmaSankata.checkScope();
+
+      expect(result.details.detectedGoal).toBe('src: login, session, token');
+      mockVSCode.workspace.textDocuments = [];
+    });
   });
 });
@@ -0,0 +1,42 @@
+/**
+ * Test suite for focus areas
+ */
+
+import { buildFocusArea, extendFocusArea, isInFocus } from '../../src/core/focus-area';
+
+describe('focus area', () => {
+  const area = buildFocusArea([
+    {
+      path: '/repo/src/auth/login.ts',
+      changedLines: ['export function refreshToken() {', 'const id = 1;'],
+    },
+    { path: '/repo/src/auth/oauth/google.ts', content: 'export class GoogleProvider {}' },
+  ]);
+
+  it('should cover the directories and symbols of the work', () => {
+    expect(area.directories).toEqual(['/repo/src/auth']);
+    expect(area.symbols).toEqual(['refreshToken', 'GoogleProvider']);
+  });
+
+  it('should count work in a focus directory as in focus', () => {
+    expect(isInFocus(area, { path: '/repo/src/auth/session/store.ts' })).toBe(true);
+    expect(isInFocus(area, { path: '/repo/src/billing/invoice.ts' })).toBe(false);
+  });
+
+  it('should count changes elsewhere that use a focus symbol as in focus', () => {
+    expect(
+      isInFocus(area, { path: '/repo/src/api/client.ts', changedLines: ['await refreshToken();'] })
+    ).toBe(true);
+    expect(
+      isInFocus(area, { path: '/repo/src/api/client.ts', changedLines: ['const id = 2;'] })
+    ).toBe(false);
+  });
+
+  it('should widen to accepted work', () => {
+    const extended = extendFocusArea(area, [{ path: '/repo/src/billing/invoice.ts' }]);
+
+    expect(extended.directories).toEqual(['/repo/src/auth', '/repo/src/billing']);
+    expect(extended.establishedAt).toBe(area.establishedAt);
+    expect(isInFocus(extended, { path: '/repo/src/billing/tax.ts' })).toBe(true);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Test suite for GitService module, run against a local fixture repository
+ */
+
+jest.unmock('child_process');
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitError, GitService } from '../../src/core/git-service';
+
+describe('GitService', () => {
+  let tempDir: string;
+  let repo: string;
+  let mockVSCode: any;
+  let gitService: GitService;
+
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+
+  const initRepo = (dir: string) => {
+    fs.mkdirSync(dir, { recursive: true });
+    git(dir, 'init', '--quiet');
+    git(dir, 'config', 'user.email', 'test@example.com');
+    git(dir, 'config', 'user.name', 'Test');
+    git(dir, 'config', 'commit.gpgsign', 'false');
+    fs.writeFileSync(path.join(dir, 'README.md'), 'fixture\n');
+    git(dir, 'add', '.');
+    git(dir, 'commit', '--quiet', '-m', 'Initial commit');
+  };
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'tridishti-git-')));
+    repo = path.join(tempDir, 'repo');
+    initRepo(repo);
+    mockVSCode = (global as any).testUtils.mockVSCode;
+    mockVSCode.workspace.workspaceFolders = [{ uri: { fsPath: repo } }];
+    gitService = new GitService();
+  });
+
+  afterEach(() => {
+    mockVSCode.workspace.workspaceFolders = [{ uri: { fsPath: '/test/workspace' } }];
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  describe('repository resolution', () => {
+    it('should resolve the repository that owns a file', async () => {
+      fs.mkdirSync(path.join(repo, 'src'));
+
+      expect(await gitService.resolveRepository(path.join(repo, 'src', 'a.ts'))).toBe(repo);
+    });
+
+    it('should fall back to the first workspace folder', async () => {
+      expect(await gitService.resolveRepository()).toBe(repo);
+    });
+
+    it('should prefer the workspace folder of the active editor', async () => {
+      const other = path.join(tempDir, 'other');
+      initRepo(other);
+      const uri = { fsPath: path.join(other, 'README.md') };
+      mockVSCode.window.activeTextEditor = { document: { uri } };
+      mockVSCode.workspace.getWorkspaceFolder.mockReturnValueOnce({ uri: { fsPath: other } });
+
+      try {
+        expect(await gitService.resolveRepository()).toBe(other);
+      } finally {
+        mockVSCode.window.activeTextEditor = undefined;
+      }
+    });
+
+    it('should resolve files inside a nested repository to that repository', async () => {
+      const nested = path.join(repo, 'vendor', 'lib');
+      initRepo(nested);
+
+      expect(await gitService.resolveRepository(path.join(nested, 'README.md'))).toBe(nested);
+    });
+
+    it('should group files by repository and drop files outside git', async () => {
+      const other = path.join(tempDir, 'other');
+      const plain = path.join(tempDir, 'plain');
+      initRepo(other);
+      fs.mkdirSync(plain);
+
+      const groups = await gitService.groupByRepository([
+        path.join(repo, 'a.ts'),
+        path.join(other, 'b.ts'),
+        path.join(repo, 'c.ts'),
+        path.join(plain, 'd.ts'),
+      ]);
+
+      expect(Array.from(groups.entries())).toEqual([
+        [repo, [path.join(repo, 'a.ts'), path.join(repo, 'c.ts')]],
+        [other, [path.join(other, 'b.ts')]],
+      ]);
+    });
+  });
+
+  describe('commits and tags', () => {
+    it('should commit tracked changes without shell interpretation', async () => {
+      fs.writeFileSync(path.join(repo, 'README.md'), 'changed\n');
+      const message = 'Checkpoint "quoted" $HOME `whoami`';
+
+      const hash = await gitService.commitAll(repo, message);
+
+      expect(hash).toBe(git(repo, 'rev-parse', '--short', 'HEAD'));
+      expect(git(repo, 'log', '-1', '--format=%s')).toBe(message);
+    });
+
+    it('should create annotated tags', async () => {
+      const tag = await gitService.createTag(repo, 'milestone-auth-42', 'Milestone: auth');
+
+      expect(tag).toBe('milestone-auth-42');
+      expect(git(repo, 'cat-file', '-t', 'milestone-auth-42')).toBe('tag');
+    });
+
+    it('should create lightweight tags without a message', async () => {
+      await gitService.createTag(repo, 'milestone-auth-42');
+
+      expect(git(repo, 'cat-file', '-t', 'milestone-auth-42')).toBe('commit');
+    });
+
+    it('should report the current branch, or none when detached', async () => {
+      git(repo, 'checkout', '--quiet', '-b', 'feature/auth');
+      expect(await gitService.getCurrentBranch(repo)).toBe('feature/auth');
+
+      git(repo, 'checkout', '--quiet', '--detach');
+      expect(await gitService.getCurrentBranch(repo)).toBeUndefined();
+    });
+  });
+
+  describe('checkpoint refs', () => {
+    const ref = 'refs/tridishti/yatra-1';
+
+    it('should commit the working tree to a ref without touching HEAD or the index', async () => {
+      const head = git(repo, 'rev-parse', 'HEAD');
+      fs.writeFileSync(path.join(repo, 'README.md'), 'checkpointed\n');
+
+      const { hash, parent } = await gitService.commitToRef(repo, ref, 'Sutra checkpoint');
+
+      expect(parent).toBe(head);
+      expect(git(repo, 'rev-parse', ref)).toBe(hash);
+      expect(git(repo, 'rev-parse', 'HEAD')).toBe(head);
+      expect(git(repo, 'show', `${ref}:README.md`)).toBe('checkpointed');
+      expect(git(repo, 'status', '--porcelain')).toBe('M README.md');
+    });
+
+    it('should chain successive commits on the same ref', async () => {
+      fs.writeFileSync(path.join(repo, 'README.md'), 'one\n');
+      const first = await gitService.commitToRef(repo, ref, 'First');
+      fs.writeFileSync(path.join(repo, 'README.md'), 'two\n');
+
+      const second = await gitService.commitToRef(repo, ref, 'Second');
+
+      expect(second.parent).toBe(first.hash);
+    });
+
+    it('should report unchanged working trees as nothing to commit', async () => {
+      await expect(gitService.commitToRef(repo, ref, 'Empty')).rejects.toMatchObject({
+        code: 'nothing_to_commit',
+      });
+      expect(await gitService.resolveRef(repo, ref)).toBeUndefined();
+    });
+
+    it('should tell whether a commit is in the history of HEAD', async () => {
+      const base = git(repo, 'rev-parse', 'HEAD');
+      fs.writeFileSync(path.join(repo, 'README.md'), 'changed\n');
+      const onBranch = await gitService.commitAll(repo, 'On branch');
+      git(repo, 'checkout', '--quiet', '-b', 'other', base);
+
+      expect(await gitService.isAncestor(repo, base, 'HEAD')).toBe(true);
+      expect(await gitService.isAncestor(repo, onBranch, 'HEAD')).toBe(false);
+      expect(await gitService.isAncestor(repo, 'unknown', 'HEAD')).toBe(false);
+    });
+
+    it('should delete refs and soft reset HEAD', async () => {
+      const head = git(repo, 'rev-parse', 'HEAD');
+      fs.writeFileSync(path.join(repo, 'README.md'), 'changed\n');
+      await gitService.commitToRef(repo, ref, 'Checkpoint');
+      await gitService.commitAll(repo, 'On branch');
+
+      await gitService.deleteRef(repo, ref);
+      await gitService.resetSoft(repo, head);
+
+      expect(await gitService.resolveRef(repo, ref)).toBeUndefined();
+      expect(await gitService.getHead(repo)).toBe(head);
+      expect(git(repo, 'status', '--porcelain')).toBe('M  README.md');
+    });
+  });
+
+  describe('errors', () => {
+    const rejection = async (promise: Promise<unknown>): Promise<GitError> => {
+      try {
+        await promise;
+      } catch (error) {
+        return error as GitError;
+      }
+      throw new Error('Expected the git operation to fail');
+    };
+
+    it('should report directories outside a repository', async () => {
+      const plain = path.join(tempDir, 'plain');
+      fs.mkdirSync(plain);
+
+      const error = await rejection(gitService.getRepositoryRoot(plain));
+
+      expect(error).toBeInstanceOf(GitError);
+      expect(error.code).toBe('not_a_repository');
+      expect(error.cwd).toBe(plain);
+    });
+
+    it('should report empty commits', async () => {
+      const error = await rejection(gitService.commitAll(repo, 'Nothing here'));
+
+      expect(error.code).toBe('nothing_to_commit');
+    });
+
+    it('should report other failures with stderr', async () => {
+      await gitService.createTag(repo, 'duplicate', 'first');
+
+      const error = await rejection(gitService.createTag(repo, 'duplicate', 'second'));
+
+      expect(error.code).toBe('command_failed');
+      expect(error.args).toEqual(['tag', '--annotate', 'duplicate', '--message', 'second']);
+      expect(error.stderr).toContain('already exists');
+    });
+
+    it('should report missing directories', async () => {
+      const error = await rejection(gitService.getRepositoryRoot(path.join(tempDir, 'missing')));
+
+      expect(error.code).toBe('command_failed');
+    });
+
+    it('should report a missing workspace', async () => {
+      mockVSCode.workspace.workspaceFolders = undefined;
+
+      const error = await rejection(gitService.resolveRepository());
+
+      expect(error.code).toBe('not_a_repository');
+    });
+  });
+});
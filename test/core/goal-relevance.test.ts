@@ -0,0 +1,108 @@
+/**
+ * Test suite for goal relevance scoring
+ */
+
+import { scoreGoalRelevance, tokenize } from '../../src/core/goal-relevance';
+import { IModuleGraph } from '../../src/core/module-graph';
+
+describe('goal relevance', () => {
+  describe('tokenize', () => {
+    it('should split identifiers and leave out generic words', () => {
+      expect(tokenize('Fix the loginTimeout in SESSION_store')).toEqual([
+        'login',
+        'timeout',
+        'session',
+        'store',
+      ]);
+    });
+
+    it('should stem plurals and verb forms', () => {
+      expect(tokenize('timeouts caching refreshed')).toEqual(['timeout', 'cach', 'refresh']);
+    });
+  });
+
+  describe('scoreGoalRelevance', () => {
+    it('should recognise files by contents and symbols rather than file names alone', () => {
+      const relevance = scoreGoalRelevance('fix login timeout', [
+        {
+          path: '/src/auth/handler.ts',
+          content: 'export function refreshLogin() {\n  return schedule(LOGIN_TIMEOUT);\n}',
+        },
+        { path: '/src/billing/invoice.ts', content: 'export class Invoice {}' },
+      ]);
+
+      expect(relevance.alignment).toBe(0.5);
+      expect(relevance.topFiles).toEqual(['/src/auth/handler.ts']);
+      expect(relevance.offTopicFiles).toEqual(['/src/billing/invoice.ts']);
+      expect(relevance.files[0].terms).toEqual(['login', 'timeout']);
+    });
+
+    it('should count the files a relevant file imports as part of the work', () => {
+      const relevance = scoreGoalRelevance('login timeout', [
+        { path: '/src/auth/login.ts', content: "import { Store } from './session';" },
+        { path: '/src/auth/session.ts', content: 'export class Store {}' },
+        { path: '/src/billing/invoice.ts', content: 'export class Invoice {}' },
+      ]);
+
+      expect(relevance.topFiles).toEqual(['/src/auth/login.ts', '/src/auth/session.ts']);
+      expect(relevance.offTopicFiles).toEqual(['/src/billing/invoice.ts']);
+    });
+
+    it('should count modules relevant files depend on through unchanged modules', () => {
+      const graph: IModuleGraph = {
+        imports: new Map([
+          ['/src/auth/login.ts', ['/src/auth/session.ts']],
+          ['/src/auth/session.ts', ['/src/crypto/hash.ts']],
+          ['/src/crypto/hash.ts', []],
+          ['/src/billing/invoice.ts', []],
+        ]),
+      };
+      const relevance = scoreGoalRelevance(
+        'login timeout',
+        [
+          { path: '/src/auth/login.ts', content: 'const LOGIN_TIMEOUT = 30;' },
+          { path: '/src/crypto/hash.ts', content: 'export function digest() {}' },
+          { path: '/src/billing/invoice.ts', content: 'export class Invoice {}' },
+        ],
+        graph
+      );
+
+      expect(relevance.topFiles).toEqual(['/src/auth/login.ts', '/src/crypto/hash.ts']);
+      expect(relevance.offTopicFiles).toEqual(['/src/billing/invoice.ts']);
+    });
+
+    it('should weigh changed lines above the rest of the file', () => {
+      const content = 'const retries = 3;\nconst timeout = 30;';
+      const relevance = scoreGoalRelevance('timeout', [
+        { path: '/src/a.ts', content },
+        { path: '/src/b.ts', content, changedLines: ['const timeout = 30;'] },
+      ]);
+
+      expect(relevance.files[0].path).toBe('/src/b.ts');
+      expect(relevance.files[0].score).toBeGreaterThan(relevance.files[1].score);
+    });
+
+    it('should treat files scoring far below the best as off-topic', () => {
+      const relevance = scoreGoalRelevance('payment', [
+        {
+          path: '/src/payment/checkout.ts',
+          content: 'export function processPayment(payment: Payment) {}',
+        },
+        {
+          path: '/src/docs/readme.md',
+          content: `${'Unrelated text. '.repeat(200)}See payment.`,
+        },
+      ]);
+
+      expect(relevance.topFiles).toEqual(['/src/payment/checkout.ts']);
+      expect(relevance.offTopicFiles).toEqual(['/src/docs/readme.md']);
+    });
+
+    it('should consider everything aligned when the goal has no meaningful words', () => {
+      const relevance = scoreGoalRelevance('fix the bug', [{ path: '/src/a.ts' }]);
+
+      expect(relevance.alignment).toBe(1);
+      expect(relevance.offTopicFiles).toEqual([]);
+    });
+  });
+});
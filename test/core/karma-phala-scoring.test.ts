@@ -0,0 +1,118 @@
+/**
+ * Test suite for KarmaPhalaScoring module
+ */
+
+import { IScoringContext, KarmaPhalaScoring } from '../../src/core/karma-phala-scoring';
+import { ISutraCheckpoint } from '../../src/core/types';
+
+describe('KarmaPhalaScoring', () => {
+  const MINUTE = 60 * 1000;
+  let scoring: KarmaPhalaScoring;
+
+  const context = (overrides: Partial<IScoringContext> = {}): IScoringContext => ({
+    startedAt: 0,
+    completedAt: 60 * MINUTE,
+    filesModified: ['src/a.ts', 'src/b.ts'],
+    checkpoints: [],
+    ...overrides,
+  });
+
+  const checkpoint = (
+    timestamp: number,
+    extra: Partial<ISutraCheckpoint> = {}
+  ): ISutraCheckpoint => ({
+    id: `cp-${timestamp}`,
+    timestamp,
+    filesChanged: [],
+    ...extra,
+  });
+
+  beforeEach(() => {
+    scoring = new KarmaPhalaScoring();
+  });
+
+  it('should average duration and files with the default strategy', () => {
+    const { score, breakdown } = scoring.score('default', context());
+
+    expect(score).toBe(40);
+    expect(breakdown.strategy).toBe('default');
+    expect(breakdown.components).toEqual([
+      { name: 'duration', points: 60, weight: 1, contribution: 30, detail: '60 min' },
+      { name: 'files', points: 20, weight: 1, contribution: 10, detail: '2 files modified' },
+    ]);
+  });
+
+  it('should reward uninterrupted focus for deep work', () => {
+    const steady = context({
+      completedAt: 120 * MINUTE,
+      checkpoints: [checkpoint(30 * MINUTE), checkpoint(60 * MINUTE), checkpoint(90 * MINUTE)],
+    });
+    const interrupted = context({
+      completedAt: 120 * MINUTE,
+      checkpoints: [checkpoint(10 * MINUTE), checkpoint(110 * MINUTE)],
+    });
+
+    const focus = (ctx: IScoringContext) =>
+      scoring.score('deep-work', ctx).breakdown.components.find(c => c.name === 'focus')!;
+
+    expect(focus(steady).points).toBe(100);
+    expect(focus(interrupted)).toMatchObject({ points: 17, detail: '1 gap over 45 min' });
+    expect(scoring.score('deep-work', steady).score).toBeGreaterThan(
+      scoring.score('deep-work', interrupted).score
+    );
+  });
+
+  it('should reward tests and deletions for maintenance', () => {
+    const { breakdown } = scoring.score(
+      'maintenance',
+      context({
+        filesModified: ['src/a.ts', 'test/a.test.ts'],
+        checkpoints: [
+          checkpoint(MINUTE, {
+            diffStats: [{ path: 'src/a.ts', insertions: 10, deletions: 30, hunks: 2 }],
+            runs: [{ kind: 'test', name: 'npm test', exitCode: 0, passed: true }],
+          }),
+        ],
+      })
+    );
+
+    expect(breakdown.components.map(c => [c.name, c.points, c.detail])).toEqual([
+      ['tests', 75, '1 test file modified, last test run passed'],
+      ['deletions', 75, '30 of 40 changed lines deleted'],
+      ['files', 20, '2 files modified'],
+    ]);
+  });
+
+  it('should apply weight overrides and drop zero-weight components', () => {
+    const { score, breakdown } = scoring.score(
+      'default',
+      context({ checkpoints: [checkpoint(30 * MINUTE)] }),
+      { files: 0, focus: 1 }
+    );
+
+    expect(breakdown.components.map(c => c.name)).toEqual(['duration', 'focus']);
+    expect(score).toBe(80);
+  });
+
+  it('should fall back to the default strategy for unknown names', () => {
+    expect(scoring.score('unknown', context()).breakdown.strategy).toBe('default');
+  });
+
+  it('should use registered strategies and their components', () => {
+    scoring.registerStrategy({
+      name: 'docs',
+      weights: { docs: 1 },
+      components: {
+        docs: ({ filesModified }) => ({
+          points: filesModified.filter(f => f.endsWith('.md')).length * 50,
+          detail: 'markdown files',
+        }),
+      },
+    });
+
+    const { score } = scoring.score('docs', context({ filesModified: ['README.md'] }));
+
+    expect(scoring.getStrategyNames()).toContain('docs');
+    expect(score).toBe(50);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Test suite for KarmaPhalaStatusBar
+ */
+
+import { KarmaPhala } from '../../src/core/karma-phala';
+import { KarmaPhalaStatusBar } from '../../src/core/karma-phala-status';
+
+describe('KarmaPhalaStatusBar', () => {
+  let vscode: any;
+  let eventEmitter: any;
+  let karmaPhala: KarmaPhala;
+  let statusBar: KarmaPhalaStatusBar;
+  let item: any;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    vscode = (global as any).testUtils.mockVSCode;
+    eventEmitter = new vscode.EventEmitter();
+    karmaPhala = new KarmaPhala(
+      {
+        milestoneThreshold: 7200,
+        autoTag: false,
+        enabled: true,
+        nudgeStrategy: 'default',
+        overrunWarnings: [100],
+      },
+      eventEmitter
+    );
+    statusBar = new KarmaPhalaStatusBar(karmaPhala, eventEmitter);
+    item = vscode.window.createStatusBarItem.mock.results.slice(-1)[0].value;
+  });
+
+  afterEach(() => {
+    statusBar.dispose();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should stay hidden without an active milestone', () => {
+    expect(item.hide).toHaveBeenCalled();
+    expect(item.show).not.toHaveBeenCalled();
+  });
+
+  it('should show progress against the target duration', () => {
+    karmaPhala.createMilestone('Auth', 3600);
+    jest.advanceTimersByTime(30 * 60000);
+
+    expect(item.text).toBe('$(milestone) Auth 50% of 60 min');
+    expect(item.backgroundColor).toBeUndefined();
+    expect(item.show).toHaveBeenCalled();
+  });
+
+  it('should show elapsed time for milestones without a target', () => {
+    karmaPhala.createMilestone('Spike');
+    jest.advanceTimersByTime(12 * 60000);
+
+    expect(item.text).toBe('$(milestone) Spike 12 min');
+  });
+
+  it('should show paused milestones without counting the pause', () => {
+    const milestone = karmaPhala.createMilestone('Auth', 3600);
+    jest.advanceTimersByTime(15 * 60000);
+    karmaPhala.pauseMilestone(milestone.id);
+    jest.advanceTimersByTime(30 * 60000);
+
+    expect(item.text).toBe('$(debug-pause) Auth 25% of 60 min (paused)');
+  });
+
+  it('should highlight and warn about overruns', () => {
+    karmaPhala.createMilestone('Auth', 600);
+    jest.advanceTimersByTime(11 * 60000);
+
+    expect(item.text).toBe('$(milestone) Auth 110% of 10 min');
+    expect(item.backgroundColor.id).toBe('statusBarItem.warningBackground');
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'Milestone "Auth" has reached 100% of its 10 min target.'
+    );
+  });
+
+  it('should list every active milestone in the tooltip', () => {
+    karmaPhala.createMilestone('Epic');
+    karmaPhala.createMilestone('Step', 1200);
+
+    expect(item.text).toBe('$(milestone) Step 0% of 20 min');
+    expect(item.tooltip).toBe('Active milestones:\nEpic: 0 min\nStep: 0% of 20 min');
+  });
+
+  it('should show the milestone being worked on rather than the one waiting on it', () => {
+    const fix = karmaPhala.createMilestone('Fix');
+    karmaPhala.createMilestone('Test', 1200, { blockedBy: [fix.id] });
+    jest.advanceTimersByTime(5 * 60000);
+
+    expect(item.text).toBe('$(milestone) Fix 5 min');
+    expect(item.tooltip).toBe('Active milestones:\nFix: 5 min\nTest: 0% of 20 min (blocked)');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Test suite for milestone tag naming and release notes
+ */
+
+import { getReleaseNotes, renderTagName } from '../../src/core/karma-phala-tags';
+
+describe('karma phala tags', () => {
+  const date = Date.UTC(2026, 9, 19, 12);
+
+  describe('renderTagName', () => {
+    it('should fill in every token', () => {
+      expect(
+        renderTagName('{yatra}/{date}/{branch}/{sankalpa}/{name}-{score}', {
+          id: 'm1',
+          name: 'Login Form',
+          score: 72,
+          yatra: 'yatra-1',
+          date,
+          sankalpa: 'Ship the auth flow!',
+          branch: 'feature/auth',
+        })
+      ).toBe('yatra-1/2026-10-19/feature-auth/ship-the-auth-flow/login-form-72');
+    });
+
+    it('should render missing values as empty text', () => {
+      expect(renderTagName('m-{name}{sankalpa}', { name: 'Auth', score: 0, date, id: 'm1' })).toBe(
+        'm-auth'
+      );
+    });
+
+    it('should keep the result a valid ref whatever the template contains', () => {
+      expect(
+        renderTagName('-..tag name {unknown}//{name}.lock', { name: 'A', score: 0, date, id: 'm1' })
+      ).toBe('tag-name--unknown-/a');
+    });
+
+    it('should keep every component of the name valid', () => {
+      const tokens = { id: 'm1', name: 'A', score: 0, date };
+
+      expect(renderTagName('a.lock/b', tokens)).toBe('a/b');
+      expect(renderTagName('v1/.x/{name}.', tokens)).toBe('v1/x/a');
+      expect(renderTagName('x.lock.lock/-y', tokens)).toBe('x/y');
+    });
+
+    it('should fall back to the milestone id when nothing valid is left', () => {
+      expect(renderTagName('{name}', { id: 'karma-1', name: 'ログイン', score: 0, date })).toBe(
+        'karma-1'
+      );
+      expect(renderTagName('{sankalpa}', { id: 'karma-1', name: 'Auth', score: 0, date })).toBe(
+        'karma-1'
+      );
+    });
+  });
+
+  describe('getReleaseNotes', () => {
+    it('should only list the sections that have content', () => {
+      expect(
+        getReleaseNotes({
+          milestone: { id: 'm1', name: 'Auth', createdAt: 0, status: 'completed' },
+          score: 40,
+          duration: 1800,
+          checkpoints: [],
+          filesModified: [],
+          jnana: [],
+        })
+      ).toBe('Milestone: Auth (Score: 40)\n\nDuration: 30 min');
+    });
+
+    it('should describe the yatra, checkpoints, files and jnana', () => {
+      const notes = getReleaseNotes({
+        milestone: { id: 'm1', name: 'Auth', createdAt: 0, status: 'completed' },
+        score: 40,
+        duration: 1800,
+        yatra: {
+          id: 'yatra-1',
+          sankalpa: 'Ship auth',
+          startedAt: 0,
+          checkpoints: [],
+          milestones: [],
+          dharmaAlerts: [],
+        },
+        checkpoints: [
+          { id: 'cp1', timestamp: 1, message: 'Add form', filesChanged: [] },
+          { id: 'cp2', timestamp: 2, filesChanged: [] },
+        ],
+        filesModified: ['src/auth.ts'],
+        jnana: [{ id: 'j1', category: 'insight', content: 'Tokens expire' }],
+      });
+
+      expect(notes).toBe(
+        [
+          'Milestone: Auth (Score: 40)',
+          '',
+          'Sankalpa: Ship auth',
+          'Yatra: yatra-1',
+          'Duration: 30 min',
+          '',
+          'Checkpoints:',
+          '- Add form',
+          '',
+          'Files modified:',
+          '- src/auth.ts',
+          '',
+          'Jnana:',
+          '- [insight] Tokens expire',
+        ].join('\n')
+      );
+    });
+  });
+});
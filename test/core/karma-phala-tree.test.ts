@@ -0,0 +1,84 @@
+/**
+ * Test suite for KarmaPhalaTreeProvider
+ */
+
+import { KarmaPhala } from '../../src/core/karma-phala';
+import { KarmaPhalaTreeProvider } from '../../src/core/karma-phala-tree';
+
+describe('KarmaPhalaTreeProvider', () => {
+  let eventEmitter: any;
+  let karmaPhala: KarmaPhala;
+  let provider: KarmaPhalaTreeProvider;
+
+  beforeEach(() => {
+    const vscode = (global as any).testUtils.mockVSCode;
+    eventEmitter = new vscode.EventEmitter();
+    karmaPhala = new KarmaPhala(
+      { milestoneThreshold: 120, autoTag: false, enabled: true, nudgeStrategy: 'default' },
+      eventEmitter
+    );
+    provider = new KarmaPhalaTreeProvider(karmaPhala, eventEmitter);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list top-level milestones with their steps as children', () => {
+    const epic = karmaPhala.createMilestone('Epic');
+    const step = karmaPhala.createMilestone('Step', undefined, { parentId: epic.id });
+
+    const roots = provider.getChildren();
+
+    expect(roots.map(node => node.milestone)).toEqual([epic]);
+    expect(provider.getChildren(roots[0]).map(node => node.milestone)).toEqual([step]);
+  });
+
+  it('should show rolled-up progress for active milestones', async () => {
+    const epic = karmaPhala.createMilestone('Epic');
+    const step = karmaPhala.createMilestone('Step', undefined, { parentId: epic.id });
+    karmaPhala.createMilestone('Other step', undefined, { parentId: epic.id });
+    await karmaPhala.completeMilestone([], step.id);
+
+    const [root] = provider.getChildren();
+    const item = provider.getTreeItem(root);
+
+    expect(item.label).toBe('Epic');
+    expect(item.description).toBe('50%');
+    expect(item.collapsibleState).toBe(2);
+    expect(item.contextValue).toBe('milestone-active');
+    expect(provider.getTreeItem(root.children[0]).description).toBe('completed');
+  });
+
+  it('should mark blocked milestones', () => {
+    const schema = karmaPhala.createMilestone('Schema');
+    karmaPhala.createMilestone('API', undefined, { blockedBy: [schema.id] });
+
+    const item = provider.getTreeItem(provider.getChildren()[1]);
+
+    expect(item.description).toBe('0% · blocked by Schema');
+    expect(item.contextValue).toBe('milestone-blocked');
+    expect((item.iconPath as any).id).toBe('lock');
+  });
+
+  it('should mark paused milestones', () => {
+    const milestone = karmaPhala.createMilestone('Auth');
+    karmaPhala.pauseMilestone(milestone.id);
+
+    const item = provider.getTreeItem(provider.getChildren()[0]);
+
+    expect(item.description).toBe('0% · paused');
+    expect(item.contextValue).toBe('milestone-paused');
+    expect((item.iconPath as any).id).toBe('debug-pause');
+  });
+
+  it('should refresh on milestone events', () => {
+    const listener = jest.fn();
+    provider.onDidChangeTreeData(listener);
+
+    const milestone = karmaPhala.createMilestone('Epic');
+    karmaPhala.abandonMilestone(milestone.id);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
@@ -4,6 +4,7 @@
 
 import { KarmaPhala } from '../../src/core/karma-phala';
 import { IKarmaPhalaConfig } from '../../src/core/karma-phala';
+import { GitError } from '../../src/core/git-service';
 
 describe('KarmaPhala', () => {
   let config: IKarmaPhalaConfig;
@@ -128,6 +129,341 @@ describe('KarmaPhala', () => {
     });
   });
 
+  describe('milestone hierarchy', () => {
+    it('should keep several milestones active at once', () => {
+      const epic = karmaPhala.createMilestone('Epic');
+      const step = karmaPhala.createMilestone('Step', undefined, { parentId: epic.id });
+
+      expect(step.parentId).toBe(epic.id);
+      expect(karmaPhala.getActiveMilestones()).toEqual([epic, step]);
+      expect(karmaPhala.getActiveMilestone()).toBe(step);
+    });
+
+    it('should reject unknown parents and dependencies', () => {
+      expect(() => karmaPhala.createMilestone('Step', undefined, { parentId: 'missing' })).toThrow(
+        'Parent milestone missing not found or not active'
+      );
+      expect(() =>
+        karmaPhala.createMilestone('Step', undefined, { blockedBy: ['missing'] })
+      ).toThrow('Milestone missing not found');
+    });
+
+    it('should complete a specific milestone', async () => {
+      const first = karmaPhala.createMilestone('First');
+      const second = karmaPhala.createMilestone('Second');
+
+      const result = await karmaPhala.completeMilestone([], first.id);
+
+      expect(result.milestoneId).toBe(first.id);
+      expect(first.status).toBe('completed');
+      expect(karmaPhala.getActiveMilestones()).toEqual([second]);
+    });
+
+    it('should not complete a milestone while it is blocked', async () => {
+      const schema = karmaPhala.createMilestone('Schema');
+      const api = karmaPhala.createMilestone('API', undefined, { blockedBy: [schema.id] });
+
+      expect(karmaPhala.getBlockingMilestones(api.id)).toEqual([schema]);
+      await expect(karmaPhala.completeMilestone([], api.id)).rejects.toThrow(
+        'Milestone "API" is blocked by "Schema"'
+      );
+
+      await karmaPhala.completeMilestone([], schema.id);
+      await karmaPhala.completeMilestone([], api.id);
+
+      expect(api.status).toBe('completed');
+    });
+
+    it('should unblock dependents of an abandoned milestone', () => {
+      const spike = karmaPhala.createMilestone('Spike');
+      const build = karmaPhala.createMilestone('Build', undefined, { blockedBy: [spike.id] });
+
+      karmaPhala.abandonMilestone(spike.id);
+
+      expect(karmaPhala.getBlockingMilestones(build.id)).toEqual([]);
+    });
+
+    it('should not complete a milestone with unfinished sub-milestones', async () => {
+      const epic = karmaPhala.createMilestone('Epic');
+      karmaPhala.createMilestone('Step', undefined, { parentId: epic.id });
+
+      await expect(karmaPhala.completeMilestone([], epic.id)).rejects.toThrow(
+        'Milestone "Epic" has unfinished sub-milestones: "Step"'
+      );
+    });
+
+    it('should abandon sub-milestones with their parent', () => {
+      const epic = karmaPhala.createMilestone('Epic');
+      const step = karmaPhala.createMilestone('Step', undefined, { parentId: epic.id });
+
+      karmaPhala.abandonMilestone(epic.id);
+
+      expect(step.status).toBe('abandoned');
+      expect(eventEmitter.fire).toHaveBeenCalledWith({
+        type: 'milestone_updated',
+        timestamp: expect.any(Number),
+        data: epic,
+      });
+    });
+
+    it('should roll progress up from sub-milestones', async () => {
+      const epic = karmaPhala.createMilestone('Epic');
+      const story = karmaPhala.createMilestone('Story', undefined, { parentId: epic.id });
+      const task1 = karmaPhala.createMilestone('Task 1', undefined, { parentId: story.id });
+      karmaPhala.createMilestone('Task 2', undefined, { parentId: story.id });
+      const docs = karmaPhala.createMilestone('Docs', undefined, { parentId: epic.id });
+      const dropped = karmaPhala.createMilestone('Dropped', undefined, { parentId: epic.id });
+
+      await karmaPhala.completeMilestone([], task1.id);
+      await karmaPhala.completeMilestone([], docs.id);
+      karmaPhala.abandonMilestone(dropped.id);
+
+      expect(karmaPhala.getMilestoneProgress(story.id)).toBe(0.5);
+      expect(karmaPhala.getMilestoneProgress(epic.id)).toBe(0.75);
+    });
+
+    it('should build the milestone tree', () => {
+      const epic = karmaPhala.createMilestone('Epic');
+      const step = karmaPhala.createMilestone('Step', undefined, { parentId: epic.id });
+      const other = karmaPhala.createMilestone('Other', undefined, { blockedBy: [epic.id] });
+
+      const tree = karmaPhala.getMilestoneTree();
+
+      expect(tree.map(node => node.milestone)).toEqual([epic, other]);
+      expect(tree[0].children.map(node => node.milestone)).toEqual([step]);
+      expect(tree[1].blockers).toEqual([epic]);
+    });
+
+    it('should load milestones of a restored yatra', () => {
+      const existing = karmaPhala.createMilestone('Existing');
+
+      karmaPhala.loadMilestones([
+        { ...existing, name: 'Stale copy' },
+        { id: 'restored', name: 'Restored', createdAt: 1, status: 'active' },
+      ]);
+
+      expect(karmaPhala.getMilestones().map(m => m.name)).toEqual(['Existing', 'Restored']);
+      expect(karmaPhala.getActiveMilestone()?.name).toBe('Existing');
+    });
+  });
+
+  describe('target durations', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should report progress against the target duration', async () => {
+      const milestone = karmaPhala.createMilestone('Targeted', 3600);
+      const open = karmaPhala.createMilestone('Open-ended');
+
+      jest.advanceTimersByTime(45 * 60000);
+
+      expect(karmaPhala.getElapsedTime(milestone.id)).toBe(2700);
+      expect(karmaPhala.getTargetProgress(milestone.id)).toBe(0.75);
+      expect(karmaPhala.getTargetProgress(open.id)).toBeUndefined();
+
+      await karmaPhala.completeMilestone([], milestone.id);
+      jest.advanceTimersByTime(60 * 60000);
+
+      expect(karmaPhala.getTargetProgress(milestone.id)).toBe(0.75);
+    });
+
+    it('should report each overrun percentage once', () => {
+      karmaPhala.updateConfig({ overrunWarnings: [100, 150] });
+      const milestone = karmaPhala.createMilestone('Targeted', 600);
+
+      jest.advanceTimersByTime(9 * 60000);
+      expect(karmaPhala.checkOverruns()).toEqual([]);
+
+      jest.advanceTimersByTime(60000);
+      expect(karmaPhala.checkOverruns()).toEqual([{ milestone, percent: 100, elapsed: 600 }]);
+      expect(karmaPhala.checkOverruns()).toEqual([]);
+
+      jest.advanceTimersByTime(10 * 60000);
+      expect(karmaPhala.checkOverruns()).toEqual([{ milestone, percent: 150, elapsed: 1200 }]);
+    });
+  });
+
+  describe('pause and resume', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should leave paused time out of the elapsed time and the score', async () => {
+      const milestone = karmaPhala.createMilestone('Interrupted', 3600);
+
+      jest.advanceTimersByTime(20 * 60000);
+      expect(karmaPhala.pauseMilestone(milestone.id)).toBe(true);
+      expect(karmaPhala.isMilestonePaused(milestone.id)).toBe(true);
+
+      jest.advanceTimersByTime(60 * 60000);
+      expect(karmaPhala.getElapsedTime(milestone.id)).toBe(1200);
+
+      expect(karmaPhala.resumeMilestone(milestone.id)).toBe(true);
+      jest.advanceTimersByTime(10 * 60000);
+
+      const result = await karmaPhala.completeMilestone([], milestone.id);
+
+      expect(result.duration).toBe(1800);
+      expect(result.score).toBe(15);
+      expect(milestone.pauses).toEqual([
+        { start: expect.any(Number), end: expect.any(Number), reason: 'manual' },
+      ]);
+    });
+
+    it('should date a pause from when it began', () => {
+      const milestone = karmaPhala.createMilestone('Idle');
+
+      jest.advanceTimersByTime(30 * 60000);
+      karmaPhala.pauseMilestone(milestone.id, 'manual', Date.now() - 10 * 60000);
+
+      expect(karmaPhala.getElapsedTime(milestone.id)).toBe(1200);
+    });
+
+    it('should close an open pause on completion', async () => {
+      const milestone = karmaPhala.createMilestone('Done while paused');
+
+      jest.advanceTimersByTime(5 * 60000);
+      karmaPhala.pauseMilestone(milestone.id);
+      jest.advanceTimersByTime(5 * 60000);
+      await karmaPhala.completeMilestone([], milestone.id);
+
+      expect(karmaPhala.isMilestonePaused(milestone.id)).toBe(false);
+      expect(milestone.pauses![0].end).toBe(milestone.completedAt);
+    });
+
+    it('should only resume a pause with a matching reason when one is given', () => {
+      const milestone = karmaPhala.createMilestone('Held');
+      karmaPhala.pauseMilestone(milestone.id);
+
+      expect(karmaPhala.resumeMilestone(milestone.id, 'yatra')).toBe(false);
+      expect(karmaPhala.isMilestonePaused(milestone.id)).toBe(true);
+      expect(karmaPhala.resumeMilestone(milestone.id, 'manual')).toBe(true);
+    });
+
+    it('should not pause a milestone twice or pause a finished one', async () => {
+      const milestone = karmaPhala.createMilestone('Once');
+
+      expect(karmaPhala.pauseMilestone(milestone.id)).toBe(true);
+      expect(karmaPhala.pauseMilestone(milestone.id)).toBe(false);
+
+      await karmaPhala.completeMilestone([], milestone.id);
+
+      expect(karmaPhala.pauseMilestone(milestone.id)).toBe(false);
+      expect(karmaPhala.resumeMilestone(milestone.id)).toBe(false);
+    });
+
+    it('should fire milestone_updated on pause and resume', () => {
+      const milestone = karmaPhala.createMilestone('Evented');
+      eventEmitter.fire.mockClear();
+
+      karmaPhala.pauseMilestone(milestone.id);
+      karmaPhala.resumeMilestone(milestone.id);
+
+      expect(eventEmitter.fire).toHaveBeenCalledTimes(2);
+      expect(eventEmitter.fire).toHaveBeenCalledWith({
+        type: 'milestone_updated',
+        timestamp: expect.any(Number),
+        data: milestone,
+      });
+    });
+  });
+
+  describe('blocked time', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should start the clock of a blocked milestone once its blockers finish', async () => {
+      const schema = karmaPhala.createMilestone('Schema');
+      const api = karmaPhala.createMilestone('API', 1800, { blockedBy: [schema.id] });
+
+      expect(karmaPhala.isMilestonePaused(api.id)).toBe(true);
+      expect(karmaPhala.resumeMilestone(api.id)).toBe(false);
+
+      jest.advanceTimersByTime(40 * 60000);
+      await karmaPhala.completeMilestone([], schema.id);
+      jest.advanceTimersByTime(10 * 60000);
+
+      expect(karmaPhala.isMilestonePaused(api.id)).toBe(false);
+      expect(karmaPhala.getElapsedTime(api.id)).toBe(600);
+      expect(karmaPhala.checkOverruns()).toEqual([]);
+    });
+
+    it('should start the clock when a blocker is abandoned', () => {
+      const schema = karmaPhala.createMilestone('Schema');
+      const api = karmaPhala.createMilestone('API', undefined, { blockedBy: [schema.id] });
+
+      karmaPhala.abandonMilestone(schema.id);
+
+      expect(karmaPhala.isMilestonePaused(api.id)).toBe(false);
+    });
+
+    it('should keep an unblocked milestone paused while the yatra is paused', async () => {
+      karmaPhala.setCurrentYatra({
+        id: 'yatra-1',
+        startedAt: Date.now(),
+        checkpoints: [],
+        milestones: [],
+        dharmaAlerts: [],
+        pauses: [{ start: Date.now(), reason: 'manual' }],
+      });
+      const schema = karmaPhala.createMilestone('Schema');
+      const api = karmaPhala.createMilestone('API', undefined, { blockedBy: [schema.id] });
+
+      await karmaPhala.completeMilestone([], schema.id);
+
+      expect(api.pauses).toEqual([
+        { start: api.createdAt, end: expect.any(Number), reason: 'blocked' },
+        { start: expect.any(Number), reason: 'yatra' },
+      ]);
+      expect(karmaPhala.resumeMilestone(api.id, 'yatra')).toBe(true);
+    });
+
+    it('should prefer a milestone that is not blocked as the active one', () => {
+      const schema = karmaPhala.createMilestone('Schema');
+      karmaPhala.createMilestone('API', undefined, { blockedBy: [schema.id] });
+
+      expect(karmaPhala.getActiveMilestone()).toBe(schema);
+    });
+  });
+
+  describe('templates', () => {
+    it('should lay out the steps in sequence under a milestone named after the template', () => {
+      const [parent, reproduce, fix] = karmaPhala.instantiateTemplate({
+        name: 'Bug fix',
+        milestones: [{ name: 'Reproduce', targetDuration: 1200 }, { name: 'Fix' }],
+      });
+
+      expect(parent).toMatchObject({ name: 'Bug fix', targetDuration: 1200 });
+      expect(reproduce).toMatchObject({ name: 'Reproduce', parentId: parent.id });
+      expect(reproduce.blockedBy).toBeUndefined();
+      expect(fix).toMatchObject({ name: 'Fix', parentId: parent.id, blockedBy: [reproduce.id] });
+      expect(karmaPhala.getActiveMilestone()).toBe(reproduce);
+    });
+
+    it('should leave the template milestone without a target when no step has one', () => {
+      const [parent] = karmaPhala.instantiateTemplate({
+        name: 'Spike',
+        milestones: [{ name: 'Explore' }],
+      });
+
+      expect(parent.targetDuration).toBeUndefined();
+    });
+  });
+
   describe('milestone threshold detection', () => {
     it('should suggest milestone creation when threshold reached', () => {
       const shouldCreate = karmaPhala.shouldCreateMilestone(150);
@@ -154,6 +490,15 @@ describe('KarmaPhala', () => {
 
       expect(shouldCreate).toBe(false);
     });
+
+    it('should suggest completing an active milestone when threshold reached', () => {
+      expect(karmaPhala.shouldCompleteMilestone(200)).toBe(false);
+
+      karmaPhala.createMilestone('Active');
+
+      expect(karmaPhala.shouldCompleteMilestone(50)).toBe(false);
+      expect(karmaPhala.shouldCompleteMilestone(200)).toBe(true);
+    });
   });
 
   describe('nudge messages', () => {
@@ -194,6 +539,32 @@ describe('KarmaPhala', () => {
       jest.useRealTimers();
     });
 
+    it('should preview a score without completing the milestone', () => {
+      const milestone = karmaPhala.createMilestone('Test');
+      jest.advanceTimersByTime(30 * 60000);
+
+      const preview = karmaPhala.previewScore(milestone.id, ['f1.ts', 'f2.ts']);
+
+      expect(preview.score).toBe(25);
+      expect(preview.breakdown.strategy).toBe('default');
+      expect(milestone.status).toBe('active');
+      expect(eventEmitter.fire).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'milestone' })
+      );
+    });
+
+    it('should refuse to preview a milestone that cannot be completed', () => {
+      const schema = karmaPhala.createMilestone('Schema');
+      const api = karmaPhala.createMilestone('API', undefined, { blockedBy: [schema.id] });
+
+      expect(() => karmaPhala.previewScore(api.id, [])).toThrow(
+        'Milestone "API" is blocked by "Schema"'
+      );
+      expect(() => karmaPhala.previewScore('missing', [])).toThrow(
+        'No active milestone to complete'
+      );
+    });
+
     it('should calculate score based on duration and files', async () => {
       karmaPhala.createMilestone('Test');
       // Simulate 60 seconds and 5 files
@@ -211,6 +582,36 @@ describe('KarmaPhala', () => {
       expect(result.score).toBeLessThanOrEqual(100);
     });
 
+    it('should store a breakdown of the score', async () => {
+      karmaPhala.createMilestone('Test');
+      jest.advanceTimersByTime(30 * 60000);
+
+      const result = await karmaPhala.completeMilestone(['f1.ts', 'f2.ts']);
+
+      expect(result.score).toBe(25);
+      expect(result.scoreBreakdown).toEqual({
+        strategy: 'default',
+        components: [
+          { name: 'duration', points: 30, weight: 1, contribution: 15, detail: '30 min' },
+          { name: 'files', points: 20, weight: 1, contribution: 10, detail: '2 files modified' },
+        ],
+      });
+    });
+
+    it('should score with the strategy of the nudge strategy and configured weights', async () => {
+      karmaPhala.updateConfig({ nudgeStrategy: 'deep-work', scoreWeights: { duration: 0 } });
+      karmaPhala.createMilestone('Test');
+      jest.advanceTimersByTime(60 * 60000);
+
+      const result = await karmaPhala.completeMilestone([], undefined, [
+        { id: 'cp1', timestamp: Date.now() - 30 * 60000, filesChanged: [] },
+      ]);
+
+      expect(result.scoreBreakdown?.strategy).toBe('deep-work');
+      expect(result.scoreBreakdown?.components.map(c => c.name)).toEqual(['focus']);
+      expect(result.score).toBe(100);
+    });
+
     it('should handle zero duration gracefully', async () => {
       karmaPhala.createMilestone('Test');
       const result = await karmaPhala.completeMilestone([]);
@@ -220,40 +621,190 @@ describe('KarmaPhala', () => {
   });
 
   describe('auto-tagging', () => {
-    let execSyncMock: jest.MockedFunction<any>;
+    let gitService: any;
+
+    beforeEach(() => {
+      gitService = {
+        groupByRepository: jest.fn(async () => new Map()),
+        resolveRepository: jest.fn(async () => '/test/workspace'),
+        getCurrentBranch: jest.fn(async () => 'feature/auth'),
+        createTag: jest.fn(async (_root: string, name: string) => name),
+      };
+    });
+
+    it('should name tags from the tag template', async () => {
+      const autoTagInstance = new KarmaPhala(
+        { ...config, autoTag: true, tagNameTemplate: 'release/{date}-{branch}-{yatra}-{name}' },
+        eventEmitter,
+        gitService
+      );
+      autoTagInstance.setCurrentYatra({
+        id: 'yatra-1',
+        sankalpa: 'Ship login',
+        startedAt: 0,
+        checkpoints: [],
+        milestones: [],
+        dharmaAlerts: [],
+      });
+
+      autoTagInstance.createMilestone('Login form');
+      const result = await autoTagInstance.completeMilestone([]);
+
+      const date = new Date(result.timestamp).toISOString().slice(0, 10);
+      expect(result.gitTag).toBe(`release/${date}-feature-auth-yatra-1-login-form`);
+      expect(gitService.getCurrentBranch).toHaveBeenCalledWith('/test/workspace');
+    });
+
+    it('should only look up the branch when the template uses it', async () => {
+      const autoTagInstance = new KarmaPhala(
+        { ...config, autoTag: true },
+        eventEmitter,
+        gitService
+      );
+
+      autoTagInstance.createMilestone('Test');
+      await autoTagInstance.completeMilestone([]);
+
+      expect(gitService.getCurrentBranch).not.toHaveBeenCalled();
+    });
+
+    it('should create lightweight tags when annotations are turned off', async () => {
+      const autoTagInstance = new KarmaPhala(
+        { ...config, autoTag: true, annotatedTags: false },
+        eventEmitter,
+        gitService
+      );
+
+      autoTagInstance.createMilestone('Test');
+      await autoTagInstance.completeMilestone([]);
+
+      expect(gitService.createTag).toHaveBeenCalledWith('/test/workspace', 'milestone-test-0');
+    });
+
+    it('should annotate tags with release notes for the milestone', async () => {
+      gitService.groupByRepository.mockResolvedValue(
+        new Map([['/repo', ['/repo/src/login.ts', '/repo/test/login.test.ts']]])
+      );
+      const autoTagInstance = new KarmaPhala(
+        { ...config, autoTag: true },
+        eventEmitter,
+        gitService
+      );
+      const milestone = autoTagInstance.createMilestone('Login form');
+      autoTagInstance.setJnanaSource(() => [
+        {
+          id: 'j1',
+          category: 'gotcha',
+          content: 'Cookies need SameSite',
+          context: { timestamp: milestone.createdAt },
+        },
+        { id: 'j0', category: 'insight', content: 'Earlier', context: { timestamp: 0 } },
+      ]);
 
-    beforeEach(async () => {
-      const childProcess = await import('child_process');
-      execSyncMock = childProcess.execSync as jest.MockedFunction<any>;
-      execSyncMock.mockClear();
+      await autoTagInstance.completeMilestone(
+        ['/repo/src/login.ts', '/repo/test/login.test.ts'],
+        milestone.id,
+        [
+          { id: 'cp1', timestamp: 1, message: 'Add form', filesChanged: [] },
+          { id: 'cp2', timestamp: 2, summary: 'Modified 1 file', filesChanged: [] },
+        ]
+      );
+
+      const notes = gitService.createTag.mock.calls[0][2];
+      expect(notes).toContain(['Checkpoints:', '- Add form', '- Modified 1 file'].join('\n'));
+      expect(notes).toContain(
+        ['Files modified:', '- src/login.ts', '- test/login.test.ts'].join('\n')
+      );
+      expect(notes).toContain('Jnana:\n- [gotcha] Cookies need SameSite');
+      expect(notes).not.toContain('Earlier');
     });
 
     it('should create git tag when autoTag enabled', async () => {
       const autoTagConfig = { ...config, autoTag: true };
-      const autoTagInstance = new KarmaPhala(autoTagConfig, eventEmitter);
+      const autoTagInstance = new KarmaPhala(autoTagConfig, eventEmitter, gitService);
 
       autoTagInstance.createMilestone('Test milestone');
       const result = await autoTagInstance.completeMilestone([]);
 
-      expect(result.gitTag).toBeDefined();
-      expect(execSyncMock).toHaveBeenCalledWith(
-        expect.stringContaining('git tag -a'),
-        expect.any(Object)
+      expect(result.gitTag).toBe('milestone-test-milestone-0');
+      expect(gitService.createTag).toHaveBeenCalledWith(
+        '/test/workspace',
+        'milestone-test-milestone-0',
+        'Milestone: Test milestone (Score: 0)\n\nDuration: 0 min'
+      );
+    });
+
+    it('should keep unsafe characters out of the tag name', async () => {
+      const autoTagConfig = { ...config, autoTag: true };
+      const autoTagInstance = new KarmaPhala(autoTagConfig, eventEmitter, gitService);
+
+      autoTagInstance.createMilestone('Fix "auth" $(rm -rf) `x`');
+      const result = await autoTagInstance.completeMilestone([]);
+
+      expect(result.gitTag).toBe('milestone-fix-auth-rm--rf-x-0');
+      expect(gitService.createTag.mock.calls[0][2].split('\n')[0]).toBe(
+        'Milestone: Fix "auth" $(rm -rf) `x` (Score: 0)'
+      );
+    });
+
+    it('should tag every repository the milestone modified', async () => {
+      gitService.groupByRepository.mockResolvedValue(
+        new Map([
+          ['/repos/api', ['/repos/api/a.ts']],
+          ['/repos/web', ['/repos/web/b.ts']],
+        ])
+      );
+      const autoTagInstance = new KarmaPhala(
+        { ...config, autoTag: true },
+        eventEmitter,
+        gitService
       );
+
+      autoTagInstance.createMilestone('Shared');
+      const result = await autoTagInstance.completeMilestone([
+        '/repos/api/a.ts',
+        '/repos/web/b.ts',
+      ]);
+
+      expect(gitService.resolveRepository).not.toHaveBeenCalled();
+      expect(gitService.createTag.mock.calls.map((call: string[]) => call[0])).toEqual([
+        '/repos/api',
+        '/repos/web',
+      ]);
+      expect(result.gitTagRoots).toEqual(['/repos/api', '/repos/web']);
     });
 
     it('should handle git tag failure gracefully', async () => {
-      execSyncMock.mockImplementation(() => {
-        throw new Error('Git tag failed');
-      });
+      gitService.createTag.mockRejectedValue(
+        new GitError('command_failed', 'git tag failed: already exists', ['tag'], '/test/workspace')
+      );
 
       const autoTagConfig = { ...config, autoTag: true };
-      const autoTagInstance = new KarmaPhala(autoTagConfig, eventEmitter);
+      const autoTagInstance = new KarmaPhala(autoTagConfig, eventEmitter, gitService);
 
       autoTagInstance.createMilestone('Test');
       const result = await autoTagInstance.completeMilestone([]);
 
       expect(result.gitTag).toBeUndefined();
+      expect(result.gitError).toBe('git tag failed: already exists');
+    });
+
+    it('should still record the completion when tagging fails unexpectedly', async () => {
+      gitService.createTag.mockRejectedValue(new Error('tag template is invalid'));
+      const autoTagInstance = new KarmaPhala(
+        { ...config, autoTag: true },
+        eventEmitter,
+        gitService
+      );
+
+      autoTagInstance.createMilestone('Test');
+      const result = await autoTagInstance.completeMilestone([]);
+
+      expect(result.gitError).toBe('tag template is invalid');
+      expect(autoTagInstance.getMilestones()[0].status).toBe('completed');
+      expect(eventEmitter.fire).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'milestone', data: result })
+      );
     });
   });
 
@@ -0,0 +1,74 @@
+/**
+ * Test suite for line diff statistics
+ */
+
+import { diffLineBlocks, diffLines } from '../../src/core/line-diff';
+
+describe('diffLines', () => {
+  const lines = (count: number, prefix = 'line') =>
+    Array.from({ length: count }, (_, i) => `${prefix} ${i}`).join('\n') + '\n';
+
+  it('should report no changes for identical text', () => {
+    expect(diffLines('a\nb\n', 'a\nb\n')).toEqual({ insertions: 0, deletions: 0, hunks: 0 });
+  });
+
+  it('should count a new file as insertions', () => {
+    expect(diffLines('', 'a\nb\nc')).toEqual({ insertions: 3, deletions: 0, hunks: 1 });
+  });
+
+  it('should count a deleted file as deletions', () => {
+    expect(diffLines('a\nb\n', '')).toEqual({ insertions: 0, deletions: 2, hunks: 1 });
+  });
+
+  it('should count a modified line as one deletion and one insertion', () => {
+    expect(diffLines('a\nb\nc\n', 'a\nB\nc\n')).toEqual({ insertions: 1, deletions: 1, hunks: 1 });
+  });
+
+  it('should ignore line ending differences', () => {
+    expect(diffLines('a\r\nb\r\n', 'a\nb\n')).toEqual({ insertions: 0, deletions: 0, hunks: 0 });
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = lines(30);
+    const after = before.replace('line 2\n', 'changed 2\n').replace('line 25\n', 'changed 25\n');
+
+    expect(diffLines(before, after)).toEqual({ insertions: 2, deletions: 2, hunks: 2 });
+  });
+
+  it('should merge nearby changes into one hunk', () => {
+    const before = lines(30);
+    const after = before.replace('line 10\n', 'changed 10\n').replace('line 14\n', 'changed 14\n');
+
+    expect(diffLines(before, after)).toEqual({ insertions: 2, deletions: 2, hunks: 1 });
+  });
+
+  it('should find insertions in the middle of a file', () => {
+    const before = lines(10);
+    const after = before.replace('line 5\n', 'line 5\nextra a\nextra b\n');
+
+    expect(diffLines(before, after)).toEqual({ insertions: 2, deletions: 0, hunks: 1 });
+  });
+
+  it('should treat very large rewrites as full replacement', () => {
+    const before = lines(3000, 'old');
+    const after = lines(3000, 'new');
+
+    expect(diffLines(before, after)).toEqual({ insertions: 3000, deletions: 3000, hunks: 1 });
+  });
+});
+
+describe('diffLineBlocks', () => {
+  it('should return changed lines grouped between unchanged lines', () => {
+    const before = 'a\nb\nc\nd\ne\n';
+    const after = 'a\nB\nc\nd\nnew\ne\n';
+
+    expect(diffLineBlocks(before, after)).toEqual([
+      { newStart: 1, deleted: ['b'], inserted: ['B'] },
+      { newStart: 4, deleted: [], inserted: ['new'] },
+    ]);
+  });
+
+  it('should return no blocks for identical text', () => {
+    expect(diffLineBlocks('same\n', 'same\n')).toEqual([]);
+  });
+});
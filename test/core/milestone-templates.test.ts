@@ -0,0 +1,125 @@
+/**
+ * Test suite for milestone templates
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadMilestoneTemplates,
+  parseTemplates,
+  TEMPLATE_FILE,
+} from '../../src/core/milestone-templates';
+
+describe('milestone templates', () => {
+  const bugFix = {
+    name: 'Bug fix',
+    milestones: [
+      { name: 'Reproduce', targetDuration: 20 },
+      { name: 'Fix', targetDuration: 45 },
+    ],
+  };
+
+  describe('parseTemplates', () => {
+    it('should convert target durations from minutes to seconds', () => {
+      expect(
+        parseTemplates([{ ...bugFix, description: 'Report to fix', recurring: true }])
+      ).toEqual([
+        {
+          name: 'Bug fix',
+          description: 'Report to fix',
+          recurring: true,
+          milestones: [
+            { name: 'Reproduce', targetDuration: 1200 },
+            { name: 'Fix', targetDuration: 2700 },
+          ],
+        },
+      ]);
+    });
+
+    it('should skip invalid templates and steps', () => {
+      const templates = parseTemplates([
+        { name: '  ', milestones: [{ name: 'Step' }] },
+        { name: 'No steps', milestones: [] },
+        { name: 'Steps missing', milestones: 'Fix' },
+        {
+          name: 'Mixed',
+          milestones: [{ name: 'Ok', targetDuration: -5 }, { targetDuration: 10 }, 3],
+        },
+        'Bug fix',
+      ]);
+
+      expect(templates).toEqual([
+        {
+          name: 'Mixed',
+          description: undefined,
+          recurring: false,
+          milestones: [{ name: 'Ok', targetDuration: undefined }],
+        },
+      ]);
+    });
+
+    it('should return nothing for a value that is not a list', () => {
+      expect(parseTemplates(undefined)).toEqual([]);
+      expect(parseTemplates({ name: 'Bug fix' })).toEqual([]);
+    });
+  });
+
+  describe('loadMilestoneTemplates', () => {
+    let tempDir: string;
+    let mockVSCode: any;
+
+    const writeTemplates = (content: string) =>
+      fs.writeFileSync(path.join(tempDir, TEMPLATE_FILE), content);
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tridishti-templates-'));
+      mockVSCode = (global as any).testUtils.mockVSCode;
+      mockVSCode.workspace.workspaceFolders = [{ name: 'app', uri: { fsPath: tempDir } }];
+    });
+
+    afterEach(() => {
+      mockVSCode.workspace.workspaceFolders = [{ uri: { fsPath: '/test/workspace' } }];
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should load templates from settings without a template file', async () => {
+      const templates = await loadMilestoneTemplates([bugFix]);
+
+      expect(templates.map(t => t.name)).toEqual(['Bug fix']);
+    });
+
+    it('should put file templates first and let them replace settings of the same name', async () => {
+      writeTemplates(
+        JSON.stringify({
+          milestoneTemplates: [
+            { name: 'Bug fix', milestones: [{ name: 'Triage' }] },
+            { name: 'Release', milestones: [{ name: 'Changelog' }] },
+          ],
+        })
+      );
+
+      const templates = await loadMilestoneTemplates([
+        bugFix,
+        { name: 'Spike', milestones: [{ name: 'Explore' }] },
+      ]);
+
+      expect(templates.map(t => t.name)).toEqual(['Bug fix', 'Release', 'Spike']);
+      expect(templates[0].milestones).toEqual([{ name: 'Triage', targetDuration: undefined }]);
+    });
+
+    it('should ignore a template file without templates', async () => {
+      writeTemplates('{}');
+
+      expect(await loadMilestoneTemplates()).toEqual([]);
+    });
+
+    it('should throw naming the folder when the template file is not valid JSON', async () => {
+      writeTemplates('{ "milestoneTemplates": [');
+
+      await expect(loadMilestoneTemplates([bugFix])).rejects.toThrow(
+        `Invalid ${TEMPLATE_FILE} in app:`
+      );
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Test suite for the module dependency graph
+ */
+
+import * as path from 'path';
+import {
+  buildModuleGraph,
+  describeModuleCluster,
+  getDependencies,
+  getModuleClusters,
+  IModuleGraph,
+  linkModules,
+  parseImports,
+} from '../../src/core/module-graph';
+
+describe('module graph', () => {
+  const root = path.resolve('/project');
+  const file = (relative: string) => path.join(root, relative);
+
+  describe('parseImports', () => {
+    it('should find imports, re-exports, require() and dynamic import()', () => {
+      const content = [
+        "import { a } from './a';",
+        "import * as b from '../b';",
+        "export { c } from './c';",
+        "const d = require('./d');",
+        "const e = await import('./e');",
+        "import 'side-effect';",
+      ].join('\n');
+
+      expect(parseImports(content)).toEqual(['./a', '../b', './c', './d', './e']);
+    });
+  });
+
+  describe('linkModules', () => {
+    it('should link only the given modules, resolving extensions and index files', () => {
+      const graph = linkModules([
+        { path: file('src/app.ts'), content: "import { auth } from './auth';\nimport 'lodash';" },
+        { path: file('src/auth/index.ts'), content: "export * from './login.js';" },
+        { path: file('src/auth/login.ts'), content: "import { db } from '../db';" },
+      ]);
+
+      expect(graph.imports.get(file('src/app.ts'))).toEqual([file('src/auth/index.ts')]);
+      expect(graph.imports.get(file('src/auth/index.ts'))).toEqual([file('src/auth/login.ts')]);
+      expect(graph.imports.get(file('src/auth/login.ts'))).toEqual([]);
+    });
+  });
+
+  describe('buildModuleGraph', () => {
+    it('should follow imports into modules that were not changed', async () => {
+      const files = new Map([
+        [file('src/login.ts'), "import { Session } from './session';"],
+        [file('src/session.ts'), "import { sign } from './token';"],
+        [file('src/token.ts'), 'export function sign() {}'],
+        [file('README.md'), "import { x } from './src/login';"],
+      ]);
+      const readFile = jest.fn(async (filePath: string) => files.get(filePath));
+
+      const graph = await buildModuleGraph([file('src/login.ts'), file('README.md')], readFile);
+
+      expect(Array.from(graph.imports.keys())).toEqual([
+        file('src/login.ts'),
+        file('src/session.ts'),
+        file('src/token.ts'),
+      ]);
+      expect(readFile).toHaveBeenCalledTimes(new Set(readFile.mock.calls.map(c => c[0])).size);
+    });
+  });
+
+  describe('getDependencies', () => {
+    it('should collect direct and indirect dependencies', () => {
+      const graph: IModuleGraph = {
+        imports: new Map([
+          ['a', ['b']],
+          ['b', ['c', 'a']],
+          ['c', []],
+          ['d', ['c']],
+        ]),
+      };
+
+      expect(Array.from(getDependencies(graph, ['a']))).toEqual(['b', 'c', 'a']);
+      expect(Array.from(getDependencies(graph, ['d']))).toEqual(['c']);
+    });
+  });
+
+  describe('getModuleClusters', () => {
+    it('should group modules depending on one another, largest first', () => {
+      const graph: IModuleGraph = {
+        imports: new Map([
+          ['invoice', []],
+          ['login', ['session']],
+          ['session', ['hidden']],
+          ['hidden', ['token']],
+          ['token', []],
+        ]),
+      };
+
+      expect(getModuleClusters(graph, ['invoice', 'login', 'token'])).toEqual([
+        ['login', 'token'],
+        ['invoice'],
+      ]);
+    });
+  });
+
+  describe('describeModuleCluster', () => {
+    it('should name the shared directory and the modules in it', () => {
+      expect(
+        describeModuleCluster([
+          file('src/auth/login.ts'),
+          file('src/auth/session/index.ts'),
+          file('src/auth/token.ts'),
+          file('src/auth/hash.ts'),
+        ])
+      ).toBe('auth: login, session, token, +1 more');
+    });
+  });
+});
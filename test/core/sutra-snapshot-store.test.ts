@@ -0,0 +1,136 @@
+/**
+ * Test suite for SutraSnapshotStore module
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SutraSnapshotStore } from '../../src/core/sutra-snapshot-store';
+
+describe('SutraSnapshotStore', () => {
+  let tempDir: string;
+  let workDir: string;
+  let store: SutraSnapshotStore;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tridishti-snapshots-'));
+    workDir = path.join(tempDir, 'work');
+    fs.mkdirSync(workDir);
+    store = new SutraSnapshotStore(path.join(tempDir, 'store'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('snapshot', () => {
+    it('should store file contents from disk', async () => {
+      const file = path.join(workDir, 'a.ts');
+      fs.writeFileSync(file, 'const a = 1;');
+
+      const [entry] = await store.snapshot([{ path: file }]);
+
+      expect(entry.path).toBe(file);
+      expect(entry.hash).toHaveLength(64);
+      expect(entry.size).toBe(12);
+      expect((await store.read(entry.hash!))?.toString()).toBe('const a = 1;');
+    });
+
+    it('should prefer in-memory contents over disk', async () => {
+      const file = path.join(workDir, 'a.ts');
+      fs.writeFileSync(file, 'saved');
+
+      const [entry] = await store.snapshot([{ path: file, content: 'unsaved' }]);
+
+      expect((await store.read(entry.hash!))?.toString()).toBe('unsaved');
+    });
+
+    it('should deduplicate identical contents', async () => {
+      const first = await store.snapshot([{ path: path.join(workDir, 'a.ts'), content: 'same' }]);
+      const second = await store.snapshot([{ path: path.join(workDir, 'b.ts'), content: 'same' }]);
+
+      expect(first[0].hash).toBe(second[0].hash);
+    });
+
+    it('should record missing files as deletions', async () => {
+      const [entry] = await store.snapshot([{ path: path.join(workDir, 'missing.ts') }]);
+
+      expect(entry.hash).toBeUndefined();
+    });
+
+    it('should keep blobs outside the working directory', async () => {
+      const [entry] = await store.snapshot([{ path: path.join(workDir, 'a.ts'), content: 'x' }]);
+
+      expect(store.getBlobPath(entry.hash!).startsWith(path.join(tempDir, 'store'))).toBe(true);
+      expect(fs.readdirSync(workDir)).toEqual([]);
+    });
+
+    it('should still read blobs stored before yatras had their own', async () => {
+      const [entry] = await store.snapshot([{ path: '/a.ts', content: 'old' }]);
+      store.setSession('yatra-1');
+
+      expect((await store.read(entry.hash!))?.toString()).toBe('old');
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore file contents', async () => {
+      const file = path.join(workDir, 'a.ts');
+      fs.writeFileSync(file, 'original');
+      const entries = await store.snapshot([{ path: file }]);
+      fs.writeFileSync(file, 'changed');
+
+      const restored = await store.restore(entries);
+
+      expect(restored).toEqual([file]);
+      expect(fs.readFileSync(file, 'utf-8')).toBe('original');
+    });
+
+    it('should recreate deleted files and directories', async () => {
+      const file = path.join(workDir, 'nested', 'a.ts');
+      const entries = await store.snapshot([{ path: file, content: 'nested' }]);
+
+      await store.restore(entries);
+
+      expect(fs.readFileSync(file, 'utf-8')).toBe('nested');
+    });
+
+    it('should remove files that did not exist at snapshot time', async () => {
+      const file = path.join(workDir, 'later.ts');
+      const entries = await store.snapshot([{ path: file }]);
+      fs.writeFileSync(file, 'created later');
+
+      await store.restore(entries);
+
+      expect(fs.existsSync(file)).toBe(false);
+    });
+
+    it('should throw when a blob is missing', async () => {
+      await expect(
+        store.restore([{ path: path.join(workDir, 'a.ts'), hash: 'ff'.repeat(32) }])
+      ).rejects.toThrow('Snapshot blob missing');
+    });
+  });
+
+  describe('deleteBlobs', () => {
+    it("should keep each yatra's blobs apart from other yatras'", async () => {
+      store.setSession('yatra-1');
+      const [entry] = await store.snapshot([{ path: '/a.ts', content: 'shared' }]);
+      store.setSession('yatra-2');
+      await store.snapshot([{ path: '/a.ts', content: 'shared' }]);
+
+      await store.deleteBlobs([entry.hash!]);
+      store.setSession('yatra-1');
+
+      expect((await store.read(entry.hash!))?.toString()).toBe('shared');
+    });
+
+    it('should delete stored blobs and ignore missing ones', async () => {
+      const [entry] = await store.snapshot([{ path: path.join(workDir, 'a.ts'), content: 'a' }]);
+
+      await store.deleteBlobs([entry.hash!, 'ff'.repeat(32)]);
+
+      expect(await store.read(entry.hash!)).toBeUndefined();
+    });
+  });
+});
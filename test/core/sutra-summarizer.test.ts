@@ -0,0 +1,136 @@
+/**
+ * Test suite for checkpoint summaries
+ */
+
+import { isTestFile, summarizeChanges } from '../../src/core/sutra-summarizer';
+
+describe('summarizeChanges', () => {
+  const modified = (path: string, oldText: string, newText: string) => ({
+    path,
+    status: 'modified' as const,
+    oldText,
+    newText,
+  });
+
+  const service = [
+    'export class AuthService {',
+    '  login(user: string) {',
+    '    return check(user);',
+    '  }',
+    '',
+    '  logout() {',
+    '    return true;',
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+
+  it('should return undefined without changes', () => {
+    expect(summarizeChanges([])).toBeUndefined();
+  });
+
+  it('should name the symbol whose body changed', () => {
+    const after = service.replace('return true;', 'return false;');
+
+    expect(summarizeChanges([modified('/src/auth.ts', service, after)])).toBe(
+      'Update logout in auth.ts'
+    );
+  });
+
+  it('should report added and removed symbols', () => {
+    const after = service
+      .replace('  logout() {\n    return true;\n  }\n', '')
+      .replace(
+        '}\n',
+        '}\n\nexport function validateToken(token: string) {\n  return !!token;\n}\n'
+      );
+
+    expect(summarizeChanges([modified('/src/auth.ts', service, after)])).toBe(
+      'Add validateToken, remove logout in auth.ts'
+    );
+  });
+
+  it('should detect renamed identifiers', () => {
+    const after = service.replace('login(user', 'signIn(user');
+
+    expect(summarizeChanges([modified('/src/auth.ts', service, after)])).toBe(
+      'Rename login → signIn in auth.ts'
+    );
+  });
+
+  it('should fall back to file names when contents are unknown', () => {
+    expect(
+      summarizeChanges([
+        { path: '/src/a.ts', status: 'modified' },
+        { path: '/src/b.ts', status: 'modified' },
+      ])
+    ).toBe('Edit a.ts, b.ts');
+  });
+
+  it('should report new and deleted files', () => {
+    expect(
+      summarizeChanges([
+        { path: '/src/new.ts', status: 'added', oldText: '', newText: 'x' },
+        { path: '/src/old.ts', status: 'deleted', oldText: 'y', newText: '' },
+      ])
+    ).toBe('Add new.ts, delete old.ts');
+  });
+
+  it('should report tests separately from source', () => {
+    const after = service.replace('return true;', 'return false;');
+
+    expect(
+      summarizeChanges([
+        modified('/src/auth.ts', service, after),
+        modified('/test/auth.test.ts', 'a', 'b'),
+      ])
+    ).toBe('Update logout in auth.ts; update tests (auth.test.ts)');
+    expect(
+      summarizeChanges([{ path: '/src/auth.spec.ts', status: 'added', oldText: '', newText: 'x' }])
+    ).toBe('Add tests (auth.spec.ts)');
+  });
+
+  it('should summarize symbols across several files', () => {
+    const after = service.replace('return true;', 'return false;');
+
+    expect(
+      summarizeChanges([
+        modified('/src/a.ts', service, after),
+        modified(
+          '/src/b.ts',
+          'function build() {\n  return 1;\n}\n',
+          'function build() {\n  return 2;\n}\n'
+        ),
+      ])
+    ).toBe('Update logout, build across 2 files');
+  });
+
+  it('should collapse long lists', () => {
+    const files = ['a', 'b', 'c', 'd', 'e'].map(name => ({
+      path: `/src/${name}.ts`,
+      status: 'modified' as const,
+    }));
+
+    expect(summarizeChanges(files)).toBe('Edit a.ts, b.ts, c.ts +2 more');
+  });
+
+  it('should be deterministic', () => {
+    const after = service.replace('login(user', 'signIn(user');
+    const files = [modified('/src/auth.ts', service, after)];
+
+    expect(summarizeChanges(files)).toBe(summarizeChanges(files));
+  });
+});
+
+describe('isTestFile', () => {
+  it.each([
+    ['/src/auth.test.ts', true],
+    ['/src/auth.spec.js', true],
+    ['/project/__tests__/auth.ts', true],
+    ['/project/tests/test_auth.py', true],
+    ['/src/testing-utils.ts', false],
+    ['/src/contest.ts', false],
+  ])('should classify %s as %s', (filePath, expected) => {
+    expect(isTestFile(filePath)).toBe(expected);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Test suite for test runner output parsing
+ */
+
+import { classifyCommand, parseFailingTests } from '../../src/core/test-output';
+
+describe('classifyCommand', () => {
+  it.each([
+    ['npm test', 'test'],
+    ['yarn run test --watch=false', 'test'],
+    ['npx jest src/auth', 'test'],
+    ['python -m pytest -x', 'test'],
+    ['go test ./...', 'test'],
+    ['cargo test', 'test'],
+    ['npm run build', 'build'],
+    ['npx tsc --noEmit', 'build'],
+    ['make', 'build'],
+    ['git status', undefined],
+    ['ls tests', undefined],
+  ])('should classify %s as %s', (commandLine, expected) => {
+    expect(classifyCommand(commandLine)).toBe(expected);
+  });
+});
+
+describe('parseFailingTests', () => {
+  it('should parse Jest failures', () => {
+    const output = [
+      'FAIL test/auth.test.ts',
+      '  Auth',
+      '    ✓ accepts valid tokens (3 ms)',
+      '    ✕ rejects expired tokens (5 ms)',
+      '',
+      '  ● Auth › rejects expired tokens',
+      '',
+      '    expect(received).toBe(expected)',
+    ].join('\n');
+
+    expect(parseFailingTests(output)).toEqual(['Auth › rejects expired tokens']);
+  });
+
+  it('should fall back to failure markers', () => {
+    expect(parseFailingTests('  × parses dates 12ms\n  ✕ parses times (4 ms)')).toEqual([
+      'parses dates 12ms',
+      'parses times',
+    ]);
+  });
+
+  it('should parse pytest, Go and Cargo failures', () => {
+    const output = [
+      'FAILED tests/test_auth.py::test_expired - AssertionError',
+      '--- FAIL: TestLogin (0.00s)',
+      'test auth::tests::expired ... FAILED',
+      'test auth::tests::valid ... ok',
+    ].join('\n');
+
+    expect(parseFailingTests(output)).toEqual([
+      'tests/test_auth.py::test_expired',
+      'TestLogin',
+      'auth::tests::expired',
+    ]);
+  });
+
+  it('should parse Mocha failures', () => {
+    expect(parseFailingTests('  2 passing\n  1 failing\n\n  1) Auth rejects tokens:\n')).toEqual([
+      'Auth rejects tokens:',
+    ]);
+  });
+
+  it('should ignore colour codes and duplicates', () => {
+    const output = '\u001b[31m  ● Auth › expired\u001b[39m\n  ● Auth › expired\n';
+
+    expect(parseFailingTests(output)).toEqual(['Auth › expired']);
+  });
+
+  it('should return nothing for passing output', () => {
+    expect(parseFailingTests('Tests: 12 passed, 12 total')).toEqual([]);
+  });
+});
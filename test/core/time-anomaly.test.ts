@@ -0,0 +1,138 @@
+/**
+ * Test suite for TimeAnomalyDetector
+ */
+
+import { TimeAnomalyDetector } from '../../src/core/time-anomaly';
+
+describe('TimeAnomalyDetector', () => {
+  let vscode: any;
+  let onAnomaly: jest.Mock;
+  let detector: TimeAnomalyDetector;
+
+  const listener = (mock: jest.Mock) => mock.mock.calls[mock.mock.calls.length - 1][0];
+  const edit = (fsPath: string, scheme = 'file') =>
+    listener(vscode.workspace.onDidChangeTextDocument)({
+      document: { uri: { fsPath, scheme } },
+      contentChanges: [{}],
+    });
+  const focus = (fsPath: string) =>
+    listener(vscode.window.onDidChangeActiveTextEditor)({
+      document: { uri: { fsPath, scheme: 'file' } },
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    vscode = (global as any).testUtils.mockVSCode;
+    onAnomaly = jest.fn();
+    detector = new TimeAnomalyDetector(onAnomaly);
+    detector.start();
+  });
+
+  afterEach(() => {
+    detector.dispose();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should report rapid switching between edited files with the measured rate', () => {
+    jest.advanceTimersByTime(60000);
+    for (let i = 0; i < 9; i++) {
+      edit(i % 2 ? '/src/b.ts' : '/src/a.ts');
+      jest.advanceTimersByTime(5000);
+    }
+
+    expect(onAnomaly).toHaveBeenCalledTimes(1);
+    expect(onAnomaly).toHaveBeenCalledWith(
+      expect.objectContaining({
+        kind: 'context_switching',
+        contextSwitchRate: 4.8,
+        files: ['/src/a.ts', '/src/b.ts'],
+      })
+    );
+  });
+
+  it('should not report steady work across files', () => {
+    for (let i = 0; i < 12; i++) {
+      edit(i % 2 ? '/src/b.ts' : '/src/a.ts');
+      jest.advanceTimersByTime(30000);
+    }
+
+    expect(onAnomaly).not.toHaveBeenCalled();
+  });
+
+  it('should ignore edits to non-file documents', () => {
+    jest.advanceTimersByTime(60000);
+    for (let i = 0; i < 9; i++) {
+      edit(i % 2 ? 'b' : 'a', 'output');
+    }
+
+    expect(detector.measure().contextSwitchRate).toBe(0);
+  });
+
+  it('should report bursts of editor hopping without editing', () => {
+    ['/src/a.ts', '/src/b.ts', '/src/c.ts', '/src/a.ts', '/src/d.ts'].forEach(focus);
+    expect(onAnomaly).not.toHaveBeenCalled();
+
+    focus('/src/e.ts');
+
+    expect(onAnomaly).toHaveBeenCalledWith(
+      expect.objectContaining({
+        kind: 'editor_hopping',
+        editorSwitchRate: 6,
+        files: ['/src/a.ts', '/src/b.ts', '/src/c.ts', '/src/d.ts', '/src/e.ts'],
+      })
+    );
+  });
+
+  it('should not count switches separated by edits as a burst', () => {
+    ['/src/a.ts', '/src/b.ts', '/src/c.ts'].forEach(focus);
+    jest.advanceTimersByTime(1000);
+    edit('/src/c.ts');
+    jest.advanceTimersByTime(1000);
+    ['/src/d.ts', '/src/e.ts', '/src/f.ts'].forEach(focus);
+
+    expect(onAnomaly).not.toHaveBeenCalled();
+  });
+
+  it('should report each kind at most once per window', () => {
+    const hop = () => ['/src/a.ts', '/src/b.ts', '/src/c.ts'].forEach(focus);
+    hop();
+    hop();
+    hop();
+    jest.advanceTimersByTime(60000);
+    hop();
+    hop();
+
+    expect(onAnomaly).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(5 * 60000);
+    hop();
+    hop();
+
+    expect(onAnomaly).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report a stall once until the next edit', () => {
+    jest.advanceTimersByTime(19 * 60000);
+    expect(onAnomaly).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(60000);
+    expect(onAnomaly).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'stall', stallDuration: 1200 })
+    );
+
+    jest.advanceTimersByTime(30 * 60000);
+    expect(onAnomaly).toHaveBeenCalledTimes(1);
+
+    edit('/src/a.ts');
+    jest.advanceTimersByTime(20 * 60000);
+    expect(onAnomaly).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop detecting when stopped', () => {
+    detector.stop();
+    jest.advanceTimersByTime(30 * 60000);
+
+    expect(onAnomaly).not.toHaveBeenCalled();
+  });
+});
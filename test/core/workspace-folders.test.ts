@@ -0,0 +1,76 @@
+/**
+ * Test suite for workspace folder partitioning
+ */
+
+import {
+  findWorkspaceFolder,
+  getWorkspaceFolderName,
+  getWorkspaceFolderNames,
+  isMultiRootWorkspace,
+  isWithin,
+  partitionByWorkspaceFolder,
+} from '../../src/core/workspace-folders';
+
+describe('workspace folders', () => {
+  let mockVSCode: any;
+
+  const folder = (name: string, fsPath: string) => ({ name, uri: { fsPath } });
+
+  beforeEach(() => {
+    mockVSCode = (global as any).testUtils.mockVSCode;
+    mockVSCode.workspace.workspaceFolders = [
+      folder('api', '/repo/packages/api'),
+      folder('web', '/repo/packages/web'),
+      folder('repo', '/repo'),
+    ];
+  });
+
+  afterEach(() => {
+    mockVSCode.workspace.workspaceFolders = [{ uri: { fsPath: '/test/workspace' } }];
+  });
+
+  it('should detect multi-root workspaces', () => {
+    expect(isMultiRootWorkspace()).toBe(true);
+
+    mockVSCode.workspace.workspaceFolders = [folder('repo', '/repo')];
+    expect(isMultiRootWorkspace()).toBe(false);
+  });
+
+  it('should tell whether a path is inside a directory', () => {
+    expect(isWithin('/repo/src/a.ts', '/repo')).toBe(true);
+    expect(isWithin('/repo', '/repo')).toBe(true);
+    expect(isWithin('/repo/..foo/a.ts', '/repo')).toBe(true);
+    expect(isWithin('/repository/a.ts', '/repo')).toBe(false);
+    expect(isWithin('/a.ts', '/repo')).toBe(false);
+  });
+
+  it('should prefer the deepest folder containing a file', () => {
+    expect(findWorkspaceFolder('/repo/packages/api/src/a.ts')?.name).toBe('api');
+    expect(findWorkspaceFolder('/repo/README.md')?.name).toBe('repo');
+    expect(findWorkspaceFolder('/repo/packages/apiary/x.ts')?.name).toBe('repo');
+    expect(findWorkspaceFolder('/elsewhere/x.ts')).toBeUndefined();
+  });
+
+  it('should only name roots in multi-root workspaces', () => {
+    expect(getWorkspaceFolderName('/repo/packages/web/b.ts')).toBe('web');
+
+    mockVSCode.workspace.workspaceFolders = [folder('repo', '/repo')];
+    expect(getWorkspaceFolderName('/repo/packages/web/b.ts')).toBeUndefined();
+  });
+
+  it('should partition files by root', () => {
+    const partitions = partitionByWorkspaceFolder([
+      '/repo/packages/api/a.ts',
+      '/repo/packages/web/b.ts',
+      '/repo/packages/api/c.ts',
+      '/tmp/d.ts',
+    ]);
+
+    expect(Array.from(partitions)).toEqual([
+      ['api', ['/repo/packages/api/a.ts', '/repo/packages/api/c.ts']],
+      ['web', ['/repo/packages/web/b.ts']],
+      [undefined, ['/tmp/d.ts']],
+    ]);
+    expect(getWorkspaceFolderNames(['/repo/packages/web/b.ts', '/tmp/d.ts'])).toEqual(['web']);
+  });
+});
@@ -25,9 +25,18 @@ describe('YatraManager', () => {
       start: jest.fn(),
       stop: jest.fn(),
       getCheckpoints: jest.fn(() => []),
+      getLatestCheckpoint: jest.fn(() => undefined),
+      loadCheckpoints: jest.fn(),
+      compact: jest.fn(async () => []),
     };
     karmaPhala = {
       getMilestones: jest.fn(() => []),
+      getActiveMilestones: jest.fn(() => []),
+      loadMilestones: jest.fn(),
+      setCurrentYatra: jest.fn(),
+      pauseMilestone: jest.fn(),
+      resumeMilestone: jest.fn(),
+      instantiateTemplate: jest.fn(() => []),
     };
     dharmaSankata = {
       start: jest.fn(),
@@ -72,6 +81,19 @@ describe('YatraManager', () => {
       expect(dharmaSankata.setGoal).toHaveBeenCalledWith('Test journey');
     });
 
+    it('should record the roots of a multi-root workspace', async () => {
+      const mockVSCode = (global as any).testUtils.mockVSCode;
+      mockVSCode.workspace.workspaceFolders = [
+        { name: 'api', uri: { fsPath: '/repo/api' } },
+        { name: 'web', uri: { fsPath: '/repo/web' } },
+      ];
+
+      const yatra = await yatraManager.startYatra();
+      mockVSCode.workspace.workspaceFolders = [{ uri: { fsPath: '/test/workspace' } }];
+
+      expect(yatra.workspaceFolders).toEqual(['api', 'web']);
+    });
+
     it('should start yatra without sankalpa', async () => {
       const yatra = await yatraManager.startYatra();
 
@@ -79,6 +101,17 @@ describe('YatraManager', () => {
       expect(dharmaSankata.setGoal).not.toHaveBeenCalled();
     });
 
+    it('should lay out the given milestone templates', async () => {
+      const template = { name: 'Bug fix', milestones: [{ name: 'Reproduce' }] };
+
+      await yatraManager.startYatra('Fix login', [template]);
+
+      expect(karmaPhala.instantiateTemplate).toHaveBeenCalledWith(template);
+      expect(karmaPhala.setCurrentYatra.mock.invocationCallOrder[0]).toBeLessThan(
+        karmaPhala.instantiateTemplate.mock.invocationCallOrder[0]
+      );
+    });
+
     it('should throw error when starting yatra while one is active', async () => {
       await yatraManager.startYatra();
 
@@ -89,7 +122,7 @@ describe('YatraManager', () => {
       await yatraManager.startYatra('Test journey');
 
       sutraCheckpoints.getCheckpoints.mockReturnValue([
-        { id: 'cp1', timestamp: 1000, filesChanged: [] },
+        { id: 'cp1', timestamp: Date.now(), filesChanged: [] },
       ]);
       karmaPhala.getMilestones.mockReturnValue([
         { id: 'm1', name: 'Test milestone', status: 'completed' },
@@ -118,6 +151,120 @@ describe('YatraManager', () => {
     });
   });
 
+  describe('change tracking', () => {
+    let changeTracker: any;
+    let trackedManager: YatraManager;
+
+    beforeEach(() => {
+      changeTracker = {
+        start: jest.fn().mockResolvedValue(undefined),
+        stop: jest.fn(),
+        getChangeSet: jest.fn(async () => [
+          { path: '/src/a.ts', status: 'modified', linesAdded: 3, linesDeleted: 1, dirty: false },
+        ]),
+      };
+      trackedManager = new YatraManager(
+        config,
+        eventEmitter,
+        sutraCheckpoints,
+        karmaPhala,
+        dharmaSankata,
+        stateStorage,
+        changeTracker
+      );
+    });
+
+    it('should start tracking changes with the yatra', async () => {
+      await trackedManager.startYatra('Tracked');
+
+      expect(changeTracker.start).toHaveBeenCalled();
+    });
+
+    it('should record the change set when the yatra ends', async () => {
+      await trackedManager.startYatra('Tracked');
+
+      const yatra = await trackedManager.endYatra();
+
+      expect(yatra.changes).toHaveLength(1);
+      expect(yatra.changes?.[0].path).toBe('/src/a.ts');
+      expect(changeTracker.stop).toHaveBeenCalled();
+    });
+  });
+
+  describe('squashing', () => {
+    it('should squash the checkpoint commits of the ended yatra', async () => {
+      sutraCheckpoints.squashCheckpoints = jest.fn(async () => ['abc123']);
+      karmaPhala.getMilestones.mockReturnValue([
+        { id: 'm1', name: 'Login works', status: 'completed', createdAt: 1 },
+      ]);
+      await yatraManager.startYatra('User authentication');
+      const committed = {
+        id: 'cp1',
+        timestamp: Date.now(),
+        message: 'Add login form',
+        filesChanged: ['/src/login.ts'],
+        gitCommits: [{ root: '/repo', hash: '1', parent: 'base' }],
+      };
+      sutraCheckpoints.getCheckpoints.mockReturnValue([
+        committed,
+        { id: 'cp2', timestamp: Date.now(), filesChanged: ['/src/auth.ts'] },
+      ]);
+      await yatraManager.endYatra();
+
+      const hashes = await yatraManager.squashYatra();
+
+      expect(hashes).toEqual(['abc123']);
+      expect(sutraCheckpoints.squashCheckpoints).toHaveBeenCalledWith(
+        [committed],
+        [
+          'User authentication',
+          '',
+          '2 checkpoint(s), 2 file(s) changed',
+          '',
+          'Checkpoints:',
+          '- Add login form',
+          '',
+          'Milestones:',
+          '- Login works',
+        ].join('\n')
+      );
+      expect(committed.gitCommits).toBeUndefined();
+    });
+
+    it('should leave checkpoints of earlier sessions out of the yatra', async () => {
+      sutraCheckpoints.squashCheckpoints = jest.fn(async () => ['abc123']);
+      const commit = (hash: string) => [{ root: '/repo', hash, parent: 'base' }];
+      await yatraManager.startYatra('User authentication');
+      const own = { id: 'cp2', timestamp: Date.now(), filesChanged: [], gitCommits: commit('2') };
+      sutraCheckpoints.getCheckpoints.mockReturnValue([
+        { id: 'cp1', timestamp: Date.now() - 1000, filesChanged: [], gitCommits: commit('1') },
+        own,
+      ]);
+
+      const yatra = await yatraManager.endYatra();
+      await yatraManager.squashYatra();
+
+      expect(yatra.checkpoints).toEqual([own]);
+      expect(sutraCheckpoints.squashCheckpoints).toHaveBeenCalledWith([own], expect.any(String));
+    });
+
+    it('should reject squashing without checkpoint commits', async () => {
+      await yatraManager.startYatra('Nothing committed');
+
+      await expect(yatraManager.squashYatra()).rejects.toThrow('no checkpoint commits');
+    });
+
+    it('should reject squashing without a yatra', async () => {
+      await expect(yatraManager.squashYatra()).rejects.toThrow('No yatra to squash');
+    });
+
+    it('should name the checkpoint ref after the yatra', async () => {
+      const yatra = await yatraManager.startYatra();
+
+      expect(sutraCheckpoints.start).toHaveBeenCalledWith(yatra.id);
+    });
+  });
+
   describe('yatra state management', () => {
     it('should return current yatra', async () => {
       const yatra = await yatraManager.startYatra();
@@ -289,6 +436,541 @@ describe('YatraManager', () => {
     });
   });
 
+  describe('checkpoint retention', () => {
+    const fire = (event: any) => eventEmitter.event.mock.calls[0][0](event);
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+
+    it('should drop compacted checkpoints from the yatra', async () => {
+      const yatra = await yatraManager.startYatra();
+      sutraCheckpoints.compact.mockResolvedValueOnce([{ id: 'cp1' }]);
+
+      fire({
+        type: 'checkpoint',
+        timestamp: 1,
+        data: { id: 'cp1', timestamp: 1, filesChanged: [] },
+      });
+      await settle();
+
+      expect(yatra.checkpoints).toEqual([]);
+    });
+
+    it('should run retention one checkpoint at a time and report failures', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      await yatraManager.startYatra();
+      let finishFirst: (removed: any[]) => void = () => undefined;
+      sutraCheckpoints.compact
+        .mockImplementationOnce(() => new Promise(resolve => (finishFirst = resolve)))
+        .mockRejectedValueOnce(new Error('rm failed'));
+
+      fire({ type: 'checkpoint', timestamp: 1, data: { id: 'cp1', timestamp: 1 } });
+      fire({ type: 'checkpoint', timestamp: 2, data: { id: 'cp2', timestamp: 2 } });
+      await settle();
+
+      expect(sutraCheckpoints.compact).toHaveBeenCalledTimes(1);
+
+      finishFirst([]);
+      await settle();
+
+      expect(sutraCheckpoints.compact).toHaveBeenCalledTimes(2);
+      expect(warn).toHaveBeenCalledWith('Failed to apply checkpoint retention:', expect.any(Error));
+      warn.mockRestore();
+    });
+
+    it('should preserve checkpoints milestones refer to', async () => {
+      await yatraManager.startYatra();
+      sutraCheckpoints.getLatestCheckpoint.mockReturnValue({ id: 'cp-start' });
+      fire({ type: 'milestone_created', timestamp: 1, data: { id: 'm1', name: 'Auth' } });
+      sutraCheckpoints.getLatestCheckpoint.mockReturnValue({ id: 'cp-end' });
+      fire({ type: 'milestone', timestamp: 2, data: { id: 'kp1', milestoneId: 'm1' } });
+
+      fire({
+        type: 'checkpoint',
+        timestamp: 3,
+        data: { id: 'cp2', timestamp: 3, filesChanged: [] },
+      });
+      await settle();
+
+      expect(yatraManager.getCurrentYatra()!.milestones[0]).toMatchObject({
+        startCheckpointId: 'cp-start',
+        endCheckpointId: 'cp-end',
+      });
+      expect(sutraCheckpoints.compact).toHaveBeenCalledWith(new Set(['cp-start', 'cp-end']));
+    });
+
+    it('should hand restored checkpoints back to the checkpoint module', async () => {
+      const checkpoints = [{ id: 'cp1', timestamp: 1, filesChanged: [] }];
+      stateStorage.get.mockReturnValue({
+        id: 'yatra-123',
+        startedAt: 1,
+        checkpoints,
+        milestones: [],
+        dharmaAlerts: [],
+      });
+
+      await yatraManager.restoreState();
+
+      expect(sutraCheckpoints.loadCheckpoints).toHaveBeenCalledWith(checkpoints);
+      // Starting the yatra's checkpoints would otherwise drop them again
+      expect(sutraCheckpoints.start.mock.invocationCallOrder[0]).toBeLessThan(
+        sutraCheckpoints.loadCheckpoints.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should hand restored milestones back to the karma phala module', async () => {
+      const milestones = [
+        { id: 'epic', name: 'Epic', createdAt: 1, status: 'active' },
+        { id: 'step', name: 'Step', createdAt: 2, status: 'active', parentId: 'epic' },
+      ];
+      stateStorage.get.mockReturnValue({
+        id: 'yatra-123',
+        startedAt: 1,
+        checkpoints: [],
+        milestones,
+        dharmaAlerts: [],
+      });
+
+      await yatraManager.restoreState();
+
+      expect(karmaPhala.loadMilestones).toHaveBeenCalledWith(milestones);
+    });
+  });
+
+  describe('estimate history', () => {
+    it('should record target and actual durations of completed milestones', async () => {
+      await yatraManager.startYatra();
+      stateStorage.get.mockImplementation((key: string) =>
+        key === 'milestoneEstimates'
+          ? [
+              {
+                milestoneId: 'old',
+                name: 'Old',
+                targetDuration: 60,
+                actualDuration: 90,
+                completedAt: 1,
+              },
+            ]
+          : undefined
+      );
+      for (const milestone of [
+        { id: 'm1', name: 'Targeted', createdAt: 1, status: 'active', targetDuration: 1800 },
+        { id: 'm2', name: 'Open-ended', createdAt: 2, status: 'active' },
+      ]) {
+        eventEmitter.fire({ type: 'milestone_created', timestamp: 1, data: milestone });
+      }
+
+      for (const milestoneId of ['m1', 'm2']) {
+        eventEmitter.fire({
+          type: 'milestone',
+          timestamp: 3,
+          data: {
+            id: `kp-${milestoneId}`,
+            milestoneId,
+            timestamp: 3,
+            score: 50,
+            duration: 2400,
+            filesModified: [],
+          },
+        });
+      }
+
+      const estimateUpdates = stateStorage.update.mock.calls.filter(
+        (call: any[]) => call[0] === 'milestoneEstimates'
+      );
+      expect(estimateUpdates).toHaveLength(1);
+      expect(estimateUpdates[0][1]).toEqual([
+        { milestoneId: 'old', name: 'Old', targetDuration: 60, actualDuration: 90, completedAt: 1 },
+        {
+          milestoneId: 'm1',
+          name: 'Targeted',
+          targetDuration: 1800,
+          actualDuration: 2400,
+          completedAt: 3,
+        },
+      ]);
+    });
+
+    it('should return an empty history when nothing was recorded', () => {
+      expect(yatraManager.getEstimateHistory()).toEqual([]);
+    });
+  });
+
+  describe('milestone completion', () => {
+    let changeTracker: any;
+    let trackedManager: YatraManager;
+    const milestone = {
+      id: 'm1',
+      name: 'Auth',
+      createdAt: 2000,
+      status: 'active',
+      startCheckpointId: 'start',
+    };
+
+    beforeEach(async () => {
+      changeTracker = {
+        start: jest.fn().mockResolvedValue(undefined),
+        stop: jest.fn(),
+        getChangeSet: jest.fn(async () => [{ path: '/src/unsaved.ts' }, { path: '/src/a.ts' }]),
+      };
+      sutraCheckpoints.getCheckpoint = jest.fn(() => ({ id: 'start', timestamp: 1000 }));
+      sutraCheckpoints.getCheckpoints.mockReturnValue([
+        { id: 'before', timestamp: 500, filesChanged: ['/src/old.ts'] },
+        { id: 'start', timestamp: 1000, filesChanged: ['/src/start.ts'] },
+        { id: 'cp1', timestamp: 1500, filesChanged: ['/src/a.ts'] },
+        { id: 'cp2', timestamp: 3000, filesChanged: ['/src/b.ts'] },
+      ]);
+      karmaPhala.getMilestones.mockReturnValue([milestone]);
+      karmaPhala.getActiveMilestone = jest.fn(() => milestone);
+      karmaPhala.completeMilestone = jest.fn(async () => ({ score: 42 }));
+      karmaPhala.previewScore = jest.fn(() => ({
+        score: 42,
+        breakdown: { strategy: 'default', components: [] },
+      }));
+      karmaPhala.getElapsedTime = jest.fn(() => 600);
+
+      trackedManager = new YatraManager(
+        config,
+        eventEmitter,
+        sutraCheckpoints,
+        karmaPhala,
+        dharmaSankata,
+        stateStorage,
+        changeTracker
+      );
+      await trackedManager.startYatra('Goal');
+    });
+
+    it('should complete with the files changed since the start checkpoint', async () => {
+      await trackedManager.completeMilestone();
+
+      expect(changeTracker.getChangeSet).toHaveBeenCalledWith(1000);
+      expect(karmaPhala.completeMilestone).toHaveBeenCalledWith(
+        ['/src/a.ts', '/src/b.ts', '/src/unsaved.ts'],
+        'm1',
+        [expect.objectContaining({ id: 'cp1' }), expect.objectContaining({ id: 'cp2' })]
+      );
+    });
+
+    it('should fall back to the creation time without a start checkpoint', async () => {
+      karmaPhala.getMilestones.mockReturnValue([{ ...milestone, startCheckpointId: undefined }]);
+
+      await trackedManager.completeMilestone('m1');
+
+      expect(changeTracker.getChangeSet).toHaveBeenCalledWith(2000);
+      expect(karmaPhala.completeMilestone.mock.calls[0][2]).toEqual([
+        expect.objectContaining({ id: 'cp2' }),
+      ]);
+    });
+
+    it('should leave out work done while the milestone was blocked', async () => {
+      karmaPhala.getMilestones.mockReturnValue([
+        { ...milestone, pauses: [{ start: 2000, end: 2500, reason: 'blocked' }] },
+      ]);
+
+      await trackedManager.completeMilestone('m1');
+
+      expect(changeTracker.getChangeSet).toHaveBeenCalledWith(2500);
+      expect(karmaPhala.completeMilestone.mock.calls[0][2]).toEqual([
+        expect.objectContaining({ id: 'cp2' }),
+      ]);
+    });
+
+    it('should summarize a milestone without completing it', async () => {
+      const summary = await trackedManager.getMilestoneSummary('m1');
+
+      expect(summary).toEqual({
+        milestone,
+        duration: 600,
+        filesModified: ['/src/a.ts', '/src/b.ts', '/src/unsaved.ts'],
+        checkpoints: [
+          expect.objectContaining({ id: 'cp1' }),
+          expect.objectContaining({ id: 'cp2' }),
+        ],
+        score: 42,
+        scoreBreakdown: { strategy: 'default', components: [] },
+      });
+      expect(karmaPhala.completeMilestone).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown milestones', async () => {
+      await expect(trackedManager.getMilestoneSummary('missing')).rejects.toThrow(
+        'No active milestone to complete'
+      );
+    });
+  });
+
+  describe('milestone nudges', () => {
+    let vscode: any;
+    let nudgeManager: YatraManager;
+
+    const editFile = () => {
+      const listener = vscode.workspace.onDidChangeTextDocument.mock.calls.slice(-1)[0][0];
+      listener({ document: { uri: { scheme: 'file' } }, contentChanges: [{}] });
+    };
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      vscode = (global as any).testUtils.mockVSCode;
+      karmaPhala.shouldCreateMilestone = jest.fn(() => false);
+      karmaPhala.shouldCompleteMilestone = jest.fn(() => false);
+      karmaPhala.getNudgeMessage = jest.fn(() => 'Consider creating a milestone.');
+      karmaPhala.getActiveMilestone = jest.fn(() => undefined);
+      karmaPhala.completeMilestone = jest.fn(async () => ({ score: 42 }));
+
+      nudgeManager = new YatraManager(
+        { ...config, milestoneNudgeInterval: 60, milestoneNudgeSnooze: 1800 },
+        eventEmitter,
+        sutraCheckpoints,
+        karmaPhala,
+        dharmaSankata,
+        stateStorage
+      );
+      await nudgeManager.startYatra('Goal');
+    });
+
+    afterEach(async () => {
+      await nudgeManager.endYatra();
+      jest.useRealTimers();
+    });
+
+    it('should track active time and stop counting when idle', async () => {
+      await jest.advanceTimersByTimeAsync(3 * 60000);
+      editFile();
+      await jest.advanceTimersByTimeAsync(10 * 60000);
+
+      // Active until five minutes after the last edit
+      expect(nudgeManager.getCurrentYatra()!.activeTime).toBe(8 * 60);
+      expect(karmaPhala.shouldCreateMilestone).toHaveBeenLastCalledWith(8 * 60);
+    });
+
+    it('should offer to create a milestone once the threshold is reached', async () => {
+      karmaPhala.shouldCreateMilestone.mockReturnValue(true);
+      vscode.window.showInformationMessage.mockResolvedValueOnce('Create Milestone');
+
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Consider creating a milestone.',
+        'Create Milestone',
+        'Snooze',
+        "Don't Ask This Session"
+      );
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('tridishti.createKarmaPhala');
+    });
+
+    it('should offer to complete a long-running milestone', async () => {
+      const milestone = { id: 'm1', name: 'Auth', createdAt: Date.now(), status: 'active' };
+      karmaPhala.getActiveMilestone.mockReturnValue(milestone);
+      karmaPhala.getMilestones.mockReturnValue([milestone]);
+      karmaPhala.shouldCompleteMilestone.mockReturnValue(true);
+      sutraCheckpoints.getCheckpoints.mockReturnValue([
+        { id: 'old', timestamp: Date.now() - 1000, filesChanged: ['/old.ts'] },
+        { id: 'cp1', timestamp: Date.now() + 1000, filesChanged: ['/a.ts', '/b.ts'] },
+        { id: 'cp2', timestamp: Date.now() + 2000, filesChanged: ['/a.ts'] },
+      ]);
+      vscode.window.showInformationMessage.mockResolvedValueOnce('Complete Milestone');
+
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(vscode.window.showInformationMessage.mock.calls[0][0]).toBe(
+        '"Auth" has been in progress for 1 active minutes. Is it done?'
+      );
+      expect(karmaPhala.completeMilestone).toHaveBeenCalledWith(
+        ['/a.ts', '/b.ts'],
+        'm1',
+        expect.arrayContaining([expect.objectContaining({ id: 'cp1' })])
+      );
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Karma Phala milestone completed: Auth (Score: 42)'
+      );
+    });
+
+    it('should not nudge again while snoozed', async () => {
+      karmaPhala.shouldCreateMilestone.mockReturnValue(true);
+      vscode.window.showInformationMessage.mockResolvedValueOnce('Snooze');
+
+      await jest.advanceTimersByTimeAsync(60000);
+      editFile();
+      await jest.advanceTimersByTimeAsync(4 * 60000);
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledTimes(1);
+
+      for (let minute = 0; minute < 26; minute++) {
+        editFile();
+        await jest.advanceTimersByTimeAsync(60000);
+      }
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop nudging for the session on "Don\'t Ask This Session"', async () => {
+      karmaPhala.shouldCreateMilestone.mockReturnValue(true);
+      vscode.window.showInformationMessage.mockResolvedValueOnce("Don't Ask This Session");
+
+      for (let minute = 0; minute < 60; minute++) {
+        editFile();
+        await jest.advanceTimersByTimeAsync(60000);
+      }
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restart the milestone clock when a milestone is created', async () => {
+      editFile();
+      await jest.advanceTimersByTimeAsync(2 * 60000);
+      eventEmitter.fire({
+        type: 'milestone_created',
+        timestamp: Date.now(),
+        data: { id: 'm1', name: 'New', createdAt: Date.now(), status: 'active' },
+      });
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(karmaPhala.shouldCreateMilestone).toHaveBeenLastCalledWith(60);
+      expect(nudgeManager.getCurrentYatra()!.activeTime).toBe(3 * 60);
+    });
+
+    it('should not count active time while paused', async () => {
+      await nudgeManager.pauseYatra();
+      editFile();
+      await jest.advanceTimersByTimeAsync(3 * 60000);
+
+      expect(nudgeManager.getCurrentYatra()!.activeTime).toBeUndefined();
+    });
+  });
+
+  describe('pausing', () => {
+    const milestone = { id: 'm1', name: 'Auth', createdAt: 0, status: 'active' };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      karmaPhala.getActiveMilestones.mockReturnValue([milestone]);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should pause the yatra and its milestones', async () => {
+      const yatra = await yatraManager.startYatra('Goal');
+      jest.advanceTimersByTime(10 * 60000);
+
+      await yatraManager.pauseYatra();
+
+      expect(yatraManager.isPaused()).toBe(true);
+      expect(yatra.pauses).toEqual([{ start: Date.now(), reason: 'manual' }]);
+      expect(karmaPhala.pauseMilestone).toHaveBeenCalledWith('m1', 'yatra', Date.now());
+      expect(eventEmitter.fire).toHaveBeenCalledWith({
+        type: 'yatra_paused',
+        timestamp: expect.any(Number),
+        data: yatra,
+      });
+    });
+
+    it('should resume the yatra and the milestones paused with it', async () => {
+      const yatra = await yatraManager.startYatra('Goal');
+      yatra.milestones.push(milestone as any);
+      karmaPhala.resumeMilestone.mockClear();
+      await yatraManager.pauseYatra();
+      jest.advanceTimersByTime(15 * 60000);
+
+      await yatraManager.resumeYatra();
+
+      expect(yatraManager.isPaused()).toBe(false);
+      expect(yatra.pauses![0].end! - yatra.pauses![0].start).toBe(15 * 60000);
+      expect(karmaPhala.resumeMilestone).toHaveBeenCalledWith('m1', 'yatra');
+      expect(eventEmitter.fire).toHaveBeenCalledWith({
+        type: 'yatra_resumed',
+        timestamp: expect.any(Number),
+        data: yatra,
+      });
+    });
+
+    it('should leave milestones of earlier yatras paused', async () => {
+      await yatraManager.startYatra('Goal');
+      await yatraManager.pauseYatra();
+
+      await yatraManager.resumeYatra();
+
+      expect(karmaPhala.resumeMilestone).not.toHaveBeenCalled();
+    });
+
+    it('should throw when there is no yatra to pause or resume', async () => {
+      await expect(yatraManager.pauseYatra()).rejects.toThrow('No active yatra to pause');
+      await expect(yatraManager.resumeYatra()).rejects.toThrow('No active yatra to resume');
+    });
+
+    it('should pause milestones and close the open pause when the yatra ends', async () => {
+      await yatraManager.startYatra('Goal');
+      await yatraManager.pauseYatra();
+      karmaPhala.pauseMilestone.mockClear();
+      jest.advanceTimersByTime(60000);
+
+      const yatra = await yatraManager.endYatra();
+
+      expect(yatra.pauses![0].end).toBe(yatra.endedAt);
+      expect(karmaPhala.pauseMilestone).toHaveBeenCalledWith('m1', 'yatra', yatra.endedAt);
+    });
+
+    it('should pause on idle from the last activity and resume on the next', async () => {
+      const vscode = (global as any).testUtils.mockVSCode;
+      const idleManager = new YatraManager(
+        { ...config, idleTimeout: 300 },
+        eventEmitter,
+        sutraCheckpoints,
+        karmaPhala,
+        dharmaSankata,
+        stateStorage
+      );
+      const yatra = await idleManager.startYatra('Goal');
+      const lastActivity = Date.now();
+
+      await jest.advanceTimersByTimeAsync(6 * 60000);
+
+      expect(idleManager.isPaused()).toBe(true);
+      expect(yatra.pauses).toEqual([{ start: lastActivity, reason: 'idle' }]);
+
+      const listener = vscode.window.onDidChangeTextEditorSelection.mock.calls.slice(-1)[0][0];
+      listener({});
+
+      expect(idleManager.isPaused()).toBe(false);
+      await idleManager.endYatra();
+    });
+
+    it('should not resume a manual pause on activity', async () => {
+      const vscode = (global as any).testUtils.mockVSCode;
+      const idleManager = new YatraManager(
+        { ...config, idleTimeout: 300 },
+        eventEmitter,
+        sutraCheckpoints,
+        karmaPhala,
+        dharmaSankata,
+        stateStorage
+      );
+      await idleManager.startYatra('Goal');
+      await idleManager.pauseYatra();
+
+      await jest.advanceTimersByTimeAsync(6 * 60000);
+      const listener = vscode.window.onDidChangeTextEditorSelection.mock.calls.slice(-1)[0][0];
+      listener({});
+
+      expect(idleManager.isPaused()).toBe(true);
+      await idleManager.endYatra();
+    });
+
+    it('should keep a restored yatra paused', async () => {
+      stateStorage.get.mockReturnValue({
+        id: 'yatra-123',
+        startedAt: Date.now() - 60000,
+        checkpoints: [],
+        milestones: [],
+        dharmaAlerts: [],
+        pauses: [{ start: Date.now() - 30000, reason: 'manual' }],
+      });
+
+      await yatraManager.restoreState();
+
+      expect(yatraManager.isPaused()).toBe(true);
+      expect(karmaPhala.resumeMilestone).not.toHaveBeenCalled();
+    });
+  });
+
   describe('sankalpa reminders', () => {
     beforeEach(() => {
       jest.useFakeTimers();
@@ -10,8 +10,10 @@ import {
   getAtmaVicharaWebviewContent,
   getDharmaAlertWebviewContent,
   getDrishtiWebviewContent,
+  getEstimateAccuracyWebviewContent,
   getYatraWebviewContent,
 } from '../../src/extension';
+import { getEstimateAccuracy } from '../../src/analytics/estimate-accuracy';
 
 describe('UI Component Snapshots', () => {
   describe('Yatra Webview', () => {
@@ -114,6 +116,143 @@ describe('UI Component Snapshots', () => {
 
       expect(html).toContain('Fix &lt;script&gt; XSS &amp; SQL &quot;injection&quot; issues');
     });
+
+    it('should show checkpoint pins, labels and annotations', () => {
+      const mockYatra: IYatra = {
+        id: 'yatra-labels',
+        startedAt: Date.now() - 1800000,
+        checkpoints: [
+          {
+            id: 'cp1',
+            timestamp: Date.now() - 900000,
+            summary: 'Update login in auth.ts',
+            filesChanged: ['auth.ts'],
+            labels: ['tests green', '<b>'],
+            pinned: true,
+            annotation: 'Safe point before refactor',
+          },
+        ],
+        milestones: [],
+        dharmaAlerts: [],
+      };
+
+      const html = getYatraWebviewContent(mockYatra);
+
+      expect(html).toContain('📌 Update login in auth.ts');
+      expect(html).toContain('<span class="label">tests green</span>');
+      expect(html).toContain('<span class="label">&lt;b&gt;</span>');
+      expect(html).toContain('<div class="annotation">Safe point before refactor</div>');
+    });
+
+    it('should summarize each root of a multi-root yatra', () => {
+      const mockYatra: IYatra = {
+        id: 'yatra-roots',
+        startedAt: Date.now() - 1800000,
+        workspaceFolders: ['api', 'web'],
+        checkpoints: [
+          { id: 'cp1', timestamp: 1, filesChanged: ['/a.ts'], workspaceFolders: ['api', 'web'] },
+          { id: 'cp2', timestamp: 2, filesChanged: ['/b.ts'], workspaceFolders: ['web'] },
+        ],
+        milestones: [],
+        dharmaAlerts: [
+          {
+            detected: true,
+            timestamp: 3,
+            reason: 'file_threshold',
+            details: { filesChanged: 11, threshold: 10, workspaceFolder: 'web' },
+            suggestion: 'Too many files',
+          },
+        ],
+        changes: [
+          {
+            path: '/repo/web/b.ts',
+            status: 'modified',
+            linesAdded: 1,
+            linesDeleted: 0,
+            dirty: false,
+            workspaceFolder: 'web',
+          },
+        ],
+      };
+
+      const html = getYatraWebviewContent(mockYatra);
+
+      expect(html).toContain('Workspace Folders (2)');
+      expect(html).toContain('<tr><td>api</td><td>1</td><td>0</td><td>0</td></tr>');
+      expect(html).toContain('<tr><td>web</td><td>2</td><td>1</td><td>1</td></tr>');
+      expect(html).toContain('<span class="root">web</span> file_threshold');
+    });
+
+    it('should not summarize roots of single-folder yatras', () => {
+      const html = getYatraWebviewContent({
+        id: 'yatra-single',
+        startedAt: 1,
+        checkpoints: [],
+        milestones: [],
+        dharmaAlerts: [],
+      });
+
+      expect(html).not.toContain('Workspace Folders');
+    });
+
+    it('should show test and build results on checkpoints', () => {
+      const mockYatra: IYatra = {
+        id: 'yatra-runs',
+        startedAt: Date.now() - 1800000,
+        checkpoints: [
+          {
+            id: 'cp1',
+            timestamp: Date.now() - 900000,
+            filesChanged: ['auth.ts'],
+            runs: [
+              { kind: 'build', name: 'tsc', exitCode: 0, passed: true },
+              {
+                kind: 'test',
+                name: 'jest',
+                exitCode: 1,
+                passed: false,
+                failingTests: ['Auth › expired'],
+              },
+            ],
+          },
+        ],
+        milestones: [],
+        dharmaAlerts: [],
+      };
+
+      const html = getYatraWebviewContent(mockYatra);
+
+      expect(html).toContain('✅ tsc');
+      expect(html).toContain('❌ jest - failing: Auth › expired');
+    });
+  });
+
+  describe('Estimate Accuracy Webview', () => {
+    it('should summarize estimates and list each milestone', () => {
+      const html = getEstimateAccuracyWebviewContent(
+        getEstimateAccuracy([
+          {
+            milestoneId: 'm1',
+            name: 'Auth <flow>',
+            targetDuration: 3600,
+            actualDuration: 5400,
+            completedAt: Date.now(),
+          },
+        ])
+      );
+
+      expect(html).toContain('<strong>Median actual / target:</strong> 1.50×');
+      expect(html).toContain('<td>Auth &lt;flow&gt;</td>');
+      expect(html).toContain('<td>60 min</td>');
+      expect(html).toContain('<td>90 min</td>');
+    });
+
+    it('should explain an empty report', () => {
+      const html = getEstimateAccuracyWebviewContent(getEstimateAccuracy([]));
+
+      expect(html).toContain('No completed milestones with a target duration yet');
+      expect(html).not.toContain('<table>');
+    });
   });
 
   describe('Drishti Dashboard Webview', () => {
@@ -369,6 +508,41 @@ describe('UI Component Snapshots', () => {
       expect(html).toContain('context switching');
     });
 
+    it('should render every finding of a multi-reason alert', () => {
+      const multiSankata: IDharmaSankata = {
+        detected: true,
+        timestamp: Date.now(),
+        reason: 'goal_mismatch',
+        severity: 'critical',
+        findings: [
+          {
+            reason: 'file_threshold',
+            severity: 'warn',
+            evidence: ['12 files changed', 'Threshold: 10'],
+            suggestion: 'Consider breaking this into smaller, focused changes.',
+          },
+          {
+            reason: 'goal_mismatch',
+            severity: 'critical',
+            evidence: ['Goal relevance: 0%'],
+            suggestion: 'Consider realigning or updating your goal.',
+          },
+        ],
+        details: {
+          filesChanged: 12,
+          threshold: 10,
+        },
+        suggestion: 'Consider realigning or updating your goal.',
+      };
+
+      const html = getDharmaAlertWebviewContent(multiSankata);
+
+      expect(html).toContain('<strong>Severity:</strong> critical');
+      expect(html).toContain('FILE THRESHOLD (warn)');
+      expect(html).toContain('GOAL MISMATCH (critical)');
+      expect(html).toContain('<li>Goal relevance: 0%</li>');
+    });
+
     it('should handle minimal sankata data', () => {
       const minimalSankata: IDharmaSankata = {
         detected: true,
@@ -219,11 +219,50 @@ describe('AtmaVichara', () => {
       expect(analysis.changePattern).toBe('iterative');
     });
 
+    it('should analyze sweeping change pattern from line stats', () => {
+      const checkpoints = [
+        {
+          id: 'cp1',
+          timestamp: 1000,
+          filesChanged: ['main.ts'],
+          diffStats: [{ path: 'main.ts', insertions: 400, deletions: 350, hunks: 3 }],
+        },
+        {
+          id: 'cp2',
+          timestamp: 2000,
+          filesChanged: ['util.ts'],
+          diffStats: [{ path: 'util.ts', insertions: 20, deletions: 10, hunks: 1 }],
+        },
+      ];
+
+      const analysis = atmaVichara.analyzeDiffs(checkpoints);
+
+      expect(analysis.totalInsertions).toBe(420);
+      expect(analysis.totalDeletions).toBe(360);
+      expect(analysis.changePattern).toBe('sweeping');
+    });
+
+    it('should keep small edits out of the sweeping pattern', () => {
+      const checkpoints = [
+        {
+          id: 'cp1',
+          timestamp: 1000,
+          filesChanged: ['main.ts'],
+          diffStats: [{ path: 'main.ts', insertions: 1, deletions: 1, hunks: 1 }],
+        },
+      ];
+
+      const analysis = atmaVichara.analyzeDiffs(checkpoints);
+
+      expect(analysis.changePattern).toBe('focused');
+    });
+
     it('should handle empty checkpoints', () => {
       const analysis = atmaVichara.analyzeDiffs([]);
 
       expect(analysis.totalFilesChanged).toBe(0);
       expect(analysis.uniqueFiles).toEqual([]);
+      expect(analysis.totalInsertions).toBe(0);
       expect(analysis.changePattern).toBe('focused');
     });
   });